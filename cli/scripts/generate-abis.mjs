@@ -0,0 +1,335 @@
+// Generates typed ABI modules for the FounderHedge contracts.
+//
+// When forge artifacts exist in the repository's out/ directory they are used
+// as-is. Otherwise the ABI is derived from the Solidity sources, following
+// inheritance, so the SDK can be regenerated without the Seismic toolchain.
+//
+// Usage: node scripts/generate-abis.mjs [--sources-only]
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const CLI_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const REPO_ROOT = resolve(CLI_ROOT, '..');
+const OUTPUT_DIR = join(CLI_ROOT, 'src', 'sdk', 'abi');
+
+const CONTRACTS = [
+  {
+    name: 'SuccessPool',
+    source: 'src/SuccessPool.sol',
+    file: 'success-pool',
+    exportName: 'successPoolAbi',
+  },
+  {
+    name: 'ExitContribution',
+    source: 'src/ExitContribution.sol',
+    file: 'exit-contribution',
+    exportName: 'exitContributionAbi',
+  },
+  {
+    name: 'DividendDistributor',
+    source: 'src/DividendDistributor.sol',
+    file: 'dividend-distributor',
+    exportName: 'dividendDistributorAbi',
+  },
+  { name: 'USDY', source: 'src/SRC20/USDY.sol', file: 'usdy', exportName: 'usdyAbi' },
+];
+
+const ELEMENTARY_TYPE = /^(s?u?int\d*|s?address|s?bool|s?bytes\d*|string|bytes)(\[\d*\])*$/;
+const DATA_LOCATIONS = new Set(['memory', 'calldata', 'storage', 'payable']);
+
+// ---------------------------------------------------------------------------
+// Source parsing
+// ---------------------------------------------------------------------------
+
+function stripComments(source) {
+  let out = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      out += source.slice(i, end + 1);
+      i = end;
+    } else if (source.startsWith('//', i)) {
+      i = source.indexOf('\n', i) - 1;
+      if (i < 0) break;
+    } else if (source.startsWith('/*', i)) {
+      i = source.indexOf('*/', i) + 1;
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+// Splits a block into top-level declarations, skipping nested bodies
+function splitDeclarations(body) {
+  const declarations = [];
+  let current = '';
+  let depth = 0;
+  for (const char of body) {
+    if (depth > 0) {
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      continue;
+    }
+    if (char === '{') {
+      declarations.push(current.trim());
+      current = '';
+      depth = 1;
+    } else if (char === ';') {
+      declarations.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return declarations.map(d => d.replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+function splitTopLevel(list) {
+  const parts = [];
+  let current = '';
+  let depth = 0;
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function normalizeType(type) {
+  const [base, ...dims] = type.split('[');
+  const suffix = dims.length ? `[${dims.join('[')}` : '';
+  const aliased = base.replace(/^(s?u?int)$/, '$1256');
+  // Contract and interface types are encoded as addresses
+  return ELEMENTARY_TYPE.test(aliased + suffix) ? aliased + suffix : `address${suffix}`;
+}
+
+function parseParameters(list) {
+  return splitTopLevel(list).map(param => {
+    const tokens = param.split(' ').filter(token => !DATA_LOCATIONS.has(token));
+    const indexed = tokens.includes('indexed');
+    const [type, ...rest] = tokens.filter(token => token !== 'indexed');
+    const parsed = { name: rest[rest.length - 1] ?? '', type: normalizeType(type) };
+    return indexed ? { ...parsed, indexed } : parsed;
+  });
+}
+
+// Extracts the parenthesised group that starts at or after `from`
+function readGroup(text, from) {
+  const start = text.indexOf('(', from);
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) {
+      return { inner: text.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  throw new Error(`Unbalanced parentheses in: ${text}`);
+}
+
+function parseFunction(declaration) {
+  const name = declaration.match(/^function (\w+)/)[1];
+  const params = readGroup(declaration, 0);
+  const attributes = declaration.slice(params.end);
+  if (!/\b(external|public)\b/.test(attributes)) return null;
+
+  const returnsIndex = attributes.search(/\breturns\b/);
+  const outputs =
+    returnsIndex >= 0 ? parseParameters(readGroup(attributes, returnsIndex).inner) : [];
+  const mutability = attributes.match(/\b(view|pure|payable)\b/)?.[1] ?? 'nonpayable';
+
+  return {
+    name,
+    type: 'function',
+    stateMutability: mutability,
+    inputs: parseParameters(params.inner),
+    outputs,
+  };
+}
+
+function parseEventOrError(kind, declaration) {
+  const name = declaration.match(new RegExp(`^${kind} (\\w+)`))[1];
+  const params = parseParameters(readGroup(declaration, 0).inner);
+  return kind === 'event'
+    ? { name, type: 'event', inputs: params.map(p => ({ indexed: false, ...p })) }
+    : { name, type: 'error', inputs: params };
+}
+
+// Public state variables compile to view getters
+function parseStateVariable(declaration) {
+  const withoutValue = declaration.split('=')[0].trim();
+  const tokens = withoutValue.split(' ');
+  if (!tokens.includes('public') || tokens[0] === 'mapping') return null;
+  return {
+    name: tokens[tokens.length - 1],
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: normalizeType(tokens[0]) }],
+  };
+}
+
+function parseUnit(header, body) {
+  const entries = [];
+  for (const declaration of splitDeclarations(body)) {
+    let entry = null;
+    if (declaration.startsWith('function ')) entry = parseFunction(declaration);
+    else if (declaration.startsWith('event ')) entry = parseEventOrError('event', declaration);
+    else if (declaration.startsWith('error ')) entry = parseEventOrError('error', declaration);
+    else if (!/^(constructor|modifier|using|struct|enum|receive|fallback)\b/.test(declaration)) {
+      entry = parseStateVariable(declaration);
+    }
+    if (entry) entries.push(entry);
+  }
+  const bases =
+    header
+      .match(/\bis (.+)$/)?.[1]
+      .split(',')
+      .map(b => b.trim()) ?? [];
+  return { bases, entries };
+}
+
+function parseFile(path, units, visited) {
+  if (visited.has(path)) return;
+  visited.add(path);
+  if (!existsSync(path)) {
+    console.warn(`warning: ${relative(REPO_ROOT, path)} not found, its definitions are skipped`);
+    return;
+  }
+
+  const source = stripComments(readFileSync(path, 'utf8'));
+  for (const match of source.matchAll(/import\s+(?:\{[^}]*\}\s+from\s+)?"([^"]+)"/g)) {
+    parseFile(resolve(dirname(path), match[1]), units, visited);
+  }
+
+  const fileLevel = [];
+  for (const declaration of splitDeclarations(source)) {
+    if (declaration.startsWith('error ')) fileLevel.push(parseEventOrError('error', declaration));
+  }
+
+  const unitPattern = /\b(?:abstract\s+)?(?:contract|interface|library)\s+(\w+)([^{]*)\{/g;
+  let match;
+  while ((match = unitPattern.exec(source))) {
+    let depth = 1;
+    let i = unitPattern.lastIndex;
+    for (; depth > 0; i++) {
+      if (source[i] === '{') depth++;
+      if (source[i] === '}') depth--;
+    }
+    const unit = parseUnit(match[2].trim(), source.slice(unitPattern.lastIndex, i - 1));
+    // File-level errors are reachable from every unit declared alongside them
+    unit.entries.push(...fileLevel);
+    units.set(match[1], unit);
+    unitPattern.lastIndex = i;
+  }
+}
+
+function signature(entry) {
+  return `${entry.type}:${entry.name}(${entry.inputs.map(i => i.type).join(',')})`;
+}
+
+function linearize(name, units, seen = new Map()) {
+  const unit = units.get(name);
+  if (!unit) return seen;
+  for (const base of unit.bases) linearize(base, units, seen);
+  // Derived definitions override inherited ones with the same signature
+  for (const entry of unit.entries) seen.set(signature(entry), entry);
+  return seen;
+}
+
+const TYPE_ORDER = ['function', 'event', 'error'];
+
+function abiFromSources(contract) {
+  const units = new Map();
+  parseFile(join(REPO_ROOT, contract.source), units, new Set());
+  return [...linearize(contract.name, units).values()].sort(
+    (a, b) =>
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) || a.name.localeCompare(b.name)
+  );
+}
+
+function abiFromArtifact(contract) {
+  const artifact = join(REPO_ROOT, 'out', basename(contract.source), `${contract.name}.json`);
+  if (!existsSync(artifact)) return null;
+  return JSON.parse(readFileSync(artifact, 'utf8')).abi.filter(entry =>
+    TYPE_ORDER.includes(entry.type)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function formatValue(value) {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+function formatParam(param) {
+  const fields = ['name', 'type', 'indexed']
+    .filter(key => key in param)
+    .map(key => `${key}: ${formatValue(param[key])}`);
+  return `{ ${fields.join(', ')} }`;
+}
+
+function formatParams(key, params, indent) {
+  const inline = `${indent}${key}: [${params.map(formatParam).join(', ')}],`;
+  if (params.length <= 1 && inline.length <= 100) return [inline];
+  return [`${indent}${key}: [`, ...params.map(p => `${indent}  ${formatParam(p)},`), `${indent}],`];
+}
+
+function formatAbi(abi) {
+  const lines = [];
+  for (const entry of abi) {
+    lines.push('  {');
+    lines.push(`    name: '${entry.name}',`);
+    lines.push(`    type: '${entry.type}',`);
+    if (entry.type === 'function') lines.push(`    stateMutability: '${entry.stateMutability}',`);
+    lines.push(...formatParams('inputs', entry.inputs, '    '));
+    if (entry.type === 'function') lines.push(...formatParams('outputs', entry.outputs, '    '));
+    lines.push('  },');
+  }
+  return lines.join('\n');
+}
+
+const sourcesOnly = process.argv.includes('--sources-only');
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+for (const contract of CONTRACTS) {
+  const artifactAbi = sourcesOnly ? null : abiFromArtifact(contract);
+  const abi = artifactAbi ?? abiFromSources(contract);
+  const origin = artifactAbi
+    ? `out/${basename(contract.source)}/${contract.name}.json`
+    : contract.source;
+
+  const output = [
+    `// Generated by scripts/generate-abis.mjs from ${origin}. Do not edit by hand.`,
+    '',
+    `export const ${contract.exportName} = [`,
+    formatAbi(abi),
+    '] as const;',
+    '',
+  ].join('\n');
+
+  writeFileSync(join(OUTPUT_DIR, `${contract.file}.ts`), output);
+  console.log(`${contract.name}: ${abi.length} entries from ${origin}`);
+}
+
+writeFileSync(
+  join(OUTPUT_DIR, 'index.ts'),
+  [
+    '// Generated by scripts/generate-abis.mjs. Do not edit by hand.',
+    '',
+    ...CONTRACTS.map(c => `export { ${c.exportName} } from './${c.file}.js';`),
+    '',
+  ].join('\n')
+);
@@ -0,0 +1,56 @@
+import { Address, isAddress, isAddressEqual, parseUnits, zeroAddress } from 'viem';
+import { CliError } from './errors.js';
+import { USDY_ROLES, UsdyRole } from './sdk/index.js';
+
+/**
+ * Parse an address argument, rejecting the zero address
+ */
+export function parseAddress(value: string, name: string): Address {
+  if (!isAddress(value) || isAddressEqual(value, zeroAddress)) {
+    throw new CliError('INVALID_ARGUMENT', `${name} must be a non-zero 0x-prefixed address`);
+  }
+  return value;
+}
+
+/**
+ * Parse a commitment percentage, which must be a whole number. Its range is
+ * checked by the join preflight against the pool's limits.
+ */
+export function parseCommitment(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new CliError('INVALID_ARGUMENT', 'Commitment percentage must be a whole number');
+  }
+  return BigInt(value);
+}
+
+/**
+ * Parse a decimal token amount exactly, rejecting anything parseUnits would round
+ */
+export function parseTokenAmount(value: string, decimals: number, name = 'Amount'): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) {
+    throw new CliError('INVALID_ARGUMENT', `${name} must be a non-negative decimal number`);
+  }
+  if ((match[2] ?? '').length > decimals) {
+    throw new CliError('INVALID_ARGUMENT', `${name} has more than ${decimals} decimals: ${value}`);
+  }
+  return parseUnits(value.trim(), decimals);
+}
+
+/**
+ * Parse a USDY role name, accepting "minter", "MINTER" or "MINTER_ROLE"
+ */
+export function parseRole(value: string): UsdyRole {
+  const roles = Object.keys(USDY_ROLES) as UsdyRole[];
+  const name = value
+    .toUpperCase()
+    .replace(/-/g, '_')
+    .replace(/_ROLE$/, '');
+  if (!roles.includes(name as UsdyRole)) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `Unknown USDY role "${value}", expected one of ${roles.join(', ')}`
+    );
+  }
+  return name as UsdyRole;
+}
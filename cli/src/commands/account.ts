@@ -0,0 +1,99 @@
+import { Command } from 'commander';
+import { ethers } from 'ethers';
+import { CliError } from '../errors.js';
+import {
+  getActiveAccount,
+  listAccounts,
+  promptPassphrase,
+  saveAccount,
+  setActiveAccount,
+} from '../keystore.js';
+import { log, runCommand } from '../output.js';
+import { promptSecret } from '../prompt.js';
+
+export function registerAccountCommands(program: Command) {
+  const accountCommand = program
+    .command('account')
+    .description('Manage encrypted signer keystores');
+
+  accountCommand
+    .command('create')
+    .description('Create a new account in an encrypted keystore')
+    .argument('<alias>', 'Name for the account')
+    .action(
+      runCommand(async (alias: string) => {
+        const passphrase = await promptPassphrase('Passphrase to encrypt the new account:', true);
+        const created = await saveAccount(
+          alias,
+          ethers.Wallet.createRandom().privateKey,
+          passphrase
+        );
+
+        log('\nAccount created!');
+        log('- Alias:', created.alias);
+        log('- Address:', created.address);
+        log('Fund this address before using it with the pool');
+
+        return created;
+      })
+    );
+
+  accountCommand
+    .command('import')
+    .description('Import an existing private key into an encrypted keystore')
+    .argument('<alias>', 'Name for the account')
+    .action(
+      runCommand(async (alias: string) => {
+        const privateKey = await promptSecret('Private key to import:');
+        if (!ethers.isHexString(privateKey, 32) && !ethers.isHexString(`0x${privateKey}`, 32)) {
+          throw new CliError('INVALID_ARGUMENT', 'Private key must be 32 bytes of hex');
+        }
+
+        const passphrase = await promptPassphrase('Passphrase to encrypt the account:', true);
+        const imported = await saveAccount(
+          alias,
+          privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`,
+          passphrase
+        );
+
+        log('\nAccount imported!');
+        log('- Alias:', imported.alias);
+        log('- Address:', imported.address);
+
+        return imported;
+      })
+    );
+
+  accountCommand
+    .command('list')
+    .description('List keystore accounts')
+    .action(
+      runCommand(() => {
+        const accounts = listAccounts();
+        const active = getActiveAccount() ?? null;
+
+        if (accounts.length === 0) {
+          log('No accounts found');
+          log('- Create one with: founder-hedge account create <alias>');
+        }
+        for (const { alias, address } of accounts) {
+          log(`${alias === active ? '*' : ' '} ${alias.padEnd(16)} ${address}`);
+        }
+
+        return { active, accounts };
+      })
+    );
+
+  accountCommand
+    .command('use')
+    .description('Set the account used when --account is not given')
+    .argument('<alias>', 'Account to make active')
+    .action(
+      runCommand((alias: string) => {
+        setActiveAccount(alias);
+        log('Active account:', alias);
+
+        return { active: alias };
+      })
+    );
+}
@@ -0,0 +1,291 @@
+import { Command, Option } from 'commander';
+import { Hash, isAddressEqual, zeroAddress } from 'viem';
+import { parseAddress } from '../args.js';
+import { CommandContext, createContext, getWiredDistributor } from '../context.js';
+import { CliError } from '../errors.js';
+import { log, runCommand } from '../output.js';
+import {
+  AdminControlledClient,
+  DividendDistributorClient,
+  SuccessPoolClient,
+  WriteOptions,
+} from '../sdk/index.js';
+import { ConfirmOptions, confirmWrites, executeWrite } from '../transactions.js';
+
+const TARGETS = ['pool', 'exit-contribution', 'distributor'] as const;
+
+type AdminTarget = (typeof TARGETS)[number];
+
+interface AdminOptions extends ConfirmOptions {
+  target?: AdminTarget;
+  all?: boolean;
+}
+
+interface TargetContract {
+  target: AdminTarget;
+  contract: AdminControlledClient;
+}
+
+/**
+ * One admin transaction, or the reason it is not needed
+ */
+interface AdminCall extends TargetContract {
+  functionName: string;
+  args?: readonly unknown[];
+  send: (options: WriteOptions) => Promise<Hash>;
+  skip?: string;
+}
+
+async function resolveTargets(
+  ctx: CommandContext,
+  options: AdminOptions
+): Promise<TargetContract[]> {
+  if (Boolean(options.all) === Boolean(options.target)) {
+    throw new CliError('INVALID_ARGUMENT', 'Pass either --target <contract> or --all');
+  }
+
+  const distributor = await getWiredDistributor(ctx);
+  const contracts: Record<AdminTarget, AdminControlledClient | null> = {
+    pool: ctx.clients.pool,
+    'exit-contribution': ctx.clients.exitContribution,
+    // Not available until the pool has been wired to a distributor
+    distributor: isAddressEqual(distributor.address, zeroAddress) ? null : distributor,
+  };
+
+  const names = options.all ? TARGETS : [options.target as AdminTarget];
+  const targets: TargetContract[] = [];
+  for (const target of names) {
+    const contract = contracts[target];
+    if (contract) {
+      targets.push({ target, contract });
+    } else if (!options.all) {
+      throw new CliError('CONTRACT_NOT_FOUND', `The pool has no ${target} set`);
+    } else {
+      log(`Skipping ${target}: the pool has no ${target} set`);
+    }
+  }
+  return targets;
+}
+
+// Every contract must be administered by the signer, checked before anything is sent
+async function assertAdmin(ctx: CommandContext, targets: TargetContract[]) {
+  const mismatches = [];
+  for (const { target, contract } of targets) {
+    const admin = await contract.admin();
+    if (!isAddressEqual(admin, ctx.address)) {
+      mismatches.push({ contract: target, address: contract.address, admin });
+    }
+  }
+
+  if (mismatches.length > 0) {
+    for (const mismatch of mismatches) {
+      log(`- ${mismatch.contract} (${mismatch.address}) is administered by ${mismatch.admin}`);
+    }
+    throw new CliError(
+      'UNAUTHORIZED',
+      `Signer ${ctx.address} is not the admin of ${mismatches.map(m => m.contract).join(', ')}`,
+      { signer: ctx.address, mismatches },
+      'Sign with the admin account using --account <alias>'
+    );
+  }
+}
+
+/**
+ * Check the signer, confirm, then send each admin call in turn
+ */
+async function runAdminCalls(ctx: CommandContext, calls: AdminCall[], options: AdminOptions) {
+  await assertAdmin(ctx, calls);
+
+  const pending = calls.filter(call => !call.skip);
+  for (const call of calls) {
+    const status = call.skip ? `skipped, ${call.skip}` : 'will be sent';
+    log(`- ${call.target} ${call.functionName}(${(call.args ?? []).join(', ')}): ${status}`);
+  }
+
+  if (pending.length > 0) {
+    await confirmWrites(`Send ${pending.length} admin transaction(s)?`, options);
+  }
+
+  const results = [];
+  for (const call of calls) {
+    if (call.skip) {
+      results.push({ contract: call.target, address: call.contract.address, skipped: call.skip });
+      continue;
+    }
+
+    log(`\n${call.target}: ${call.functionName}`);
+    const result = await executeWrite(ctx, call, options.dryRun);
+    results.push({ contract: call.target, address: call.contract.address, ...result });
+  }
+
+  return { signer: ctx.address, dryRun: Boolean(options.dryRun), calls: results };
+}
+
+function targetOptions(command: Command): Command {
+  return command
+    .addOption(
+      new Option('-t, --target <contract>', 'Contract to administer').choices([...TARGETS])
+    )
+    .option('--all', 'Administer the pool, exit contribution and distributor contracts')
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .option('--dry-run', 'Simulate the transactions without sending them');
+}
+
+export function registerAdminCommands(program: Command) {
+  const admin = program
+    .command('admin')
+    .description('Emergency controls and wiring for contract admins');
+
+  targetOptions(admin.command('pause').description('Pause contracts')).action(
+    runCommand(async (options: AdminOptions) => {
+      const ctx = await createContext();
+      const targets = await resolveTargets(ctx, options);
+
+      const calls: AdminCall[] = [];
+      for (const target of targets) {
+        calls.push({
+          ...target,
+          functionName: 'pause',
+          send: gasOptions => target.contract.pause(gasOptions),
+          skip: (await target.contract.paused()) ? 'already paused' : undefined,
+        });
+      }
+
+      return runAdminCalls(ctx, calls, options);
+    })
+  );
+
+  targetOptions(admin.command('unpause').description('Unpause contracts')).action(
+    runCommand(async (options: AdminOptions) => {
+      const ctx = await createContext();
+      const targets = await resolveTargets(ctx, options);
+
+      const calls: AdminCall[] = [];
+      for (const target of targets) {
+        calls.push({
+          ...target,
+          functionName: 'unpause',
+          send: gasOptions => target.contract.unpause(gasOptions),
+          skip: (await target.contract.paused()) ? undefined : 'not paused',
+        });
+      }
+
+      return runAdminCalls(ctx, calls, options);
+    })
+  );
+
+  targetOptions(
+    admin
+      .command('change-admin')
+      .description('Hand the admin role of contracts to another address')
+      .argument('<address>', 'New admin address')
+  ).action(
+    runCommand(async (address: string, options: AdminOptions) => {
+      const newAdmin = parseAddress(address, 'New admin');
+      const ctx = await createContext();
+      const targets = await resolveTargets(ctx, options);
+
+      const calls: AdminCall[] = targets.map(target => ({
+        ...target,
+        functionName: 'changeAdmin',
+        args: [newAdmin],
+        send: gasOptions => target.contract.changeAdmin(newAdmin, gasOptions),
+        skip: isAddressEqual(newAdmin, ctx.address) ? 'already the admin' : undefined,
+      }));
+
+      return runAdminCalls(ctx, calls, options);
+    })
+  );
+
+  admin
+    .command('set-dividend-distributor')
+    .description('Wire the pool to its DividendDistributor (can only be set once)')
+    .argument('<address>', 'DividendDistributor address')
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .option('--dry-run', 'Simulate the transaction without sending it')
+    .action(
+      runCommand(async (address: string, options: AdminOptions) => {
+        const distributorAddress = parseAddress(address, 'Distributor');
+        const ctx = await createContext();
+        const { pool } = ctx.clients;
+
+        const current = await pool.dividendDistributor();
+        if (!isAddressEqual(current, zeroAddress)) {
+          throw new CliError('ALREADY_CONFIGURED', `The pool is already wired to ${current}`);
+        }
+
+        // The distributor only accepts calls from the pool it was deployed for
+        const distributor = new DividendDistributorClient({
+          address: distributorAddress,
+          client: ctx.walletClient,
+        });
+        const boundPool = await distributor.poolContract();
+        if (!isAddressEqual(boundPool, pool.address)) {
+          throw new CliError(
+            'INVALID_ARGUMENT',
+            `Distributor ${distributorAddress} was deployed for pool ${boundPool}, not ${pool.address}`
+          );
+        }
+
+        return runAdminCalls(
+          ctx,
+          [
+            {
+              target: 'pool',
+              contract: pool,
+              functionName: 'setDividendDistributor',
+              args: [distributorAddress],
+              send: gasOptions => pool.setDividendDistributor(distributorAddress, gasOptions),
+            },
+          ],
+          options
+        );
+      })
+    );
+
+  admin
+    .command('set-pool-contract')
+    .description('Wire the ExitContribution contract to its pool (can only be set once)')
+    .argument('[address]', 'Pool address (defaults to the pool of the network profile)')
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .option('--dry-run', 'Simulate the transaction without sending it')
+    .action(
+      runCommand(async (address: string | undefined, options: AdminOptions) => {
+        const ctx = await createContext();
+        const poolAddress = address ? parseAddress(address, 'Pool') : ctx.profile.poolAddress;
+        const { exitContribution } = ctx.clients;
+
+        const current = await exitContribution.poolContract();
+        if (!isAddressEqual(current, zeroAddress)) {
+          throw new CliError(
+            'ALREADY_CONFIGURED',
+            `ExitContribution ${exitContribution.address} is already wired to ${current}`
+          );
+        }
+
+        // The pool must have been deployed against this ExitContribution contract
+        const pool = new SuccessPoolClient({ address: poolAddress, client: ctx.walletClient });
+        const boundExitContribution = await pool.exitContribution();
+        if (!isAddressEqual(boundExitContribution, exitContribution.address)) {
+          throw new CliError(
+            'INVALID_ARGUMENT',
+            `Pool ${poolAddress} uses ExitContribution ${boundExitContribution}, not ${exitContribution.address}`
+          );
+        }
+
+        return runAdminCalls(
+          ctx,
+          [
+            {
+              target: 'exit-contribution',
+              contract: exitContribution,
+              functionName: 'setPoolContract',
+              args: [poolAddress],
+              send: gasOptions => exitContribution.setPoolContract(poolAddress, gasOptions),
+            },
+          ],
+          options
+        );
+      })
+    );
+}
@@ -0,0 +1,249 @@
+import { Command, Option } from 'commander';
+import { loadProfile, requireProfile } from '../config.js';
+import { createPublicContext, getGlobalOptions } from '../context.js';
+import { CliError } from '../errors.js';
+import {
+  DEFAULT_BATCH_SIZE,
+  IndexedEvent,
+  eventStorePath,
+  readEventStore,
+  syncEvents,
+} from '../indexer.js';
+import { log, logTable, runCommand, timestamp } from '../output.js';
+
+const PERIODS = ['day', 'week', 'month', 'quarter'] as const;
+
+type Period = (typeof PERIODS)[number];
+
+interface AnalyticsOptions {
+  period: Period;
+  sync?: boolean;
+}
+
+interface PeriodStats {
+  period: string;
+  joined: number;
+  left: number;
+  membersAtStart: number;
+  membersAtEnd: number;
+  // Share of the members at the start of the period who left during it
+  churnRate: number | null;
+  contributions: number;
+  contributors: number;
+  claims: number;
+  commitmentUpdates: number;
+}
+
+interface ContributionCadence {
+  contributions: number;
+  contributors: number;
+  contributionsPerContributor: number | null;
+  // Time between consecutive contributions of the same member
+  medianIntervalDays: number | null;
+  meanIntervalDays: number | null;
+}
+
+const SECONDS_PER_DAY = 86400;
+
+// UTC label of the period holding a timestamp, weeks start on Monday
+function periodOf(unix: number, period: Period): string {
+  const date = new Date(unix * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (period) {
+    case 'day':
+      return date.toISOString().slice(0, 10);
+    case 'week': {
+      const monday = Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return new Date(monday).toISOString().slice(0, 10);
+    }
+    case 'month':
+      return `${year}-${String(month + 1).padStart(2, '0')}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(month / 3) + 1}`;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Membership and activity per period, replaying joins and leaves in order
+ */
+function periodStats(events: IndexedEvent[], period: Period): PeriodStats[] {
+  const members = new Set<string>();
+  const stats = new Map<string, PeriodStats>();
+  const contributors = new Map<string, Set<string>>();
+
+  for (const event of events) {
+    const key = periodOf(event.timestamp, period);
+    let current = stats.get(key);
+    if (!current) {
+      current = {
+        period: key,
+        joined: 0,
+        left: 0,
+        membersAtStart: members.size,
+        membersAtEnd: members.size,
+        churnRate: null,
+        contributions: 0,
+        contributors: 0,
+        claims: 0,
+        commitmentUpdates: 0,
+      };
+      stats.set(key, current);
+      contributors.set(key, new Set());
+    }
+
+    const member = event.args.member;
+    switch (`${event.contract}.${event.name}`) {
+      case 'pool.MemberJoined':
+        members.add(member);
+        current.joined++;
+        break;
+      case 'pool.MemberLeft':
+        members.delete(member);
+        current.left++;
+        break;
+      case 'pool.ContributionReceived':
+        current.contributions++;
+        contributors.get(key)!.add(member);
+        break;
+      case 'distributor.DividendsClaimed':
+        current.claims++;
+        break;
+      case 'distributor.CommitmentUpdated':
+        current.commitmentUpdates++;
+        break;
+    }
+    current.membersAtEnd = members.size;
+  }
+
+  return [...stats.values()].map(current => ({
+    ...current,
+    contributors: contributors.get(current.period)!.size,
+    churnRate: current.membersAtStart > 0 ? round(current.left / current.membersAtStart) : null,
+  }));
+}
+
+function contributionCadence(events: IndexedEvent[]): ContributionCadence {
+  const byMember = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.contract !== 'pool' || event.name !== 'ContributionReceived') continue;
+    const times = byMember.get(event.args.member) ?? [];
+    times.push(event.timestamp);
+    byMember.set(event.args.member, times);
+  }
+
+  const intervals: number[] = [];
+  let contributions = 0;
+  for (const times of byMember.values()) {
+    contributions += times.length;
+    for (let index = 1; index < times.length; index++) {
+      intervals.push((times[index] - times[index - 1]) / SECONDS_PER_DAY);
+    }
+  }
+
+  const medianInterval = median(intervals);
+  return {
+    contributions,
+    contributors: byMember.size,
+    contributionsPerContributor: byMember.size > 0 ? round(contributions / byMember.size) : null,
+    medianIntervalDays: medianInterval === null ? null : round(medianInterval),
+    meanIntervalDays:
+      intervals.length > 0
+        ? round(intervals.reduce((sum, value) => sum + value, 0) / intervals.length)
+        : null,
+  };
+}
+
+export function registerAnalyticsCommand(program: Command) {
+  program
+    .command('analytics')
+    .description('Report pool membership, churn and contribution cadence from indexed events')
+    .addOption(
+      new Option('-p, --period <period>', 'Reporting period').choices([...PERIODS]).default('month')
+    )
+    .option('--sync', 'Sync the event store before reporting')
+    .action(
+      runCommand(async (options: AnalyticsOptions) => {
+        if (options.sync) {
+          const ctx = await createPublicContext();
+          await syncEvents(ctx, { batchSize: DEFAULT_BATCH_SIZE });
+        }
+
+        const profile = requireProfile(loadProfile(getGlobalOptions()), ['chainId', 'poolAddress']);
+        const path = eventStorePath(profile.chainId, profile.poolAddress);
+        const store = readEventStore(path);
+        if (!store || store.cursor === null) {
+          throw new CliError(
+            'INDEX_NOT_FOUND',
+            `No indexed events for pool ${profile.poolAddress} on chain ${profile.chainId}`,
+            { path },
+            'Run `founder-hedge index` first, or pass --sync'
+          );
+        }
+
+        const events = [...store.events].sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        );
+        const periods = periodStats(events, options.period);
+        const cadence = contributionCadence(events);
+        const joined = new Set(
+          events.filter(event => event.name === 'MemberJoined').map(event => event.args.member)
+        );
+        const currentMembers = periods.length > 0 ? periods[periods.length - 1].membersAtEnd : 0;
+
+        log(`Pool ${profile.poolAddress}, indexed up to block ${store.cursor}`);
+        log('Only public events are counted, amounts are shielded and never included.\n');
+        logTable(
+          [
+            'PERIOD',
+            'JOINED',
+            'LEFT',
+            'MEMBERS',
+            'CHURN',
+            'CONTRIBUTIONS',
+            'CONTRIBUTORS',
+            'CLAIMS',
+          ],
+          periods.map(stats => [
+            stats.period,
+            String(stats.joined),
+            String(stats.left),
+            String(stats.membersAtEnd),
+            stats.churnRate === null ? '-' : `${(stats.churnRate * 100).toFixed(0)}%`,
+            String(stats.contributions),
+            String(stats.contributors),
+            String(stats.claims),
+          ])
+        );
+        log('\nMembers:', currentMembers, 'current,', joined.size, 'ever joined');
+        log('Contributions:', cadence.contributions, 'from', cadence.contributors, 'members');
+        if (cadence.medianIntervalDays !== null) {
+          log(
+            `Days between contributions: median ${cadence.medianIntervalDays}, mean ${cadence.meanIntervalDays}`
+          );
+        }
+
+        return {
+          pool: profile.poolAddress,
+          indexedToBlock: store.cursor,
+          period: options.period,
+          firstEventAt: events.length > 0 ? timestamp(events[0].timestamp) : null,
+          lastEventAt: events.length > 0 ? timestamp(events[events.length - 1].timestamp) : null,
+          members: { current: currentMembers, everJoined: joined.size },
+          cadence,
+          periods,
+        };
+      })
+    );
+}
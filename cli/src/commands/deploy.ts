@@ -0,0 +1,136 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { Address } from 'viem';
+import { parseAddress, parseRole } from '../args.js';
+import { loadConfigFile, saveProfile } from '../config.js';
+import { createSignerContext, getGlobalOptions } from '../context.js';
+import { CliError } from '../errors.js';
+import { RoleGrant, deployContracts } from '../deployer.js';
+import { log, logTable, runCommand } from '../output.js';
+import { ConfirmOptions, confirmWrites } from '../transactions.js';
+
+interface DeployOptions extends ConfirmOptions {
+  artifacts: string;
+  usdy?: string;
+  deployUsdy?: boolean;
+  grant: string[];
+  saveAs?: string;
+  fresh?: boolean;
+}
+
+// Accepts "oracle=0x..." and collects repeated options
+function collectGrant(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseGrant(value: string): RoleGrant {
+  const [role, account, ...rest] = value.split('=');
+  if (account === undefined || rest.length > 0) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `--grant must look like <role>=<address>, got "${value}"`
+    );
+  }
+  return { role: parseRole(role), account: parseAddress(account, 'Grantee') };
+}
+
+export function registerDeployCommand(program: Command) {
+  program
+    .command('deploy')
+    .description(
+      'Deploy and wire the contracts from forge artifacts, then save them to a network profile'
+    )
+    .option('--artifacts <dir>', 'Forge output directory with the compiled contracts', 'out')
+    .option('--usdy <address>', 'Existing USDY to use (defaults to the profile USDY address)')
+    .option('--deploy-usdy', 'Deploy a new USDY administered by the signer')
+    .option(
+      '--grant <role=address>',
+      'Grant a USDY role once deployed, may be repeated',
+      collectGrant,
+      []
+    )
+    .option('--save-as <profile>', 'Profile to save the addresses to (defaults to --network)')
+    .option('--fresh', 'Deploy new contracts instead of resuming an earlier deployment')
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .action(
+      runCommand(async (options: DeployOptions) => {
+        if (options.usdy && options.deployUsdy) {
+          throw new CliError('INVALID_ARGUMENT', 'Pass either --usdy <address> or --deploy-usdy');
+        }
+        const grants = options.grant.map(parseGrant);
+
+        const ctx = await createSignerContext();
+        const profile = options.saveAs ?? ctx.profile.name;
+        let usdy: 'deploy' | Address;
+        if (options.deployUsdy) {
+          usdy = 'deploy';
+        } else if (options.usdy) {
+          usdy = parseAddress(options.usdy, 'USDY');
+        } else if (ctx.profile.usdyAddress) {
+          usdy = parseAddress(ctx.profile.usdyAddress, 'USDY');
+        } else {
+          throw new CliError(
+            'INVALID_ARGUMENT',
+            `Network "${ctx.profile.name}" has no USDY address`,
+            undefined,
+            'Pass --usdy <address> to use an existing USDY, or --deploy-usdy to deploy one'
+          );
+        }
+        const artifactsDir = resolve(options.artifacts);
+
+        // Addresses of one chain must not land in the profile of another
+        const { config } = getGlobalOptions();
+        const existing = loadConfigFile(config).networks[profile] ?? {};
+        if (existing.chainId !== undefined && Number(existing.chainId) !== ctx.profile.chainId) {
+          throw new CliError(
+            'CHAIN_MISMATCH',
+            `Profile "${profile}" is for chain ${existing.chainId}, not chain ${ctx.profile.chainId} deployed to`,
+            { expected: Number(existing.chainId), actual: ctx.profile.chainId },
+            'Pass --save-as with a new profile name, or the name of a profile for this chain'
+          );
+        }
+
+        log(`Deploying from ${ctx.address} to chain ${ctx.profile.chainId}`);
+        log(`- Artifacts: ${artifactsDir}`);
+        log(`- USDY: ${usdy === 'deploy' ? 'deployed along, administered by the signer' : usdy}`);
+        for (const { role, account } of grants) log(`- Grant ${role} to ${account}`);
+        log(`- Addresses saved to profile "${profile}"`);
+        await confirmWrites('Deploy and wire the contracts?', options);
+
+        const report = await deployContracts(ctx, {
+          profile,
+          artifactsDir,
+          usdy,
+          grants,
+          fresh: options.fresh,
+        });
+
+        // A new profile needs the connection it was deployed over
+        const { addresses } = report;
+        const configPath = saveProfile(
+          profile,
+          {
+            ...(existing.rpcUrl ? {} : { rpcUrl: ctx.profile.rpcUrl }),
+            ...(existing.chainId ? {} : { chainId: ctx.profile.chainId }),
+            ...addresses,
+          },
+          config
+        );
+
+        log('');
+        logTable(
+          ['Contract', 'Address'],
+          [
+            ['SuccessPool', addresses.poolAddress],
+            ['ExitContribution', addresses.exitContributionAddress],
+            ['DividendDistributor', addresses.distributorAddress],
+            ['USDY', addresses.usdyAddress],
+          ]
+        );
+        log(`\nSaved to profile "${profile}" in ${configPath}`);
+        log(`Check the deployment with: founder-hedge doctor --network ${profile}`);
+
+        return { profile, configPath, ...report };
+      })
+    );
+}
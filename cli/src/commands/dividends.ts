@@ -0,0 +1,200 @@
+import { Command } from 'commander';
+import { formatUnits, getAbiItem } from 'viem';
+import { parseTokenAmount } from '../args.js';
+import { CommandContext, createContext } from '../context.js';
+import { CliError } from '../errors.js';
+import { log, runCommand, timestamp, tokenAmount } from '../output.js';
+import { dividendDistributorAbi } from '../sdk/index.js';
+import { DryRunOptions, executeWrite } from '../transactions.js';
+
+/**
+ * Read the signer's pending and received dividends from the profile's distributor
+ */
+export async function showDividends({ address, clients }: CommandContext) {
+  log('Checking dividends for address:', address);
+  log('Using distributor address:', clients.distributor.address);
+
+  const decimals = await clients.usdy.decimals();
+  const pending = await clients.distributor.getPendingDividends();
+  const received = await clients.distributor.getTotalDividendsReceived();
+
+  log('\nDividends:');
+  log('- Pending:', formatUnits(pending, decimals), 'USDY');
+  log('- Received:', formatUnits(received, decimals), 'USDY');
+
+  return {
+    address,
+    pending: tokenAmount(pending, decimals),
+    received: tokenAmount(received, decimals),
+  };
+}
+
+export function registerDividendCommands(program: Command) {
+  const dividends = program.command('dividends').description('View and claim pool dividends');
+
+  dividends
+    .command('show')
+    .description('Show your pending and received dividends')
+    .action(
+      runCommand(async () =>
+        showDividends(await createContext(['distributorAddress', 'usdyAddress']))
+      )
+    );
+
+  dividends
+    .command('history')
+    .description('Show your commitment and dividend claim history')
+    .action(
+      runCommand(async () => {
+        const { address, clients, publicClient } = await createContext([
+          'distributorAddress',
+          'usdyAddress',
+        ]);
+
+        log('Checking dividend history for address:', address);
+
+        const decimals = await clients.usdy.decimals();
+        const commitment = await clients.distributor.getCommitmentPercentage();
+        const lastUpdate = await clients.distributor.getLastCommitmentUpdate();
+        const lockPeriod = await clients.distributor.commitmentLockPeriod();
+        const received = await clients.distributor.getTotalDividendsReceived();
+        const registered = Number(lastUpdate) !== 0;
+        const unlockTime = Number(lastUpdate) + Number(lockPeriod);
+
+        log('\nCommitment:');
+        if (!registered) {
+          log('- No commitment registered with the distributor');
+        } else {
+          log('- Registered commitment:', Number(commitment), '%');
+          log('- Last updated:', new Date(Number(lastUpdate) * 1000).toLocaleString());
+          log('- Locked until:', new Date(unlockTime * 1000).toLocaleString());
+        }
+
+        log('\nClaims:');
+        log('- Total received:', formatUnits(received, decimals), 'USDY');
+
+        // Claim amounts are shielded, only the claim timestamps are public
+        const logs = await publicClient.getLogs({
+          address: clients.distributor.address,
+          event: getAbiItem({ abi: dividendDistributorAbi, name: 'DividendsClaimed' }),
+          args: { member: address },
+          fromBlock: 0n,
+        });
+
+        if (logs.length === 0) {
+          log('- No claims recorded');
+        }
+        for (const entry of logs) {
+          log(
+            `- Claimed at ${new Date(Number(entry.args.timestamp) * 1000).toLocaleString()}`,
+            `(tx ${entry.transactionHash})`
+          );
+        }
+
+        return {
+          address,
+          commitment: registered
+            ? {
+                percentage: Number(commitment),
+                updatedAt: timestamp(lastUpdate),
+                lockedUntil: timestamp(unlockTime),
+              }
+            : null,
+          received: tokenAmount(received, decimals),
+          claims: logs.map(entry => ({
+            claimedAt: timestamp(entry.args.timestamp ?? 0n),
+            transactionHash: entry.transactionHash,
+            blockNumber: entry.blockNumber,
+          })),
+        };
+      })
+    );
+
+  dividends
+    .command('claim')
+    .description('Claim pending dividends')
+    .argument('[amount]', 'Amount in USDY to claim (defaults to all pending dividends)')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (amount: string | undefined, options: DryRunOptions) => {
+        const ctx = await createContext(['distributorAddress', 'usdyAddress']);
+        const { address, clients } = ctx;
+        const decimals = await clients.usdy.decimals();
+
+        if (await clients.distributor.paused()) {
+          throw new CliError('CONTRACT_PAUSED', 'Dividend distributor is paused', {
+            contract: clients.distributor.address,
+          });
+        }
+
+        const pending = await clients.distributor.getPendingDividends();
+        const maxClaim = await clients.distributor.maxClaimAmount();
+        const claimAmount = amount ? parseTokenAmount(amount, decimals) : pending;
+
+        if (claimAmount <= 0n) {
+          throw new CliError('NO_DIVIDENDS', 'No dividends to claim');
+        }
+
+        if (claimAmount > maxClaim) {
+          log('Requested:', formatUnits(claimAmount, decimals), 'USDY');
+          log('Maximum:', formatUnits(maxClaim, decimals), 'USDY');
+          throw new CliError(
+            'CLAIM_AMOUNT_TOO_LARGE',
+            'Claim amount exceeds the maximum claim amount',
+            {
+              requested: tokenAmount(claimAmount, decimals),
+              maximum: tokenAmount(maxClaim, decimals),
+            }
+          );
+        }
+
+        if (claimAmount > pending) {
+          log('Requested:', formatUnits(claimAmount, decimals), 'USDY');
+          log('Pending:', formatUnits(pending, decimals), 'USDY');
+          throw new CliError('INSUFFICIENT_DIVIDENDS', 'Insufficient pending dividends', {
+            requested: tokenAmount(claimAmount, decimals),
+            pending: tokenAmount(pending, decimals),
+          });
+        }
+
+        // claimDividends is restricted to the pool contract, so a member cannot
+        // call it directly until the pool exposes a claim entry point
+        const poolContract = await clients.distributor.poolContract();
+        if (poolContract.toLowerCase() !== address.toLowerCase()) {
+          log('- Pool contract:', poolContract);
+          log('- Claimable now:', formatUnits(claimAmount, decimals), 'USDY');
+          throw new CliError(
+            'CLAIM_RESTRICTED_TO_POOL',
+            'Dividend claims can only be submitted by the pool contract',
+            { poolContract, claimable: tokenAmount(claimAmount, decimals) }
+          );
+        }
+
+        const { simulation, transaction } = await executeWrite(
+          ctx,
+          {
+            contract: clients.distributor,
+            functionName: 'claimDividends',
+            args: [address, claimAmount],
+            send: gasOptions => {
+              log('Claiming', formatUnits(claimAmount, decimals), 'USDY for', address);
+              return clients.distributor.claimDividends(address, claimAmount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+
+        if (transaction) {
+          log('\nDividends claimed successfully!');
+        }
+
+        return {
+          address,
+          amount: tokenAmount(claimAmount, decimals),
+          dryRun: Boolean(options.dryRun),
+          simulation,
+          transaction,
+        };
+      })
+    );
+}
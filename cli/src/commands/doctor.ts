@@ -0,0 +1,227 @@
+import { Command } from 'commander';
+import { Address, formatUnits, isAddressEqual, zeroAddress } from 'viem';
+import { CommandContext, createContext } from '../context.js';
+import { CliError, toErrorResult } from '../errors.js';
+import { log, logTable, runCommand } from '../output.js';
+import {
+  AdminControlledClient,
+  DividendDistributorClient,
+  USDY_ROLES,
+  UsdyClient,
+  UsdyRole,
+} from '../sdk/index.js';
+
+type CheckStatus = 'pass' | 'warn' | 'fail';
+
+interface DoctorCheck {
+  group: 'bytecode' | 'wiring' | 'paused' | 'admin' | 'usdy';
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+type CheckOutcome = Pick<DoctorCheck, 'status' | 'detail'>;
+
+const pass = (detail: string): CheckOutcome => ({ status: 'pass', detail });
+const warn = (detail: string): CheckOutcome => ({ status: 'warn', detail });
+const fail = (detail: string): CheckOutcome => ({ status: 'fail', detail });
+
+/**
+ * Collects the checks in order. A check whose reads throw is reported as
+ * failed instead of aborting the run.
+ */
+class CheckList {
+  readonly checks: DoctorCheck[] = [];
+
+  async run(group: DoctorCheck['group'], name: string, check: () => Promise<CheckOutcome>) {
+    let outcome: CheckOutcome;
+    try {
+      outcome = await check();
+    } catch (error) {
+      outcome = fail(toErrorResult(error).message);
+    }
+    this.checks.push({ group, name, ...outcome });
+    return outcome.status === 'pass';
+  }
+
+  add(group: DoctorCheck['group'], name: string, outcome: CheckOutcome) {
+    this.checks.push({ group, name, ...outcome });
+  }
+}
+
+async function hasCode(ctx: CommandContext, address: Address): Promise<boolean> {
+  const code = await ctx.publicClient.getBytecode({ address });
+  return Boolean(code && code !== '0x');
+}
+
+// A one-shot or immutable reference that must point back at the pool
+function pointsAt(actual: Address, expected: Address, unsetHint: string): CheckOutcome {
+  if (isAddressEqual(actual, zeroAddress)) {
+    return fail(`not set, ${unsetHint}`);
+  }
+  return isAddressEqual(actual, expected) ? pass(actual) : fail(`${actual}, expected ${expected}`);
+}
+
+function printTable(checks: DoctorCheck[]) {
+  logTable(
+    ['STATUS', 'GROUP', 'CHECK', 'DETAIL'],
+    checks.map(check => [check.status.toUpperCase(), check.group, check.name, check.detail])
+  );
+}
+
+async function diagnose(ctx: CommandContext): Promise<DoctorCheck[]> {
+  const { profile, clients, walletClient: client } = ctx;
+  const { pool, exitContribution } = clients;
+  const list = new CheckList();
+
+  // The pool bytecode is verified when the context is created
+  list.add('bytecode', 'SuccessPool', pass(pool.address));
+
+  const [distributorAddress, usdyAddress] = await Promise.all([
+    pool.dividendDistributor(),
+    pool.usdy(),
+  ]);
+  const distributorSet = !isAddressEqual(distributorAddress, zeroAddress);
+  const distributor = new DividendDistributorClient({ address: distributorAddress, client });
+  const usdy = new UsdyClient({ address: usdyAddress, client });
+
+  const codeCheck = async (address: Address) =>
+    (await hasCode(ctx, address)) ? pass(address) : fail(`no contract at ${address}`);
+  const exitContributionLive = await list.run('bytecode', 'ExitContribution', () =>
+    codeCheck(exitContribution.address)
+  );
+  const distributorLive =
+    distributorSet &&
+    (await list.run('bytecode', 'DividendDistributor', () => codeCheck(distributorAddress)));
+  const usdyLive = await list.run('bytecode', 'USDY', () => codeCheck(usdyAddress));
+
+  if (exitContributionLive) {
+    await list.run('wiring', 'ExitContribution.poolContract is the pool', async () =>
+      pointsAt(await exitContribution.poolContract(), pool.address, 'run `admin set-pool-contract`')
+    );
+  }
+
+  list.add(
+    'wiring',
+    'SuccessPool.dividendDistributor is set',
+    distributorSet
+      ? pass(distributorAddress)
+      : fail('not set, run `admin set-dividend-distributor <address>`')
+  );
+
+  if (distributorLive) {
+    // Immutable, a mismatch means the distributor was deployed for another pool
+    await list.run('wiring', 'DividendDistributor.poolContract is the pool', async () =>
+      pointsAt(await distributor.poolContract(), pool.address, 'redeploy the distributor')
+    );
+  }
+
+  if (profile.exitContributionAddress) {
+    list.add(
+      'wiring',
+      'Profile exitContributionAddress matches the pool',
+      isAddressEqual(profile.exitContributionAddress, exitContribution.address)
+        ? pass(profile.exitContributionAddress)
+        : fail(`${profile.exitContributionAddress}, the pool uses ${exitContribution.address}`)
+    );
+  }
+
+  if (profile.distributorAddress) {
+    list.add(
+      'wiring',
+      'Profile distributorAddress matches the pool',
+      isAddressEqual(profile.distributorAddress, distributorAddress)
+        ? pass(profile.distributorAddress)
+        : fail(`${profile.distributorAddress}, the pool uses ${distributorAddress}`)
+    );
+  }
+
+  if (profile.usdyAddress) {
+    list.add(
+      'wiring',
+      'Profile usdyAddress matches SuccessPool.USDY',
+      isAddressEqual(profile.usdyAddress, usdyAddress)
+        ? pass(profile.usdyAddress)
+        : fail(`${profile.usdyAddress}, the pool uses ${usdyAddress}`)
+    );
+  }
+
+  const adminControlled: [string, AdminControlledClient][] = [['SuccessPool', pool]];
+  if (exitContributionLive) adminControlled.push(['ExitContribution', exitContribution]);
+  if (distributorLive) adminControlled.push(['DividendDistributor', distributor]);
+
+  for (const [name, contract] of adminControlled) {
+    await list.run('paused', name, async () =>
+      (await contract.paused()) ? warn('paused') : pass('not paused')
+    );
+  }
+  if (usdyLive) {
+    await list.run('paused', 'USDY', async () =>
+      (await usdy.paused()) ? warn('paused, transfers revert') : pass('not paused')
+    );
+  }
+
+  for (const [name, contract] of adminControlled) {
+    await list.run('admin', name, async () => {
+      const admin = await contract.admin();
+      if (isAddressEqual(admin, zeroAddress)) {
+        return fail('no admin, emergency controls are unusable');
+      }
+      return pass(isAddressEqual(admin, ctx.address) ? `${admin} (signer)` : admin);
+    });
+  }
+
+  if (usdyLive) {
+    // contributeExit pulls USDY from the member with transferFrom
+    await list.run('usdy', 'Signer allowance to the pool', async () => {
+      const [allowance, decimals] = await Promise.all([
+        usdy.allowance(ctx.address, pool.address),
+        usdy.decimals(),
+      ]);
+      return allowance > 0n
+        ? pass(`${formatUnits(allowance, decimals)} USDY`)
+        : warn('none, contribute approves before sending');
+    });
+
+    await list.run('usdy', 'USDY roles of the pool', async () => {
+      const roles = Object.keys(USDY_ROLES) as UsdyRole[];
+      const held = await Promise.all(
+        roles.map(role => usdy.hasRole(USDY_ROLES[role], pool.address))
+      );
+      const names = roles.filter((_, index) => held[index]);
+      // The pool only moves member funds with transferFrom, which needs no role
+      return pass(names.length > 0 ? names.join(', ') : 'none (none required)');
+    });
+  }
+
+  return list.checks;
+}
+
+export function registerDoctorCommand(program: Command) {
+  program
+    .command('doctor')
+    .description('Check the deployment wiring, bytecode, pause flags and admins')
+    .action(
+      runCommand(async () => {
+        const ctx = await createContext();
+
+        log(`Checking network "${ctx.profile.name}" (chain ${ctx.profile.chainId})\n`);
+        const checks = await diagnose(ctx);
+        printTable(checks);
+
+        const failed = checks.filter(check => check.status === 'fail');
+        const warnings = checks.filter(check => check.status === 'warn');
+        log(`\n${checks.length} checks: ${failed.length} failed, ${warnings.length} warnings`);
+
+        if (failed.length > 0) {
+          throw new CliError(
+            'DEPLOYMENT_MISCONFIGURED',
+            `${failed.length} deployment check(s) failed: ${failed.map(c => c.name).join('; ')}`,
+            { checks }
+          );
+        }
+
+        return { network: ctx.profile.name, ok: true, checks };
+      })
+    );
+}
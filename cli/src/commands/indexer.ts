@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import { CliError } from '../errors.js';
+import { createPublicContext } from '../context.js';
+import { DEFAULT_BATCH_SIZE, syncEvents } from '../indexer.js';
+import { log, runCommand } from '../output.js';
+
+interface IndexOptions {
+  fromBlock?: string;
+  batchSize?: string;
+  reset?: boolean;
+}
+
+function parseBlockCount(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new CliError('INVALID_ARGUMENT', `${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+export function registerIndexCommand(program: Command) {
+  program
+    .command('index')
+    .description('Sync the public pool events into the local event store')
+    .option('--from-block <number>', 'First block to index when the store is empty', '0')
+    .option('--batch-size <blocks>', 'Blocks per log request', DEFAULT_BATCH_SIZE.toString())
+    .option('--reset', 'Discard the store and index again from --from-block')
+    .action(
+      runCommand(async (options: IndexOptions) => {
+        const fromBlock = parseBlockCount(options.fromBlock ?? '0', 'From block');
+        const batchSize = parseBlockCount(options.batchSize ?? '', 'Batch size');
+        if (batchSize === 0n) {
+          throw new CliError('INVALID_ARGUMENT', 'Batch size must be at least 1');
+        }
+
+        const ctx = await createPublicContext();
+        const result = await syncEvents(ctx, {
+          fromBlock,
+          batchSize,
+          reset: options.reset,
+          onBatch: ({ toBlock, latest, added }) =>
+            log(`Indexed up to block ${toBlock} of ${latest} (${added} new events)`),
+        });
+
+        if (result.reorgRewoundTo !== null) {
+          log(
+            `Reorg detected, rewound to block ${result.reorgRewoundTo} and dropped ${result.removed} events`
+          );
+        }
+        if (result.fromBlock > result.toBlock) {
+          log('Already up to date');
+        }
+        log(`\n${result.totalEvents} events stored in ${result.path}`);
+
+        return result;
+      })
+    );
+}
@@ -0,0 +1,340 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { Command, Option } from 'commander';
+import { Address, Hash, formatEther, formatUnits, getAbiItem, isAddressEqual } from 'viem';
+import { CommandContext, createContext, getWiredDistributor } from '../context.js';
+import { CliError } from '../errors.js';
+import { JournalEntry, readJournal } from '../journal.js';
+import {
+  Timestamp,
+  TokenAmount,
+  log,
+  runCommand,
+  serialize,
+  timestamp,
+  tokenAmount,
+} from '../output.js';
+import { dividendDistributorAbi, successPoolAbi } from '../sdk/index.js';
+
+const FORMATS = ['csv', 'json'] as const;
+
+type LedgerFormat = (typeof FORMATS)[number];
+
+type LedgerEntryType = 'join' | 'contribution' | 'approval' | 'claim' | 'leave';
+
+interface ExportOptions {
+  format: LedgerFormat;
+  output?: string;
+  fromBlock: string;
+}
+
+/**
+ * One transaction of the signer. Amounts are known when the CLI recorded the
+ * transaction in its journal, they cannot be read back from shielded calldata.
+ */
+interface LedgerEntry {
+  type: LedgerEntryType;
+  timestamp: Timestamp;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  amount: TokenAmount | null;
+  commitment: number | null;
+  gasUsed: bigint;
+  gasPaid: { wei: bigint; eth: string };
+  totalContributed: TokenAmount;
+  totalClaimed: TokenAmount;
+  source: 'events' | 'journal' | 'events+journal';
+}
+
+interface ReconciledTotal {
+  ledger: TokenAmount;
+  onChain: TokenAmount | null;
+  unknownAmounts: number;
+  status: 'match' | 'mismatch' | 'incomplete';
+}
+
+interface Reconciliation {
+  contributions: ReconciledTotal & { processed: TokenAmount };
+  claims: ReconciledTotal;
+}
+
+// Pool events that name the member, with the ledger entry they record
+const POOL_EVENTS = [
+  ['MemberJoined', 'join'],
+  ['ContributionReceived', 'contribution'],
+  ['MemberLeft', 'leave'],
+] as const;
+
+const JOURNAL_TYPES: Record<string, LedgerEntryType> = {
+  joinPool: 'join',
+  contributeExit: 'contribution',
+  leavePool: 'leave',
+  claimDividends: 'claim',
+  approve: 'approval',
+  increaseAllowance: 'approval',
+  decreaseAllowance: 'approval',
+};
+
+interface PendingEntry {
+  type: LedgerEntryType;
+  hash: Hash;
+  fromEvents: boolean;
+  journal?: JournalEntry;
+}
+
+async function collectEvents(ctx: CommandContext, distributor: Address, fromBlock: bigint) {
+  const { publicClient, address, clients } = ctx;
+  const entries: PendingEntry[] = [];
+
+  for (const [name, type] of POOL_EVENTS) {
+    const logs = await publicClient.getLogs({
+      address: clients.pool.address,
+      event: getAbiItem({ abi: successPoolAbi, name }),
+      args: { member: address },
+      fromBlock,
+    });
+    entries.push(
+      ...logs.map(entry => ({ type, hash: entry.transactionHash as Hash, fromEvents: true }))
+    );
+  }
+
+  const claims = await publicClient.getLogs({
+    address: distributor,
+    event: getAbiItem({ abi: dividendDistributorAbi, name: 'DividendsClaimed' }),
+    args: { member: address },
+    fromBlock,
+  });
+  entries.push(
+    ...claims.map(entry => ({
+      type: 'claim' as const,
+      hash: entry.transactionHash as Hash,
+      fromEvents: true,
+    }))
+  );
+
+  return entries;
+}
+
+// Amount moved by a journaled call, null for calls without one
+function journalAmount(entry: JournalEntry): bigint | null {
+  switch (entry.functionName) {
+    case 'contributeExit':
+      return BigInt(entry.args[0]);
+    case 'approve':
+    case 'increaseAllowance':
+    case 'decreaseAllowance':
+    case 'claimDividends':
+      return BigInt(entry.args[1]);
+    default:
+      return null;
+  }
+}
+
+function reconcile(
+  ledger: bigint,
+  onChain: bigint | null,
+  unknownAmounts: number,
+  decimals: number
+): ReconciledTotal {
+  let status: ReconciledTotal['status'] = 'incomplete';
+  if (unknownAmounts === 0 && onChain !== null) {
+    status = ledger === onChain ? 'match' : 'mismatch';
+  }
+  return {
+    ledger: tokenAmount(ledger, decimals),
+    onChain: onChain === null ? null : tokenAmount(onChain, decimals),
+    unknownAmounts,
+    status,
+  };
+}
+
+function toCsv(entries: LedgerEntry[]): string {
+  const header = [
+    'type',
+    'timestamp',
+    'block_number',
+    'transaction_hash',
+    'amount',
+    'commitment_percent',
+    'gas_used',
+    'gas_paid_eth',
+    'total_contributed',
+    'total_claimed',
+    'source',
+  ];
+  const rows = entries.map(entry => [
+    entry.type,
+    entry.timestamp.iso,
+    entry.blockNumber.toString(),
+    entry.transactionHash,
+    entry.amount?.formatted ?? '',
+    entry.commitment?.toString() ?? '',
+    entry.gasUsed.toString(),
+    entry.gasPaid.eth,
+    entry.totalContributed.formatted,
+    entry.totalClaimed.formatted,
+    entry.source,
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+}
+
+export function registerLedgerCommands(program: Command) {
+  const ledger = program.command('ledger').description('Records of your own pool activity');
+
+  ledger
+    .command('export')
+    .description('Export your joins, contributions, approvals, claims and leave')
+    .addOption(
+      new Option('-f, --format <format>', 'Export format').choices([...FORMATS]).default('csv')
+    )
+    .option('-o, --output <path>', 'File to write (defaults to ledger-<chain>-<address>.<format>)')
+    .option('--from-block <number>', 'First block to search for your events', '0')
+    .action(
+      runCommand(async (options: ExportOptions) => {
+        if (!/^\d+$/.test(options.fromBlock)) {
+          throw new CliError('INVALID_ARGUMENT', 'From block must be a non-negative integer');
+        }
+
+        const ctx = await createContext(['usdyAddress']);
+        const { address, clients, profile, publicClient } = ctx;
+        const distributor = await getWiredDistributor(ctx);
+        const decimals = await clients.usdy.decimals();
+
+        log('Building ledger for', address);
+        const pending = await collectEvents(ctx, distributor.address, BigInt(options.fromBlock));
+
+        // Calls the CLI sent to the pool, the distributor or USDY (approvals)
+        const relevant = [clients.pool.address, distributor.address, clients.usdy.address];
+        const journal = readJournal(profile.chainId, address).transactions.filter(
+          entry =>
+            entry.functionName in JOURNAL_TYPES &&
+            relevant.some(contract => isAddressEqual(contract, entry.to))
+        );
+        for (const entry of journal) {
+          const match = pending.find(candidate => candidate.hash === entry.hash);
+          if (match) {
+            match.journal = entry;
+          } else {
+            pending.push({
+              type: JOURNAL_TYPES[entry.functionName],
+              hash: entry.hash,
+              fromEvents: false,
+              journal: entry,
+            });
+          }
+        }
+
+        const resolved = [];
+        for (const entry of pending) {
+          let receipt;
+          try {
+            receipt = await publicClient.getTransactionReceipt({ hash: entry.hash });
+          } catch {
+            // Journaled transactions that were never mined
+            continue;
+          }
+          if (receipt.status !== 'success') continue;
+          resolved.push({ ...entry, receipt });
+        }
+        resolved.sort(
+          (a, b) =>
+            Number(a.receipt.blockNumber - b.receipt.blockNumber) ||
+            a.receipt.transactionIndex - b.receipt.transactionIndex
+        );
+
+        const blockTimes = new Map<bigint, bigint>();
+        for (const { receipt } of resolved) {
+          if (!blockTimes.has(receipt.blockNumber)) {
+            const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+            blockTimes.set(receipt.blockNumber, block.timestamp);
+          }
+        }
+
+        // The most recent contribution amount is readable even without a journal entry
+        const lastContribution = await clients.exitContribution.getLastContribution();
+        const lastContributionHash = resolved
+          .filter(entry => entry.type === 'contribution')
+          .pop()?.hash;
+
+        let contributed = 0n;
+        let claimed = 0n;
+        let unknownContributions = 0;
+        let unknownClaims = 0;
+        const entries: LedgerEntry[] = resolved.map(
+          ({ type, hash, fromEvents, journal, receipt }) => {
+            let amount = journal ? journalAmount(journal) : null;
+            if (amount === null && type === 'contribution' && hash === lastContributionHash) {
+              amount = lastContribution;
+            }
+
+            if (type === 'contribution') {
+              if (amount === null) unknownContributions++;
+              contributed += amount ?? 0n;
+            } else if (type === 'claim') {
+              if (amount === null) unknownClaims++;
+              claimed += amount ?? 0n;
+            }
+
+            const gasPaid = receipt.gasUsed * receipt.effectiveGasPrice;
+            return {
+              type,
+              timestamp: timestamp(blockTimes.get(receipt.blockNumber)!),
+              blockNumber: receipt.blockNumber,
+              transactionHash: hash,
+              amount: amount === null ? null : tokenAmount(amount, decimals),
+              commitment: type === 'join' && journal ? Number(journal.args[0]) : null,
+              gasUsed: receipt.gasUsed,
+              gasPaid: { wei: gasPaid, eth: formatEther(gasPaid) },
+              totalContributed: tokenAmount(contributed, decimals),
+              totalClaimed: tokenAmount(claimed, decimals),
+              source: fromEvents ? (journal ? 'events+journal' : 'events') : 'journal',
+            };
+          }
+        );
+
+        // getTotalContributed reverts once the signer is no longer a member
+        const isMember = await clients.pool.isMember();
+        const [totalContributed, totalProcessed, totalReceived] = await Promise.all([
+          isMember ? clients.pool.getTotalContributed() : Promise.resolve(null),
+          clients.exitContribution.getTotalProcessedValue(),
+          distributor.getTotalDividendsReceived(),
+        ]);
+
+        const contributionCheck = reconcile(
+          contributed,
+          totalContributed ?? totalProcessed,
+          unknownContributions,
+          decimals
+        );
+        // Both contracts count every contribution, so they must agree with each other too
+        if (totalContributed !== null && totalContributed !== totalProcessed) {
+          contributionCheck.status = 'mismatch';
+        }
+        const reconciliation: Reconciliation = {
+          contributions: { ...contributionCheck, processed: tokenAmount(totalProcessed, decimals) },
+          claims: reconcile(claimed, totalReceived, unknownClaims, decimals),
+        };
+
+        const path = resolve(
+          options.output ?? `ledger-${profile.chainId}-${address.toLowerCase()}.${options.format}`
+        );
+        const exported = { address, chainId: profile.chainId, entries, reconciliation };
+        writeFileSync(path, options.format === 'csv' ? toCsv(entries) : serialize(exported) + '\n');
+
+        log(`\nWrote ${entries.length} entries to ${path}`);
+        log('\nReconciliation:');
+        for (const [name, check] of Object.entries(reconciliation)) {
+          const onChain = check.onChain ? formatUnits(check.onChain.raw, decimals) : 'unavailable';
+          const unknown = check.unknownAmounts ? `, ${check.unknownAmounts} without amount` : '';
+          log(
+            `- ${name}: ledger ${formatUnits(check.ledger.raw, decimals)} USDY, on-chain ${onChain} USDY (${check.status}${unknown})`
+          );
+        }
+        if (unknownContributions + unknownClaims > 0) {
+          log('Amounts are only known for transactions sent with this CLI on this machine');
+        }
+
+        return { path, format: options.format, ...exported };
+      })
+    );
+}
@@ -0,0 +1,447 @@
+import { Command, Option } from 'commander';
+import { formatUnits, maxUint256 } from 'viem';
+import { parseCommitment, parseTokenAmount } from '../args.js';
+import { CommandContext, createContext } from '../context.js';
+import { CliError } from '../errors.js';
+import { updateFlow } from '../journal.js';
+import { log, runCommand, timestamp, tokenAmount } from '../output.js';
+import {
+  assertReady,
+  evaluatePreflight,
+  exitValueOf,
+  loadPreflightState,
+  logBlockers,
+  owedContribution,
+  preflight,
+  runPreflight,
+} from '../preflight.js';
+import { promptConfirm } from '../prompt.js';
+import {
+  ConfirmOptions,
+  DryRunOptions,
+  WriteCall,
+  WriteResult,
+  executeFlow,
+  executeWrite,
+  poolWriteEvents,
+} from '../transactions.js';
+
+export const ALLOWANCE_POLICIES = ['exact', 'keep', 'unlimited'] as const;
+
+export type AllowancePolicy = (typeof ALLOWANCE_POLICIES)[number];
+
+interface ContributeOptions extends ConfirmOptions {
+  allowancePolicy: AllowancePolicy;
+  exitValue?: string;
+}
+
+/**
+ * A contribution of either an amount or the exit value it is owed on, as decimal USDY
+ */
+export interface ContributeRequest extends ContributeOptions {
+  amount?: string;
+  // Ask on the terminal before resetting the allowance, when --yes was not given
+  interactive?: boolean;
+}
+
+/**
+ * The approval a contribution needs under a policy, null when the existing
+ * allowance already covers it. exact and keep only add the shortfall, unlimited
+ * approves the maximum, which USDY never decreases.
+ */
+function allowanceCall(
+  ctx: CommandContext,
+  policy: AllowancePolicy,
+  amount: bigint,
+  allowance: bigint
+): WriteCall | null {
+  if (allowance >= amount) return null;
+
+  const { usdy, pool } = ctx.clients;
+  if (policy === 'unlimited') {
+    return {
+      contract: usdy,
+      functionName: 'approve',
+      args: [pool.address, maxUint256],
+      send: gasOptions => {
+        log('Approving pool contract to spend any amount of USDY...');
+        return usdy.approve(pool.address, maxUint256, gasOptions);
+      },
+    };
+  }
+
+  const shortfall = amount - allowance;
+  return {
+    contract: usdy,
+    functionName: 'increaseAllowance',
+    args: [pool.address, shortfall],
+    send: gasOptions => {
+      log('Increasing the allowance of the pool contract by the shortfall...');
+      return usdy.increaseAllowance(pool.address, shortfall, gasOptions);
+    },
+  };
+}
+
+/**
+ * After a failed contribution under the exact policy, offer to take back the
+ * allowance this run added, leaving what the pool was allowed before. Returns
+ * the reset, or null when nothing was reset.
+ */
+async function offerAllowanceReset(
+  ctx: CommandContext,
+  options: ContributeRequest,
+  decimals: number,
+  allowanceBefore: bigint,
+  flowId: string | undefined
+): Promise<WriteResult | null> {
+  if (options.allowancePolicy !== 'exact') return null;
+
+  const { usdy, pool } = ctx.clients;
+  const leftover = await usdy.allowance(ctx.address, pool.address).catch(() => 0n);
+  const added = leftover - allowanceBefore;
+  if (added <= 0n) return null;
+
+  const amount = formatUnits(added, decimals);
+  log(`\nThe contribution failed after its approval raised the allowance by ${amount} USDY`);
+  const interactive = options.interactive ?? process.stdin.isTTY;
+  const reset =
+    options.yes ||
+    (interactive &&
+      (await promptConfirm(
+        `Take back the ${amount} USDY approved, leaving the ${formatUnits(allowanceBefore, decimals)} USDY allowed before?`
+      )));
+  if (!reset) {
+    log(`Take it back later with: founder-hedge usdy decrease-allowance ${pool.address} ${amount}`);
+    return null;
+  }
+
+  const result = await executeWrite(ctx, {
+    contract: usdy,
+    functionName: 'decreaseAllowance',
+    args: [pool.address, added],
+    intent: 'reset allowance after a failed contribution',
+    send: gasOptions => {
+      log('Taking back the allowance added for the contribution...');
+      return usdy.decreaseAllowance(pool.address, added, gasOptions);
+    },
+  });
+
+  // Resuming the failed flow would skip the approval that was just undone
+  if (flowId) updateFlow(ctx.profile.chainId, ctx.address, flowId, 'failed');
+
+  return result;
+}
+
+/**
+ * Join the pool with a whole commitment percentage
+ */
+export async function joinPool(ctx: CommandContext, percentage: string, options: DryRunOptions) {
+  const commitment = parseCommitment(percentage);
+
+  log('Joining pool with commitment:', percentage, '%');
+  log('Using pool address:', ctx.profile.poolAddress);
+
+  const checks = await preflight(ctx, 'join', { commitment });
+  const { simulation, transaction, events } = await executeWrite(
+    ctx,
+    {
+      contract: ctx.clients.pool,
+      functionName: 'joinPool',
+      args: [commitment],
+      expectedEvents: await poolWriteEvents(ctx, 'joinPool'),
+      send: gasOptions => {
+        log('Sending encrypted join transaction...');
+        return ctx.clients.pool.joinPool(commitment, gasOptions);
+      },
+    },
+    options.dryRun
+  );
+
+  if (transaction) {
+    log('\nSuccessfully joined pool!');
+    log('Commitment percentage:', percentage, '%');
+  }
+
+  return {
+    address: ctx.address,
+    commitment: Number(percentage),
+    dryRun: Boolean(options.dryRun),
+    preflight: checks,
+    simulation,
+    transaction,
+    events,
+  };
+}
+
+/**
+ * Leave the pool once the minimum membership period has passed
+ */
+export async function leavePool(ctx: CommandContext, options: DryRunOptions) {
+  // Check membership, contributions and the minimum membership period
+  const checks = await preflight(ctx, 'leave');
+
+  // Try to leave
+  const { simulation, transaction, events } = await executeWrite(
+    ctx,
+    {
+      contract: ctx.clients.pool,
+      functionName: 'leavePool',
+      expectedEvents: await poolWriteEvents(ctx, 'leavePool'),
+      send: gasOptions => {
+        log('Sending leave transaction...');
+        return ctx.clients.pool.leavePool(gasOptions);
+      },
+    },
+    options.dryRun
+  );
+
+  if (transaction) {
+    log('\nSuccessfully left the pool!');
+  }
+
+  return {
+    address: ctx.address,
+    dryRun: Boolean(options.dryRun),
+    preflight: checks,
+    simulation,
+    transaction,
+    events,
+  };
+}
+
+/**
+ * Approve what the allowance lacks and contribute an exit, as one journaled flow
+ */
+export async function contribute(ctx: CommandContext, request: ContributeRequest) {
+  const { amount } = request;
+  if ((amount === undefined) === (request.exitValue === undefined)) {
+    throw new CliError('INVALID_ARGUMENT', 'Pass either an amount or --exit-value');
+  }
+  if (!ALLOWANCE_POLICIES.includes(request.allowancePolicy)) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `Allowance policy must be one of ${ALLOWANCE_POLICIES.join(', ')}`
+    );
+  }
+
+  const { clients } = ctx;
+
+  // Get USDY decimals
+  const decimals = await clients.usdy.decimals();
+  const exitValue =
+    request.exitValue === undefined
+      ? null
+      : parseTokenAmount(request.exitValue, decimals, 'Exit value');
+  const requested = amount === undefined ? null : parseTokenAmount(amount, decimals);
+
+  // Check membership, pause flags, contribution timing and the caps on the
+  // contribution before spending gas on the approval. Non-members have no
+  // commitment to convert an exit value with, the preflight reports them.
+  const state = await loadPreflightState(ctx);
+  const contributionAmount =
+    exitValue === null
+      ? requested
+      : state.commitment === null
+        ? null
+        : owedContribution(exitValue, state.commitment);
+  const checks = assertReady(
+    evaluatePreflight(ctx.address, state, 'contribute', {
+      contribution: contributionAmount ?? undefined,
+    })
+  );
+  // Both are set for members, which the preflight has confirmed
+  const amountBigInt = contributionAmount as bigint;
+  const commitment = state.commitment as bigint;
+
+  const breakdown = {
+    commitment: Number(commitment),
+    declaredExitValue: exitValue === null ? null : tokenAmount(exitValue, decimals),
+    exitValue: tokenAmount(exitValueOf(amountBigInt, commitment), decimals),
+    contribution: tokenAmount(amountBigInt, decimals),
+  };
+  if (exitValue !== null) {
+    log('Exit value:', formatUnits(exitValue, decimals), 'USDY');
+    log('Commitment:', `${commitment}%`);
+    log('Owed contribution:', formatUnits(amountBigInt, decimals), 'USDY');
+    if (amountBigInt * 100n !== exitValue * commitment) {
+      log('(rounded up to the smallest USDY unit)');
+    }
+  }
+
+  // Check USDY balance
+  const balance = await clients.usdy.balanceOf(ctx.address);
+  if (balance < amountBigInt) {
+    log('Required:', formatUnits(amountBigInt, decimals), 'USDY');
+    log('Balance:', formatUnits(balance, decimals), 'USDY');
+    throw new CliError('INSUFFICIENT_BALANCE', 'Insufficient USDY balance', {
+      required: tokenAmount(amountBigInt, decimals),
+      balance: tokenAmount(balance, decimals),
+    });
+  }
+
+  const allowance = await clients.usdy.allowance(ctx.address, clients.pool.address);
+  const approveCall = allowanceCall(ctx, request.allowancePolicy, amountBigInt, allowance);
+  log('Current allowance:', formatUnits(allowance, decimals), 'USDY');
+  if (!approveCall) {
+    log('The existing allowance covers the contribution, no approval needed');
+  }
+
+  const contributeCall: WriteCall = {
+    contract: clients.pool,
+    functionName: 'contributeExit',
+    args: [amountBigInt],
+    expectedEvents: await poolWriteEvents(ctx, 'contributeExit'),
+    send: gasOptions => {
+      log('Sending contribution (all values will be encrypted)...');
+      return clients.pool.contributeExit(amountBigInt, gasOptions);
+    },
+  };
+  const summary = {
+    address: ctx.address,
+    amount: tokenAmount(amountBigInt, decimals),
+    breakdown,
+    allowancePolicy: request.allowancePolicy,
+    allowanceBefore: tokenAmount(allowance, decimals),
+    preflight: checks,
+  };
+
+  if (request.dryRun) {
+    const approval = approveCall ? await executeWrite(ctx, approveCall, true) : null;
+
+    // A dry run cannot apply the approval, so the contribution is only
+    // simulated when the existing allowance already covers it
+    if (approveCall) {
+      log('Contribution not simulated: it needs the approval above to be sent first');
+    }
+    const contribution = approveCall ? null : await executeWrite(ctx, contributeCall, true);
+    return { ...summary, dryRun: true, approval, contribution };
+  }
+
+  // Journaled as one flow, so running the command again after an
+  // interruption waits for the approval already sent instead of repeating it
+  let results;
+  try {
+    results = await executeFlow(
+      ctx,
+      `contribute ${formatUnits(amountBigInt, decimals)} USDY`,
+      approveCall ? [approveCall, contributeCall] : [contributeCall]
+    );
+  } catch (error) {
+    // A timed out contribution may still be mined and needs the allowance
+    const failed =
+      error instanceof CliError && (error.code === 'TX_WOULD_REVERT' || error.code === 'TX_FAILED');
+    if (!failed) throw error;
+
+    // Nothing to take back when this run sent no approval
+    const allowanceReset = approveCall
+      ? await offerAllowanceReset(
+          ctx,
+          request,
+          decimals,
+          allowance,
+          error.details?.flowId as string | undefined
+        )
+      : null;
+    if (!allowanceReset) throw error;
+    throw new CliError(
+      error.code,
+      error.message,
+      { ...error.details, allowanceReset },
+      error.action
+    );
+  }
+  const contribution = results[results.length - 1];
+  const approval = approveCall ? results[0] : null;
+
+  log('\nContribution successful!');
+  log('All calculations and values are encrypted in the contract');
+
+  return { ...summary, dryRun: false, approval, contribution };
+}
+
+/**
+ * Report when the signer can contribute next and what blocks it until then
+ */
+export async function checkNextContribution(ctx: CommandContext) {
+  log('Checking contribution status for:', ctx.address);
+
+  const report = await runPreflight(ctx, 'contribute');
+  const lastProcessTime = await ctx.clients.exitContribution.getLastProcessTime();
+
+  if (lastProcessTime === 0n) {
+    log('You have not made any contributions yet');
+  } else {
+    log('Last contribution:', new Date(Number(lastProcessTime) * 1000).toLocaleString());
+  }
+
+  if (report.ok) {
+    log('You can contribute now!');
+  } else {
+    log('You cannot contribute yet:');
+    logBlockers(report);
+    if (report.readyAt) {
+      log(
+        'Next contribution possible after:',
+        new Date(report.readyAt.unix * 1000).toLocaleString()
+      );
+      const daysLeft = Math.ceil((report.readyAt.unix - report.checkedAt.unix) / (24 * 60 * 60));
+      log(`(approximately ${daysLeft} days from now)`);
+    }
+  }
+
+  return {
+    address: ctx.address,
+    hasContributed: lastProcessTime > 0n,
+    canContribute: report.ok,
+    lastContributionAt: lastProcessTime > 0n ? timestamp(lastProcessTime) : null,
+    nextContributionAt: report.readyAt,
+    blockers: report.blockers,
+  };
+}
+
+export function registerPoolCommands(program: Command) {
+  program
+    .command('join')
+    .description('Join the success pool')
+    .argument('<percentage>', 'Commitment percentage (1-10)')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (percentage: string, options: DryRunOptions) =>
+        joinPool(await createContext(), percentage, options)
+      )
+    );
+
+  program
+    .command('leave')
+    .description('Leave the success pool')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (options: DryRunOptions) => leavePool(await createContext(), options))
+    );
+
+  program
+    .command('contribute')
+    .description('Contribute an exit to the pool using USDY')
+    .argument('[amount]', 'Amount in USDY (e.g., 1.5 for 1.5 USDY)')
+    .option(
+      '--exit-value <amount>',
+      'Exit value in USDY, the contribution owed on it is computed from your commitment'
+    )
+    .addOption(
+      new Option('--allowance-policy <policy>', 'How the USDY allowance of the pool is handled')
+        .choices([...ALLOWANCE_POLICIES])
+        .default('exact')
+    )
+    .option('-y, --yes', 'Reset the allowance without asking when the contribution fails')
+    .option('--dry-run', 'Simulate the transactions and estimate their fees without sending them')
+    .action(
+      runCommand(async (amount: string | undefined, options: ContributeOptions) =>
+        contribute(await createContext(['usdyAddress']), { ...options, amount })
+      )
+    );
+
+  program
+    .command('next-contribution')
+    .description('Check when you can contribute next')
+    .action(runCommand(async () => checkNextContribution(await createContext())));
+}
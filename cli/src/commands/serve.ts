@@ -0,0 +1,58 @@
+import { Command } from 'commander';
+import { randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
+import { createContext } from '../context.js';
+import { CliError } from '../errors.js';
+import { isJsonMode, log, runCommand } from '../output.js';
+import { API_HOST, startApiServer } from '../server.js';
+
+interface ServeOptions {
+  port: string;
+}
+
+const DEFAULT_PORT = 8787;
+
+export function registerServeCommand(program: Command) {
+  program
+    .command('serve')
+    .description('Serve the pool commands as a JSON API on localhost, with bearer token auth')
+    .option('-p, --port <port>', 'Port to listen on, 0 picks a free one', String(DEFAULT_PORT))
+    .action(
+      runCommand(async (options: ServeOptions) => {
+        if (isJsonMode()) {
+          throw new CliError('INVALID_ARGUMENT', '--json cannot be combined with serve');
+        }
+        if (!/^\d+$/.test(options.port) || Number(options.port) > 65535) {
+          throw new CliError('INVALID_ARGUMENT', 'Port must be a number from 0 to 65535');
+        }
+
+        // Not an option, so the token does not show up in the process list
+        const configured = process.env.FOUNDER_HEDGE_API_TOKEN;
+        const token = configured || randomBytes(32).toString('hex');
+
+        const ctx = await createContext();
+        const server = await startApiServer(ctx, { port: Number(options.port), token }).catch(
+          (error: Error) => {
+            throw new CliError(
+              'INVALID_ARGUMENT',
+              `Cannot listen on port ${options.port}: ${error.message}`
+            );
+          }
+        );
+        const url = `http://${API_HOST}:${(server.address() as AddressInfo).port}`;
+
+        log(`Serving ${ctx.address} on ${ctx.profile.name}`);
+        log(`Listening on ${url}`);
+        log(`OpenAPI description: ${url}/openapi.json`);
+        log(
+          configured
+            ? 'Authenticate with the token in FOUNDER_HEDGE_API_TOKEN'
+            : `Authenticate with: Authorization: Bearer ${token}`
+        );
+        log('Press Ctrl+C to stop\n');
+
+        // Runs until interrupted
+        await new Promise(() => undefined);
+      })
+    );
+}
@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { formatUnits } from 'viem';
+import { log, logTable, runCommand, timestamp, tokenAmount } from '../output.js';
+import { MemberPosition, SIMULATION_RULES, loadScenario, simulateScenario } from '../simulator.js';
+
+const { usdyDecimals } = SIMULATION_RULES;
+
+function amount(value: bigint) {
+  return tokenAmount(value, usdyDecimals);
+}
+
+function position({ contributed, dividends, net }: MemberPosition) {
+  return { contributed: amount(contributed), dividends: amount(dividends), net: amount(net) };
+}
+
+function date(unix: number): string {
+  return new Date(unix * 1000).toISOString().slice(0, 10);
+}
+
+function usdy(value: bigint | null): string {
+  return value === null ? '-' : formatUnits(value, usdyDecimals);
+}
+
+export function registerSimulateCommand(program: Command) {
+  program
+    .command('simulate')
+    .description('Replay a scenario of members and exits offline with the rules of the contracts')
+    .argument('<scenario>', 'Path to a scenario JSON file')
+    .action(
+      runCommand(async (path: string) => {
+        const scenario = loadScenario(resolve(path));
+        const { members, timeline, pool } = simulateScenario(scenario);
+
+        if (scenario.name) log(`Scenario: ${scenario.name}\n`);
+        logTable(
+          ['DATE', 'MEMBER', 'ACTION', 'EXIT VALUE', 'CONTRIBUTION', 'DIVIDEND', 'NET', 'NOTE'],
+          timeline.map(entry => [
+            date(entry.at),
+            entry.member,
+            entry.action,
+            usdy(entry.exitValue),
+            usdy(entry.contribution),
+            usdy(entry.dividend),
+            usdy(entry.position.net),
+            entry.status === 'rejected'
+              ? `rejected: ${entry.reason}`
+              : entry.reason
+                ? `planned ${date(entry.plannedAt)}, deferred by ${entry.reason}`
+                : '',
+          ])
+        );
+
+        log('');
+        logTable(
+          ['MEMBER', 'COMMITMENT', 'EXITS', 'CONTRIBUTED', 'DIVIDENDS', 'NET'],
+          members.map(member => [
+            member.name,
+            `${member.commitment}%`,
+            member.rejectedExits > 0
+              ? `${member.exits} (${member.rejectedExits} rejected)`
+              : String(member.exits),
+            usdy(member.position.contributed),
+            usdy(member.position.dividends),
+            usdy(member.position.net),
+          ])
+        );
+        log(
+          `\nPool: ${usdy(pool.contributed)} USDY contributed, ${usdy(pool.undistributed)} USDY not credited to any member`
+        );
+        log(
+          'Dividends are credited to the contributing member only, weighted by their commitment against every commitment ever registered.'
+        );
+
+        return {
+          scenario: { path: resolve(path), name: scenario.name },
+          rules: SIMULATION_RULES,
+          members: members.map(member => ({
+            name: member.name,
+            commitment: Number(member.commitment),
+            joinedAt: member.joinedAt === null ? null : timestamp(member.joinedAt),
+            leftAt: member.leftAt === null ? null : timestamp(member.leftAt),
+            exits: member.exits,
+            rejectedExits: member.rejectedExits,
+            ...position(member.position),
+          })),
+          pool: {
+            contributed: amount(pool.contributed),
+            undistributed: amount(pool.undistributed),
+            totalCommitment: Number(pool.totalCommitment),
+          },
+          timeline: timeline.map(entry => ({
+            at: timestamp(entry.at),
+            plannedAt: timestamp(entry.plannedAt),
+            member: entry.member,
+            action: entry.action,
+            status: entry.status,
+            reason: entry.reason,
+            exitValue: entry.exitValue === null ? null : amount(entry.exitValue),
+            contribution: entry.contribution === null ? null : amount(entry.contribution),
+            dividend: entry.dividend === null ? null : amount(entry.dividend),
+            position: position(entry.position),
+          })),
+        };
+      })
+    );
+}
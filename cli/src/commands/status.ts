@@ -0,0 +1,214 @@
+import { Command } from 'commander';
+import { CommandContext, createContext, getWiredDistributor } from '../context.js';
+import { CliError } from '../errors.js';
+import {
+  Timestamp,
+  TokenAmount,
+  formatAmount,
+  formatTime,
+  isJsonMode,
+  log,
+  runCommand,
+  timestamp,
+  tokenAmount,
+} from '../output.js';
+import { BlockingCondition, evaluatePreflight, loadPreflightState } from '../preflight.js';
+import { UsdyClient, decodeRevert } from '../sdk/index.js';
+
+interface StatusOptions {
+  watch?: string | true;
+}
+
+const DEFAULT_WATCH_INTERVAL_SECONDS = 15;
+
+export interface StatusReport {
+  address: string;
+  checkedAt: Timestamp;
+  isMember: boolean;
+  commitment: number | null;
+  joinedAt: Timestamp | null;
+  canLeaveAt: Timestamp | null;
+  eligibleToLeave: boolean;
+  leaveBlockers: BlockingCondition[];
+  contributions: {
+    // Only readable by members
+    totalContributed: TokenAmount | null;
+    lastContributionAt: Timestamp | null;
+    canContribute: boolean;
+    nextContributionAt: Timestamp | null;
+    blockers: BlockingCondition[];
+  };
+  dividends: {
+    pending: TokenAmount;
+    received: TokenAmount;
+  };
+  usdy: {
+    address: string;
+    balance: TokenAmount;
+    // Allowance of the pool, spent by contributions
+    poolAllowance: TokenAmount;
+  };
+  paused: {
+    pool: boolean;
+    exitContribution: boolean;
+    distributor: boolean;
+    usdy: boolean;
+  };
+}
+
+// Reads that revert with "Not a member" for everyone else
+function memberOnly<T>(read: Promise<T>): Promise<T | null> {
+  return read.catch(error => {
+    if (decodeRevert(error)?.code === 'NOT_MEMBER') return null;
+    throw error;
+  });
+}
+
+/**
+ * Read the whole status of the signer in one concurrent pass. Requests made
+ * together are sent to the RPC as a single JSON-RPC batch.
+ */
+export async function loadStatus(ctx: CommandContext): Promise<StatusReport> {
+  const { pool } = ctx.clients;
+  const [distributor, usdyAddress] = await Promise.all([getWiredDistributor(ctx), pool.usdy()]);
+  const usdy = new UsdyClient({ address: usdyAddress, client: ctx.walletClient });
+
+  const [state, commitment, decimals, pending, received, balance, allowance, usdyPaused] =
+    await Promise.all([
+      loadPreflightState(ctx),
+      memberOnly(pool.getCommitmentPercentage()),
+      usdy.decimals(),
+      distributor.getPendingDividends(),
+      distributor.getTotalDividendsReceived(),
+      usdy.balanceOf(ctx.address),
+      usdy.allowance(ctx.address, pool.address),
+      usdy.paused(),
+    ]);
+
+  const contribute = evaluatePreflight(ctx.address, state, 'contribute');
+  const leave = evaluatePreflight(ctx.address, state, 'leave');
+  const amount = (raw: bigint) => tokenAmount(raw, decimals);
+
+  return {
+    address: ctx.address,
+    checkedAt: timestamp(state.now),
+    isMember: state.isMember,
+    commitment: state.isMember && commitment !== null ? Number(commitment) : null,
+    joinedAt: state.isMember ? timestamp(state.joinTime) : null,
+    canLeaveAt: state.isMember ? timestamp(state.joinTime + state.minMembershipPeriod) : null,
+    eligibleToLeave: leave.ok,
+    leaveBlockers: leave.blockers,
+    contributions: {
+      totalContributed: state.isMember ? amount(state.totalContributed) : null,
+      lastContributionAt: state.lastProcessTime > 0n ? timestamp(state.lastProcessTime) : null,
+      canContribute: contribute.ok,
+      nextContributionAt: contribute.readyAt,
+      blockers: contribute.blockers,
+    },
+    dividends: { pending: amount(pending), received: amount(received) },
+    usdy: { address: usdyAddress, balance: amount(balance), poolAllowance: amount(allowance) },
+    paused: {
+      pool: state.poolPaused,
+      exitContribution: state.exitContributionPaused,
+      distributor: state.distributorPaused,
+      usdy: usdyPaused,
+    },
+  };
+}
+
+function logBlockers(blockers: BlockingCondition[]) {
+  for (const blocker of blockers) {
+    log(`  - ${blocker.message}`);
+  }
+}
+
+function render(report: StatusReport) {
+  log('Status for', report.address, 'at', formatTime(report.checkedAt));
+
+  log('\nMembership:');
+  if (!report.isMember) {
+    log('- You are NOT a member of the pool');
+    log('- You can join using the join command');
+    log('- Example: founder-hedge join 5  (to commit 5%)');
+  } else {
+    log('- Commitment:', report.commitment, '%');
+    log('- Joined at:', formatTime(report.joinedAt));
+    log('- Can leave after:', formatTime(report.canLeaveAt));
+    log('- Eligible to leave:', report.eligibleToLeave ? 'Yes' : 'No');
+    logBlockers(report.leaveBlockers);
+  }
+
+  const { contributions, dividends, usdy, paused } = report;
+  log('\nContributions:');
+  log('- Total contributed:', formatAmount(contributions.totalContributed));
+  log('- Last contribution:', formatTime(contributions.lastContributionAt));
+  if (contributions.canContribute) {
+    log('- Can contribute now: Yes');
+  } else {
+    log('- Next contribution possible after:', formatTime(contributions.nextContributionAt));
+    logBlockers(contributions.blockers);
+  }
+
+  log('\nDividends:');
+  log('- Pending:', formatAmount(dividends.pending));
+  log('- Received:', formatAmount(dividends.received));
+
+  log('\nUSDY:');
+  log('- Balance:', formatAmount(usdy.balance));
+  log('- Allowance of the pool:', formatAmount(usdy.poolAllowance));
+
+  const pausedContracts = Object.entries(paused)
+    .filter(([, isPaused]) => isPaused)
+    .map(([name]) => name);
+  log('\nPaused:', pausedContracts.length > 0 ? pausedContracts.join(', ') : 'none');
+}
+
+function parseInterval(watch: string | true): number {
+  if (watch === true) return DEFAULT_WATCH_INTERVAL_SECONDS;
+  if (!/^\d+$/.test(watch) || Number(watch) === 0) {
+    throw new CliError('INVALID_ARGUMENT', 'Watch interval must be a positive number of seconds');
+  }
+  return Number(watch);
+}
+
+export function registerStatusCommand(program: Command) {
+  program
+    .command('status')
+    .description('Show your membership, contributions, dividends, USDY and pause flags')
+    .option(
+      '-w, --watch [seconds]',
+      `Refresh the view in place (every ${DEFAULT_WATCH_INTERVAL_SECONDS}s by default)`
+    )
+    .action(
+      runCommand(async (options: StatusOptions) => {
+        if (options.watch && isJsonMode()) {
+          throw new CliError('INVALID_ARGUMENT', '--watch cannot be combined with --json');
+        }
+        const interval = options.watch ? parseInterval(options.watch) : null;
+
+        const ctx = await createContext();
+        if (interval === null) {
+          const report = await loadStatus(ctx);
+          render(report);
+          return report;
+        }
+
+        // Runs until interrupted. A failed refresh keeps the last view and tries again.
+        let report: StatusReport | null = null;
+        for (;;) {
+          let failure: string | null = null;
+          try {
+            report = await loadStatus(ctx);
+          } catch (error: any) {
+            failure = error.message;
+          }
+
+          process.stdout.write('\x1b[H\x1b[2J');
+          if (report) render(report);
+          if (failure) log(`\nRefresh failed: ${failure}`);
+          log(`\nRefreshing every ${interval}s, press Ctrl+C to stop`);
+          await new Promise(resolve => setTimeout(resolve, interval * 1000));
+        }
+      })
+    );
+}
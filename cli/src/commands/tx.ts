@@ -0,0 +1,547 @@
+import { Command } from 'commander';
+import { Address, Hash, formatEther, formatGwei, formatUnits, isAddressEqual, isHash } from 'viem';
+import { parseAddress, parseCommitment, parseTokenAmount } from '../args.js';
+import {
+  CommandContext,
+  PublicContext,
+  createContext,
+  createPublicContext,
+  getGlobalOptions,
+  getWiredDistributor,
+} from '../context.js';
+import { CliError } from '../errors.js';
+import {
+  JournalEntry,
+  JournalFlow,
+  readJournal,
+  recordTransaction,
+  updateFlow,
+  updateTransaction,
+} from '../journal.js';
+import { getSignerAddress, loadSigner } from '../keystore.js';
+import {
+  OfflineCall,
+  SignedFile,
+  UnsignedFile,
+  broadcastTransactions,
+  buildTransactions,
+  readOfflineFile,
+  signTransactions,
+  writeOfflineFile,
+} from '../offline.js';
+import { TransactionResult, log, logTable, runCommand, timestamp } from '../output.js';
+import { PreflightReport, preflightAccount } from '../preflight.js';
+import { ShieldedContractClient, UsdyClient, usdyAbi } from '../sdk/index.js';
+import {
+  ConfirmOptions,
+  WriteCall,
+  WriteResult,
+  confirmTransaction,
+  confirmWrites,
+  executeFlow,
+  poolWriteEvents,
+  settleTransaction,
+} from '../transactions.js';
+
+// Gas price increase of a replacement, nodes reject replacements below 10%
+const DEFAULT_BUMP_PERCENT = 20;
+
+const MIN_BUMP_PERCENT = 10;
+
+// Gas of a plain transfer, used by the self-transfer that cancels a transaction
+const TRANSFER_GAS = 21000n;
+
+interface ListOptions {
+  pending?: boolean;
+  limit: string;
+}
+
+interface ReplaceOptions extends ConfirmOptions {
+  bump: string;
+}
+
+interface BuildOptions {
+  from?: string;
+  out?: string;
+}
+
+interface SignOptions extends ConfirmOptions {
+  out?: string;
+}
+
+// Refresh every pending transaction of the signer from the chain
+async function settlePending(ctx: CommandContext): Promise<JournalEntry[]> {
+  const { transactions } = readJournal(ctx.profile.chainId, ctx.address);
+  const settled = [];
+  for (const entry of transactions) {
+    settled.push(await settleTransaction(ctx, entry));
+  }
+  return settled;
+}
+
+async function findPending(ctx: CommandContext, hash: string): Promise<JournalEntry> {
+  if (!isHash(hash)) {
+    throw new CliError('INVALID_ARGUMENT', `Invalid transaction hash: ${hash}`);
+  }
+  const entry = readJournal(ctx.profile.chainId, ctx.address).transactions.find(
+    candidate => candidate.hash.toLowerCase() === hash.toLowerCase()
+  );
+  if (!entry) {
+    throw new CliError(
+      'TX_NOT_FOUND',
+      `Transaction ${hash} is not in the journal of ${ctx.address}`,
+      undefined,
+      'Run `founder-hedge tx list` to see the transactions sent with this account'
+    );
+  }
+
+  const settled = await settleTransaction(ctx, entry);
+  if (settled.status !== 'pending') {
+    throw new CliError('TX_NOT_PENDING', `Transaction ${hash} is already ${settled.status}`, {
+      transaction: settled,
+    });
+  }
+  return settled;
+}
+
+// Contract clients a journaled write may target, by address
+async function resolveClient(
+  ctx: CommandContext,
+  address: Address
+): Promise<ShieldedContractClient> {
+  const { clients, walletClient } = ctx;
+  const candidates: ShieldedContractClient[] = [
+    clients.pool,
+    clients.exitContribution,
+    await getWiredDistributor(ctx),
+    new UsdyClient({ address: await clients.pool.usdy(), client: walletClient }),
+  ];
+  const contract = candidates.find(candidate => isAddressEqual(candidate.address, address));
+  if (!contract) {
+    throw new CliError('CONTRACT_NOT_FOUND', `${address} is not a contract of this pool`, {
+      address,
+    });
+  }
+  return contract;
+}
+
+async function replacementGasPrice(
+  ctx: CommandContext,
+  entry: JournalEntry,
+  options: ReplaceOptions
+): Promise<bigint> {
+  if (!/^\d+$/.test(options.bump) || Number(options.bump) < MIN_BUMP_PERCENT) {
+    throw new CliError('INVALID_ARGUMENT', `Bump must be a whole percentage of at least 10`);
+  }
+  const bumped = (BigInt(entry.gasPrice) * (100n + BigInt(options.bump))) / 100n;
+  const current = await ctx.publicClient.getGasPrice();
+  return bumped > current ? bumped : current;
+}
+
+// Wait for a replacement, then record which of the transactions sharing its nonce was mined
+async function confirmReplacement(
+  ctx: CommandContext,
+  original: JournalEntry,
+  hash: Hash
+): Promise<TransactionResult> {
+  try {
+    return await confirmTransaction(ctx, hash);
+  } finally {
+    for (const entry of readJournal(ctx.profile.chainId, ctx.address).transactions) {
+      if (entry.nonce === original.nonce) await settleTransaction(ctx, entry);
+    }
+  }
+}
+
+// Rebuild the writes of a flow from the journal
+async function flowCalls(ctx: CommandContext, flow: JournalFlow): Promise<WriteCall[]> {
+  const calls: WriteCall[] = [];
+  for (const step of flow.steps) {
+    const contract = await resolveClient(ctx, step.to);
+    const args = contract.parseArgs(step.functionName, step.args);
+    calls.push({
+      contract,
+      functionName: step.functionName,
+      args,
+      expectedEvents: isAddressEqual(step.to, ctx.clients.pool.address)
+        ? await poolWriteEvents(ctx, step.functionName)
+        : [],
+      send: gasOptions => contract.write(step.functionName, args, gasOptions),
+    });
+  }
+  return calls;
+}
+
+function logTransactions(file: UnsignedFile | SignedFile) {
+  log(`${file.intent} from ${file.from} on ${file.network.name} (chain ${file.network.chainId})`);
+  logTable(
+    ['NONCE', 'CONTRACT', 'CALL', 'GAS LIMIT', 'GAS PRICE', 'MAX FEE'],
+    file.transactions.map(transaction => [
+      String(transaction.nonce),
+      `${transaction.contract} ${transaction.to}`,
+      `${transaction.functionName}(${transaction.args.join(', ')})`,
+      transaction.gas,
+      `${formatGwei(BigInt(transaction.gasPrice))} gwei`,
+      `${formatEther(BigInt(transaction.gas) * BigInt(transaction.gasPrice))} ETH`,
+    ])
+  );
+}
+
+// Build the calls of a command for the --from account and write them to a file
+async function buildFile(
+  command: string,
+  options: BuildOptions,
+  plan: (
+    ctx: PublicContext,
+    from: Address
+  ) => Promise<{
+    intent: string;
+    calls: OfflineCall[];
+    // Checks run against the public state of the --from account
+    preflight: PreflightReport;
+  }>
+) {
+  const from = options.from
+    ? parseAddress(options.from, 'From')
+    : getSignerAddress(getGlobalOptions().account);
+  const out = options.out ?? `${command}.unsigned.json`;
+
+  const ctx = await createPublicContext(command === 'contribute' ? ['usdyAddress'] : []);
+  const { intent, calls, preflight } = await plan(ctx, from);
+  const file = await buildTransactions(ctx, from, intent, calls);
+  writeOfflineFile(out, file);
+
+  logTransactions(file);
+  log(`\nWrote ${out}`);
+  log(`Sign it on the offline machine with: founder-hedge tx sign ${out}`);
+  return { path: out, file, preflight };
+}
+
+export function registerTxCommands(program: Command) {
+  const tx = program
+    .command('tx')
+    .description(
+      'Inspect, resume and replace transactions sent with this CLI, or sign them offline'
+    );
+
+  tx.command('list')
+    .description('List journaled transactions and interrupted flows, newest first')
+    .option('--pending', 'Only list transactions that are not mined yet')
+    .option('--limit <count>', 'Maximum number of transactions to list', '20')
+    .action(
+      runCommand(async (options: ListOptions) => {
+        if (!/^\d+$/.test(options.limit)) {
+          throw new CliError('INVALID_ARGUMENT', 'Limit must be a non-negative integer');
+        }
+
+        const ctx = await createContext();
+        const transactions = (await settlePending(ctx))
+          .filter(entry => !options.pending || entry.status === 'pending')
+          .reverse()
+          .slice(0, Number(options.limit));
+        const openFlows = readJournal(ctx.profile.chainId, ctx.address).flows.filter(
+          flow => flow.status === 'open'
+        );
+
+        if (transactions.length === 0) {
+          log('No transactions in the journal of', ctx.address);
+        } else {
+          logTable(
+            ['HASH', 'NONCE', 'CALL', 'INTENT', 'STATUS', 'SENT'],
+            transactions.map(entry => [
+              entry.hash,
+              String(entry.nonce),
+              entry.functionName,
+              entry.intent,
+              entry.status,
+              timestamp(entry.sentAt).iso,
+            ])
+          );
+        }
+        if (openFlows.length > 0) {
+          log('\nInterrupted flows, continue them with `founder-hedge tx resume`:');
+          for (const flow of openFlows) {
+            log(`- ${flow.intent} (started ${timestamp(flow.startedAt).iso})`);
+          }
+        }
+
+        return { address: ctx.address, transactions, openFlows };
+      })
+    );
+
+  tx.command('resume')
+    .description('Wait for pending transactions and finish interrupted flows')
+    .option('-y, --yes', 'Send the remaining steps without asking for confirmation')
+    .action(
+      runCommand(async (options: ConfirmOptions) => {
+        const ctx = await createContext();
+        const { chainId } = ctx.profile;
+
+        // Open flows wait for their own steps, everything else only needs to be waited for
+        const journal = readJournal(chainId, ctx.address);
+        const openFlowIds = new Set(
+          journal.flows.filter(flow => flow.status === 'open').map(flow => flow.id)
+        );
+        const pending = journal.transactions.filter(
+          entry => entry.status === 'pending' && !openFlowIds.has(entry.flowId ?? '')
+        );
+        for (const entry of pending) {
+          log(`\nWaiting for ${entry.intent}`);
+          await confirmTransaction(ctx, entry.hash).catch(error => {
+            if (!(error instanceof CliError && error.code === 'TX_FAILED')) throw error;
+          });
+          await settleTransaction(ctx, entry);
+        }
+
+        const flows = readJournal(chainId, ctx.address).flows.filter(
+          flow => flow.status === 'open'
+        );
+        const resumed: { flow: JournalFlow; results: WriteResult[] }[] = [];
+        for (const flow of flows) {
+          await confirmWrites(`Continue "${flow.intent}"?`, options);
+          resumed.push({
+            flow,
+            results: await executeFlow(ctx, flow.intent, await flowCalls(ctx, flow)),
+          });
+        }
+
+        if (pending.length === 0 && flows.length === 0) {
+          log('Nothing to resume');
+        }
+
+        const transactions = readJournal(chainId, ctx.address).transactions.filter(entry =>
+          pending.some(candidate => candidate.hash === entry.hash)
+        );
+        return { address: ctx.address, transactions, flows: resumed };
+      })
+    );
+
+  tx.command('speedup')
+    .description('Resend a pending transaction with the same nonce and a higher gas price')
+    .argument('<hash>', 'Hash of the pending transaction')
+    .option('--bump <percent>', 'Gas price increase in percent', String(DEFAULT_BUMP_PERCENT))
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .action(
+      runCommand(async (hash: string, options: ReplaceOptions) => {
+        const ctx = await createContext();
+        const entry = await findPending(ctx, hash);
+        const gasPrice = await replacementGasPrice(ctx, entry, options);
+        const contract = await resolveClient(ctx, entry.to);
+
+        log(`Replacing ${entry.intent} (nonce ${entry.nonce})`);
+        log(`Gas price: ${formatGwei(BigInt(entry.gasPrice))} -> ${formatGwei(gasPrice)} gwei`);
+        await confirmWrites('Send the replacement?', options);
+
+        const replacement = await contract.write(
+          entry.functionName,
+          contract.parseArgs(entry.functionName, entry.args),
+          { nonce: entry.nonce, gas: BigInt(entry.gasLimit), gasPrice }
+        );
+        recordTransaction({
+          ...entry,
+          hash: replacement,
+          gasPrice: gasPrice.toString(),
+          sentAt: Math.floor(Date.now() / 1000),
+        });
+        updateTransaction(ctx.profile.chainId, ctx.address, entry.hash, {
+          replacedBy: replacement,
+        });
+
+        const transaction = await confirmReplacement(ctx, entry, replacement);
+        log('\nTransaction confirmed');
+        return { address: ctx.address, replaced: entry.hash, gasPrice, transaction };
+      })
+    );
+
+  tx.command('cancel')
+    .description('Replace a pending transaction with an empty transfer to yourself')
+    .argument('<hash>', 'Hash of the pending transaction')
+    .option('--bump <percent>', 'Gas price increase in percent', String(DEFAULT_BUMP_PERCENT))
+    .option('-y, --yes', 'Send without asking for confirmation')
+    .action(
+      runCommand(async (hash: string, options: ReplaceOptions) => {
+        const ctx = await createContext();
+        const entry = await findPending(ctx, hash);
+        const gasPrice = await replacementGasPrice(ctx, entry, options);
+
+        log(`Cancelling ${entry.intent} (nonce ${entry.nonce})`);
+        log(`Gas price: ${formatGwei(BigInt(entry.gasPrice))} -> ${formatGwei(gasPrice)} gwei`);
+        await confirmWrites('Send the cancellation?', options);
+
+        const cancellation = await ctx.walletClient.sendTransaction({
+          account: ctx.walletClient.account,
+          chain: ctx.walletClient.chain,
+          to: ctx.address,
+          value: 0n,
+          gas: TRANSFER_GAS,
+          gasPrice,
+          nonce: entry.nonce,
+        });
+        recordTransaction({
+          hash: cancellation,
+          chainId: ctx.profile.chainId,
+          from: ctx.address,
+          to: ctx.address,
+          functionName: 'cancel',
+          args: [entry.hash],
+          intent: `cancel ${entry.intent}`,
+          flowId: null,
+          step: null,
+          nonce: entry.nonce,
+          gasLimit: TRANSFER_GAS.toString(),
+          gasPrice: gasPrice.toString(),
+          sentAt: Math.floor(Date.now() / 1000),
+        });
+        updateTransaction(ctx.profile.chainId, ctx.address, entry.hash, {
+          replacedBy: cancellation,
+        });
+        // The remaining steps of its flow must not be resumed
+        if (entry.flowId) {
+          updateFlow(ctx.profile.chainId, ctx.address, entry.flowId, 'cancelled');
+        }
+
+        const transaction = await confirmReplacement(ctx, entry, cancellation);
+        const original = readJournal(ctx.profile.chainId, ctx.address).transactions.find(
+          candidate => candidate.hash === entry.hash
+        );
+        if (original?.status === 'replaced') {
+          log('\nTransaction cancelled');
+        } else {
+          log(`\nThe original transaction was mined first (${original?.status})`);
+        }
+        return { address: ctx.address, cancelled: entry.hash, gasPrice, transaction };
+      })
+    );
+
+  const build = tx
+    .command('build')
+    .description('Write an unsigned shielded transaction file, to be signed offline');
+
+  const buildOptions = (command: Command) =>
+    command
+      .option('--from <address>', 'Account that will sign (defaults to the selected account)')
+      .option('-o, --out <path>', 'File to write (default: <command>.unsigned.json)');
+
+  buildOptions(
+    build
+      .command('join')
+      .description('Build the transaction that joins the pool')
+      .argument('<percentage>', 'Commitment percentage (1-10)')
+  ).action(
+    runCommand(async (percentage: string, options: BuildOptions) => {
+      const commitment = parseCommitment(percentage);
+      return buildFile('join', options, async (ctx, from) => ({
+        intent: `join with ${percentage}% commitment`,
+        calls: [
+          {
+            contract: 'pool',
+            to: ctx.profile.poolAddress,
+            functionName: 'joinPool',
+            args: [commitment],
+          },
+        ],
+        preflight: await preflightAccount(ctx, from, 'join', { commitment }),
+      }));
+    })
+  );
+
+  buildOptions(
+    build
+      .command('contribute')
+      .description('Build the approval and the contribution of an amount of USDY')
+      .argument('<amount>', 'Amount in USDY (e.g., 1.5 for 1.5 USDY)')
+  ).action(
+    runCommand(async (amount: string, options: BuildOptions) =>
+      buildFile('contribute', options, async (ctx, from) => {
+        const { profile, publicClient } = ctx;
+        const usdyAddress = profile.usdyAddress as Address;
+        const decimals = await publicClient.readContract({
+          address: usdyAddress,
+          abi: usdyAbi,
+          functionName: 'decimals',
+        });
+        const value = parseTokenAmount(amount, decimals);
+        const preflight = await preflightAccount(ctx, from, 'contribute', {
+          contribution: value,
+        });
+        // The allowance is only readable by its owner, so the approval sets it to the
+        // amount instead of adding the shortfall
+        return {
+          intent: `contribute ${formatUnits(value, decimals)} USDY`,
+          calls: [
+            {
+              contract: 'usdy',
+              to: usdyAddress,
+              functionName: 'approve',
+              args: [profile.poolAddress, value],
+            },
+            {
+              contract: 'pool',
+              to: profile.poolAddress,
+              functionName: 'contributeExit',
+              args: [value],
+            },
+          ],
+          preflight,
+        };
+      })
+    )
+  );
+
+  buildOptions(
+    build.command('leave').description('Build the transaction that leaves the pool')
+  ).action(
+    runCommand(async (options: BuildOptions) =>
+      buildFile('leave', options, async (ctx, from) => ({
+        intent: 'leave the pool',
+        calls: [
+          { contract: 'pool', to: ctx.profile.poolAddress, functionName: 'leavePool', args: [] },
+        ],
+        preflight: await preflightAccount(ctx, from, 'leave'),
+      }))
+    )
+  );
+
+  tx.command('sign')
+    .description('Encrypt and sign a built transaction file, without connecting to the network')
+    .argument('<file>', 'Unsigned transaction file from `tx build`')
+    .option('-o, --out <path>', 'File to write (default: <file> with .signed.json)')
+    .option('-y, --yes', 'Sign without asking for confirmation')
+    .action(
+      runCommand(async (path: string, options: SignOptions) => {
+        const file = readOfflineFile(path, 'unsigned');
+        const out = options.out ?? path.replace(/(\.unsigned)?\.json$/, '') + '.signed.json';
+
+        logTransactions(file);
+        const signer = await loadSigner(getGlobalOptions().account);
+        await confirmWrites('Sign these transactions?', options);
+        const signed = await signTransactions(file, signer);
+        writeOfflineFile(out, signed);
+
+        log(`\nWrote ${out}`);
+        log(`Broadcast it from an online machine with: founder-hedge tx broadcast ${out}`);
+        return {
+          path: out,
+          from: signed.from,
+          transactions: signed.transactions.map(({ nonce, functionName, hash }) => ({
+            nonce,
+            functionName,
+            hash,
+          })),
+        };
+      })
+    );
+
+  tx.command('broadcast')
+    .description('Send a signed transaction file and wait for the receipts')
+    .argument('<file>', 'Signed transaction file from `tx sign`')
+    .action(
+      runCommand(async (path: string) => {
+        const file = readOfflineFile(path, 'signed');
+        const ctx = await createPublicContext();
+        const transactions = await broadcastTransactions(ctx, file);
+        log('\nAll transactions confirmed');
+        return { from: file.from, intent: file.intent, transactions };
+      })
+    );
+}
@@ -0,0 +1,618 @@
+import { Command } from 'commander';
+import { Address, formatUnits, isAddressEqual } from 'viem';
+import { parseAddress, parseRole, parseTokenAmount } from '../args.js';
+import { CommandContext, createContext } from '../context.js';
+import { CliError } from '../errors.js';
+import { log, runCommand, tokenAmount } from '../output.js';
+import { USDY_ROLES, UsdyClient, UsdyRole } from '../sdk/index.js';
+import {
+  ConfirmOptions,
+  DryRunOptions,
+  WriteCall,
+  confirmWrites,
+  executeWrite,
+} from '../transactions.js';
+
+const ROLE_NAMES = Object.keys(USDY_ROLES) as UsdyRole[];
+
+interface AllowanceOptions {
+  owner?: string;
+}
+
+interface MintOptions extends DryRunOptions {
+  to?: string;
+}
+
+interface BurnOptions extends DryRunOptions {
+  from?: string;
+}
+
+/**
+ * Fail before sending when the signer lacks the role a USDY function requires
+ */
+async function assertRole(usdy: UsdyClient, role: UsdyRole) {
+  if (await usdy.hasRole(USDY_ROLES[role], usdy.account)) {
+    return;
+  }
+  throw new CliError(
+    'MISSING_ROLE',
+    `Signer ${usdy.account} does not hold ${role}_ROLE on USDY`,
+    { role, account: usdy.account },
+    role === 'DEFAULT_ADMIN'
+      ? 'Sign with a DEFAULT_ADMIN_ROLE holder using --account <alias>'
+      : `Ask a DEFAULT_ADMIN_ROLE holder to run: usdy roles grant ${role} ${usdy.account}`
+  );
+}
+
+/**
+ * USDY only reveals balances and shares to their owner. Other accounts can
+ * only be read through the debug getters, when the signer is the debug address.
+ */
+async function readPrivate(
+  usdy: UsdyClient,
+  account: Address,
+  what: string,
+  own: () => Promise<bigint>,
+  debug: () => Promise<bigint>
+): Promise<{ value: bigint; source: 'owner' | 'debug' }> {
+  if (isAddressEqual(account, usdy.account)) {
+    return { value: await own(), source: 'owner' };
+  }
+  if (usdy.hasDebugAccess()) {
+    return { value: await debug(), source: 'debug' };
+  }
+  throw new CliError(
+    'UNAUTHORIZED_VIEW',
+    `USDY only reveals the ${what} of ${account} to that account`,
+    { account, signer: usdy.account },
+    'Sign with that account using --account <alias>'
+  );
+}
+
+async function assertNotPaused(usdy: UsdyClient) {
+  if (await usdy.paused()) {
+    throw new CliError('TOKEN_PAUSED', 'USDY is paused', { contract: usdy.address });
+  }
+}
+
+/**
+ * Simulate and send a USDY write
+ */
+async function sendUsdyWrite(
+  ctx: CommandContext,
+  call: Omit<WriteCall, 'contract'>,
+  dryRun?: boolean
+) {
+  const { simulation, transaction } = await executeWrite(
+    ctx,
+    { contract: ctx.clients.usdy, ...call },
+    dryRun
+  );
+  if (transaction) {
+    log(`\n${call.functionName} confirmed`);
+  }
+  return {
+    address: ctx.address,
+    dryRun: Boolean(dryRun),
+    simulation,
+    transaction,
+  };
+}
+
+/**
+ * Read the USDY balance of the signer, or of another account with the debug key
+ */
+export async function readBalance(ctx: CommandContext, account?: string) {
+  const { usdy } = ctx.clients;
+  const owner = account ? parseAddress(account, 'Account') : ctx.address;
+
+  const decimals = await usdy.decimals();
+  const { value, source } = await readPrivate(
+    usdy,
+    owner,
+    'balance',
+    () => usdy.balanceOf(owner),
+    () => usdy.getBalanceOf(owner)
+  );
+
+  log('Account:', owner);
+  log('Balance:', formatUnits(value, decimals), 'USDY');
+
+  return { account: owner, balance: tokenAmount(value, decimals), source };
+}
+
+export function registerUsdyCommands(program: Command) {
+  const usdy = program.command('usdy').description('Read and move USDY');
+
+  usdy
+    .command('balance')
+    .description('Show the USDY balance of your account')
+    .argument('[account]', 'Account to check (other accounts require the debug key)')
+    .action(
+      runCommand(async (account: string | undefined) =>
+        readBalance(await createContext(['usdyAddress']), account)
+      )
+    );
+
+  usdy
+    .command('shares')
+    .description('Show the USDY shares of your account')
+    .argument('[account]', 'Account to check (other accounts require the debug key)')
+    .action(
+      runCommand(async (account: string | undefined) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const owner = account ? parseAddress(account, 'Account') : ctx.address;
+
+        const multiplier = await usdy.getCurrentRewardMultiplier();
+        const { value, source } = await readPrivate(
+          usdy,
+          owner,
+          'shares',
+          () => usdy.sharesOf(owner),
+          () => usdy.getSharesOf(owner)
+        );
+
+        log('Account:', owner);
+        log('Shares:', value.toString());
+        log('Reward multiplier:', formatUnits(multiplier, 18));
+
+        return {
+          account: owner,
+          shares: value,
+          rewardMultiplier: multiplier,
+          source,
+        };
+      })
+    );
+
+  usdy
+    .command('total-supply')
+    .description('Show the USDY total supply and shares')
+    .action(
+      runCommand(async () => {
+        const { clients } = await createContext(['usdyAddress']);
+        const { usdy } = clients;
+
+        const [decimals, totalSupply, totalShares, multiplier, paused] = await Promise.all([
+          usdy.decimals(),
+          usdy.totalSupply(),
+          usdy.totalShares(),
+          usdy.getCurrentRewardMultiplier(),
+          usdy.paused(),
+        ]);
+
+        log('Total supply:', formatUnits(totalSupply, decimals), 'USDY');
+        log('Total shares:', totalShares.toString());
+        log('Reward multiplier:', formatUnits(multiplier, 18));
+        if (paused) {
+          log('Transfers are paused');
+        }
+
+        return {
+          totalSupply: tokenAmount(totalSupply, decimals),
+          totalShares,
+          rewardMultiplier: multiplier,
+          paused,
+        };
+      })
+    );
+
+  usdy
+    .command('allowance')
+    .description('Show how much USDY a spender may move for an owner')
+    .argument('<spender>', 'Spender address')
+    .option('--owner <address>', 'Owner of the tokens (defaults to your account)')
+    .action(
+      runCommand(async (spenderArg: string, options: AllowanceOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const spender = parseAddress(spenderArg, 'Spender');
+        const owner = options.owner ? parseAddress(options.owner, 'Owner') : ctx.address;
+
+        // The contract reverts for anyone but the owner and the spender
+        if (!isAddressEqual(ctx.address, owner) && !isAddressEqual(ctx.address, spender)) {
+          throw new CliError(
+            'UNAUTHORIZED_VIEW',
+            'USDY only reveals an allowance to its owner and spender',
+            { owner, spender, signer: ctx.address },
+            'Sign with the owner or spender account using --account <alias>'
+          );
+        }
+
+        const decimals = await usdy.decimals();
+        const allowance = await usdy.allowance(owner, spender);
+
+        log('Owner:', owner);
+        log('Spender:', spender);
+        log('Allowance:', formatUnits(allowance, decimals), 'USDY');
+
+        return { owner, spender, allowance: tokenAmount(allowance, decimals) };
+      })
+    );
+
+  usdy
+    .command('transfer')
+    .description('Transfer USDY to another account')
+    .argument('<to>', 'Recipient address')
+    .argument('<amount>', 'Amount in USDY (e.g., 1.5 for 1.5 USDY)')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (toArg: string, amountArg: string, options: DryRunOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const to = parseAddress(toArg, 'Recipient');
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertNotPaused(usdy);
+        const balance = await usdy.balanceOf(ctx.address);
+        if (balance < amount) {
+          log('Required:', formatUnits(amount, decimals), 'USDY');
+          log('Balance:', formatUnits(balance, decimals), 'USDY');
+          throw new CliError('INSUFFICIENT_BALANCE', 'Insufficient USDY balance', {
+            required: tokenAmount(amount, decimals),
+            balance: tokenAmount(balance, decimals),
+          });
+        }
+
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'transfer',
+            args: [to, amount],
+            send: gasOptions => {
+              log('Transferring', formatUnits(amount, decimals), 'USDY to', to);
+              return usdy.transfer(to, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { to, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  usdy
+    .command('approve')
+    .description('Set the USDY allowance of a spender')
+    .argument('<spender>', 'Spender address')
+    .argument('<amount>', 'Allowance in USDY')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (spenderArg: string, amountArg: string, options: DryRunOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const spender = parseAddress(spenderArg, 'Spender');
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertNotPaused(usdy);
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'approve',
+            args: [spender, amount],
+            send: gasOptions => {
+              log('Approving', spender, 'to spend', formatUnits(amount, decimals), 'USDY');
+              return usdy.approve(spender, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { spender, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  usdy
+    .command('increase-allowance')
+    .description('Raise the USDY allowance of a spender')
+    .argument('<spender>', 'Spender address')
+    .argument('<amount>', 'Amount in USDY to add')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (spenderArg: string, amountArg: string, options: DryRunOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const spender = parseAddress(spenderArg, 'Spender');
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertNotPaused(usdy);
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'increaseAllowance',
+            args: [spender, amount],
+            send: gasOptions => {
+              log('Increasing allowance of', spender, 'by', formatUnits(amount, decimals), 'USDY');
+              return usdy.increaseAllowance(spender, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { spender, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  usdy
+    .command('decrease-allowance')
+    .description('Lower the USDY allowance of a spender')
+    .argument('<spender>', 'Spender address')
+    .argument('<amount>', 'Amount in USDY to remove')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (spenderArg: string, amountArg: string, options: DryRunOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const spender = parseAddress(spenderArg, 'Spender');
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertNotPaused(usdy);
+        const allowance = await usdy.allowance(ctx.address, spender);
+        if (allowance < amount) {
+          log('Requested:', formatUnits(amount, decimals), 'USDY');
+          log('Allowance:', formatUnits(allowance, decimals), 'USDY');
+          throw new CliError('INSUFFICIENT_ALLOWANCE', 'Cannot decrease the allowance below zero', {
+            requested: tokenAmount(amount, decimals),
+            allowance: tokenAmount(allowance, decimals),
+          });
+        }
+
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'decreaseAllowance',
+            args: [spender, amount],
+            send: gasOptions => {
+              log('Decreasing allowance of', spender, 'by', formatUnits(amount, decimals), 'USDY');
+              return usdy.decreaseAllowance(spender, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { spender, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  usdy
+    .command('mint')
+    .description('Mint USDY (requires MINTER_ROLE)')
+    .argument('<amount>', 'Amount in USDY')
+    .option('--to <address>', 'Recipient (defaults to your account)')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (amountArg: string, options: MintOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const to = options.to ? parseAddress(options.to, 'Recipient') : ctx.address;
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertRole(usdy, 'MINTER');
+        await assertNotPaused(usdy);
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'mint',
+            args: [to, amount],
+            send: gasOptions => {
+              log('Minting', formatUnits(amount, decimals), 'USDY to', to);
+              return usdy.mint(to, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { to, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  usdy
+    .command('burn')
+    .description('Burn USDY (requires BURNER_ROLE)')
+    .argument('<amount>', 'Amount in USDY')
+    .option('--from <address>', 'Account to burn from (defaults to your account)')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (amountArg: string, options: BurnOptions) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const from = options.from ? parseAddress(options.from, 'Account') : ctx.address;
+        const decimals = await usdy.decimals();
+        const amount = parseTokenAmount(amountArg, decimals);
+
+        await assertRole(usdy, 'BURNER');
+        await assertNotPaused(usdy);
+
+        // Other balances are only readable with the debug key
+        if (isAddressEqual(from, ctx.address) || usdy.hasDebugAccess()) {
+          const { value: balance } = await readPrivate(
+            usdy,
+            from,
+            'balance',
+            () => usdy.balanceOf(from),
+            () => usdy.getBalanceOf(from)
+          );
+          if (balance < amount) {
+            throw new CliError('INSUFFICIENT_BALANCE', `${from} holds less USDY than the burn`, {
+              required: tokenAmount(amount, decimals),
+              balance: tokenAmount(balance, decimals),
+            });
+          }
+        }
+
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'burn',
+            args: [from, amount],
+            send: gasOptions => {
+              log('Burning', formatUnits(amount, decimals), 'USDY from', from);
+              return usdy.burn(from, amount, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { from, amount: tokenAmount(amount, decimals), ...result };
+      })
+    );
+
+  for (const [name, pausing] of [
+    ['pause', true],
+    ['unpause', false],
+  ] as const) {
+    usdy
+      .command(name)
+      .description(`${pausing ? 'Pause' : 'Unpause'} USDY transfers (requires PAUSE_ROLE)`)
+      .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+      .action(
+        runCommand(async (options: DryRunOptions) => {
+          const ctx = await createContext(['usdyAddress']);
+          const { usdy } = ctx.clients;
+
+          await assertRole(usdy, 'PAUSE');
+          // The contract reverts when it is already in the requested state
+          if ((await usdy.paused()) === pausing) {
+            log(`USDY is already ${pausing ? 'paused' : 'unpaused'}`);
+            return { address: ctx.address, paused: pausing, skipped: true };
+          }
+
+          const result = await sendUsdyWrite(
+            ctx,
+            {
+              functionName: name,
+              send: gasOptions => (pausing ? usdy.pause(gasOptions) : usdy.unpause(gasOptions)),
+            },
+            options.dryRun
+          );
+          return { paused: pausing, skipped: false, ...result };
+        })
+      );
+  }
+
+  const roles = usdy.command('roles').description('Inspect and manage USDY roles');
+
+  roles
+    .command('list')
+    .description('List the USDY roles held by an account')
+    .argument('[account]', 'Account to check (defaults to your account)')
+    .action(
+      runCommand(async (account: string | undefined) => {
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+        const holder = account ? parseAddress(account, 'Account') : ctx.address;
+
+        const held = await Promise.all(
+          ROLE_NAMES.map(role => usdy.hasRole(USDY_ROLES[role], holder))
+        );
+
+        log('Roles of', holder);
+        ROLE_NAMES.forEach((role, index) => {
+          log(`- ${`${role}_ROLE`.padEnd(20)} ${held[index] ? 'yes' : 'no'}`);
+        });
+
+        return {
+          account: holder,
+          roles: ROLE_NAMES.map((role, index) => ({
+            role,
+            id: USDY_ROLES[role],
+            held: held[index],
+          })),
+        };
+      })
+    );
+
+  roles
+    .command('check')
+    .description('Check whether an account holds a USDY role')
+    .argument('<role>', `Role (${ROLE_NAMES.join(', ')})`)
+    .argument('[account]', 'Account to check (defaults to your account)')
+    .action(
+      runCommand(async (roleArg: string, account: string | undefined) => {
+        const role = parseRole(roleArg);
+        const ctx = await createContext(['usdyAddress']);
+        const holder = account ? parseAddress(account, 'Account') : ctx.address;
+
+        const held = await ctx.clients.usdy.hasRole(USDY_ROLES[role], holder);
+        log(`${holder} ${held ? 'holds' : 'does not hold'} ${role}_ROLE`);
+
+        return { account: holder, role, id: USDY_ROLES[role], held };
+      })
+    );
+
+  roles
+    .command('grant')
+    .description('Grant a USDY role (requires DEFAULT_ADMIN_ROLE)')
+    .argument('<role>', `Role (${ROLE_NAMES.join(', ')})`)
+    .argument('<account>', 'Account to grant the role to')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (roleArg: string, account: string, options: DryRunOptions) => {
+        const role = parseRole(roleArg);
+        const holder = parseAddress(account, 'Account');
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+
+        await assertRole(usdy, 'DEFAULT_ADMIN');
+        if (await usdy.hasRole(USDY_ROLES[role], holder)) {
+          log(`${holder} already holds ${role}_ROLE`);
+          return { account: holder, role, skipped: true };
+        }
+
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'grantRole',
+            args: [USDY_ROLES[role], holder],
+            send: gasOptions => {
+              log(`Granting ${role}_ROLE to`, holder);
+              return usdy.grantRole(USDY_ROLES[role], holder, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { account: holder, role, skipped: false, ...result };
+      })
+    );
+
+  roles
+    .command('revoke')
+    .description('Revoke a USDY role (requires DEFAULT_ADMIN_ROLE)')
+    .argument('<role>', `Role (${ROLE_NAMES.join(', ')})`)
+    .argument('<account>', 'Account to revoke the role from')
+    .option('-y, --yes', 'Revoke your own DEFAULT_ADMIN_ROLE without asking for confirmation')
+    .option('--dry-run', 'Simulate the transaction and estimate its fee without sending it')
+    .action(
+      runCommand(async (roleArg: string, account: string, options: ConfirmOptions) => {
+        const role = parseRole(roleArg);
+        const holder = parseAddress(account, 'Account');
+        const ctx = await createContext(['usdyAddress']);
+        const { usdy } = ctx.clients;
+
+        await assertRole(usdy, 'DEFAULT_ADMIN');
+        if (!(await usdy.hasRole(USDY_ROLES[role], holder))) {
+          log(`${holder} does not hold ${role}_ROLE`);
+          return { account: holder, role, skipped: true };
+        }
+
+        if (role === 'DEFAULT_ADMIN' && isAddressEqual(holder, ctx.address)) {
+          log('The signer will no longer be able to grant or revoke USDY roles');
+          await confirmWrites('Revoke your own DEFAULT_ADMIN_ROLE?', options);
+        }
+
+        const result = await sendUsdyWrite(
+          ctx,
+          {
+            functionName: 'revokeRole',
+            args: [USDY_ROLES[role], holder],
+            send: gasOptions => {
+              log(`Revoking ${role}_ROLE from`, holder);
+              return usdy.revokeRole(USDY_ROLES[role], holder, gasOptions);
+            },
+          },
+          options.dryRun
+        );
+        return { account: holder, role, skipped: false, ...result };
+      })
+    );
+}
@@ -0,0 +1,98 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { createContext } from '../context.js';
+import { CliError } from '../errors.js';
+import { isJsonMode, log, runCommand } from '../output.js';
+import {
+  NotificationSinks,
+  checkMilestones,
+  deliverNotifications,
+  readWatchState,
+  writeWatchState,
+} from '../watcher.js';
+
+interface WatchOptions {
+  interval: string;
+  logFile?: string;
+  webhook?: string;
+  once?: boolean;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+function parseWebhook(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new CliError('INVALID_ARGUMENT', `Webhook must be an http or https URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new CliError('INVALID_ARGUMENT', `Webhook must be an http or https URL: ${value}`);
+  }
+  return url.toString();
+}
+
+export function registerWatchCommand(program: Command) {
+  program
+    .command('watch')
+    .description(
+      'Notify about leave eligibility, contribution windows, new dividends and admin actions'
+    )
+    .option('-i, --interval <seconds>', 'Seconds between checks', String(DEFAULT_INTERVAL_SECONDS))
+    .option('--log-file <path>', 'Append notifications to a file, one JSON object per line')
+    .option(
+      '--webhook <url>',
+      'POST each notification as JSON to a URL (default: FOUNDER_HEDGE_WEBHOOK)'
+    )
+    .option('--once', 'Check once and exit, for cron jobs')
+    .action(
+      runCommand(async (options: WatchOptions) => {
+        if (isJsonMode() && !options.once) {
+          throw new CliError('INVALID_ARGUMENT', '--json needs --once, use --log-file instead');
+        }
+        if (!/^\d+$/.test(options.interval) || Number(options.interval) === 0) {
+          throw new CliError('INVALID_ARGUMENT', 'Interval must be a positive number of seconds');
+        }
+        const interval = Number(options.interval);
+        const webhook = options.webhook ?? process.env.FOUNDER_HEDGE_WEBHOOK;
+        const sinks: NotificationSinks = {
+          logFile: options.logFile ? resolve(options.logFile) : null,
+          webhook: webhook ? parseWebhook(webhook) : null,
+        };
+
+        const ctx = await createContext();
+        const { chainId } = ctx.profile;
+
+        // The state is only saved after a successful check, so a failed one is repeated in full
+        const check = async () => {
+          const previous = readWatchState(chainId, ctx.address);
+          const { notifications, state } = await checkMilestones(ctx, previous);
+          const deliveries = await deliverNotifications(notifications, sinks, state);
+          writeWatchState(chainId, ctx.address, state);
+          return { notifications, deliveries, undelivered: state.undelivered.length };
+        };
+
+        if (options.once) {
+          const result = await check();
+          if (result.notifications.length === 0) log('Nothing new');
+          return { address: ctx.address, ...result };
+        }
+
+        log(`Watching ${ctx.address} on ${ctx.profile.name} every ${interval}s`);
+        if (sinks.logFile) log(`Logging notifications to ${sinks.logFile}`);
+        if (sinks.webhook) log(`Sending notifications to ${sinks.webhook}`);
+        log('Press Ctrl+C to stop\n');
+
+        // Runs until interrupted
+        for (;;) {
+          try {
+            await check();
+          } catch (error: any) {
+            log(`Check failed: ${error.message}`);
+          }
+          await new Promise(resolve => setTimeout(resolve, interval * 1000));
+        }
+      })
+    );
+}
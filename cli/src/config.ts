@@ -0,0 +1,233 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { seismicDevnet } from 'seismic-viem';
+import { Address, Chain, isAddress, zeroAddress } from 'viem';
+
+export const CONFIG_FILE_NAME = 'founder-hedge.config.json';
+export const DEFAULT_NETWORK = 'devnet';
+
+// Config file shipped with the CLI, used when none is found in the working directory
+const BUNDLED_CONFIG_PATH = fileURLToPath(new URL(`../${CONFIG_FILE_NAME}`, import.meta.url));
+
+export interface NetworkProfile {
+  name: string;
+  rpcUrl?: string;
+  chainId?: number;
+  poolAddress?: Address;
+  distributorAddress?: Address;
+  usdyAddress?: Address;
+  exitContributionAddress?: Address;
+}
+
+export type ProfileField = Exclude<keyof NetworkProfile, 'name'>;
+
+export type AddressField =
+  'poolAddress' | 'distributorAddress' | 'usdyAddress' | 'exitContributionAddress';
+
+/**
+ * A profile whose listed fields have been checked to be present and valid
+ */
+export type ValidatedProfile<K extends ProfileField> = NetworkProfile &
+  Required<Pick<NetworkProfile, K>>;
+
+export interface ConfigFile {
+  defaultNetwork?: string;
+  networks: Record<string, Record<string, unknown>>;
+}
+
+export interface ConfigOptions {
+  config?: string;
+  network?: string;
+  profile?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'ConfigError';
+  }
+}
+
+// Environment variables that override the matching profile field
+const ENV_OVERRIDES: Record<ProfileField, string> = {
+  rpcUrl: 'RPC_URL',
+  chainId: 'CHAIN_ID',
+  poolAddress: 'POOL_ADDRESS',
+  distributorAddress: 'DISTRIBUTOR_ADDRESS',
+  usdyAddress: 'USDY_ADDRESS',
+  exitContributionAddress: 'EXIT_CONTRIBUTION_ADDRESS',
+};
+
+// Each validator returns the parsed value, or a description of what is wrong with it
+type Validator = (value: unknown) => { value: unknown } | { problem: string };
+
+function addressValidator(value: unknown) {
+  if (typeof value !== 'string' || !isAddress(value)) {
+    return { problem: 'must be a 0x-prefixed 20-byte address' };
+  }
+  if (value.toLowerCase() === zeroAddress) {
+    return { problem: 'is the zero address' };
+  }
+  return { value: value as Address };
+}
+
+const PROFILE_SCHEMA: Record<ProfileField, Validator> = {
+  rpcUrl: value => {
+    if (typeof value !== 'string' || !/^https?:\/\/.+/.test(value)) {
+      return { problem: 'must be an http(s) URL' };
+    }
+    return { value };
+  },
+  chainId: value => {
+    const chainId = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof chainId !== 'number' || !Number.isSafeInteger(chainId) || chainId <= 0) {
+      return { problem: 'must be a positive integer' };
+    }
+    return { value: chainId };
+  },
+  poolAddress: addressValidator,
+  distributorAddress: addressValidator,
+  usdyAddress: addressValidator,
+  exitContributionAddress: addressValidator,
+};
+
+// The config file the CLI reads, from the first candidate that exists
+function findConfigFile(path?: string): string {
+  const candidates = path
+    ? [resolve(path)]
+    : [
+        ...(process.env.FOUNDER_HEDGE_CONFIG ? [resolve(process.env.FOUNDER_HEDGE_CONFIG)] : []),
+        resolve(CONFIG_FILE_NAME),
+        BUNDLED_CONFIG_PATH,
+      ];
+
+  const configPath = candidates.find(candidate => existsSync(candidate));
+  if (!configPath) {
+    throw new ConfigError([`Config file not found: ${candidates[0]}`]);
+  }
+  return configPath;
+}
+
+function parseConfigFile(configPath: string): ConfigFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error: any) {
+    throw new ConfigError([`Invalid JSON in ${configPath}: ${error.message}`]);
+  }
+
+  if (!parsed || typeof parsed.networks !== 'object' || Array.isArray(parsed.networks)) {
+    throw new ConfigError([`${configPath} must contain a "networks" object`]);
+  }
+
+  return parsed;
+}
+
+/**
+ * Locate and parse the config file. Only the file structure is checked here,
+ * profile values are validated per command by requireProfile.
+ */
+export function loadConfigFile(path?: string): ConfigFile {
+  return parseConfigFile(findConfigFile(path));
+}
+
+/**
+ * Set fields of a network profile in the config file, adding the profile when
+ * it does not exist yet. The config bundled with the CLI is never modified, a
+ * copy is saved to the working directory instead. Returns the path written.
+ */
+export function saveProfile(
+  name: string,
+  fields: Partial<Omit<NetworkProfile, 'name'>>,
+  path?: string
+): string {
+  const source = findConfigFile(path);
+  const config = parseConfigFile(source);
+  const target = source === BUNDLED_CONFIG_PATH ? resolve(CONFIG_FILE_NAME) : source;
+
+  config.networks[name] = { ...config.networks[name], ...fields };
+  // Written to a temporary file first so a crash never leaves a truncated config
+  writeFileSync(`${target}.tmp`, JSON.stringify(config, null, 2) + '\n');
+  renameSync(`${target}.tmp`, target);
+  return target;
+}
+
+/**
+ * Resolve the selected network profile, applying environment overrides
+ */
+export function loadProfile(options: ConfigOptions = {}): NetworkProfile {
+  const config = loadConfigFile(options.config);
+  const name =
+    options.network ??
+    options.profile ??
+    process.env.FOUNDER_HEDGE_NETWORK ??
+    config.defaultNetwork ??
+    DEFAULT_NETWORK;
+
+  const raw = config.networks[name];
+  if (!raw) {
+    const available = Object.keys(config.networks).join(', ');
+    throw new ConfigError([`Unknown network "${name}". Available networks: ${available}`]);
+  }
+
+  const unknownFields = Object.keys(raw).filter(field => !(field in PROFILE_SCHEMA));
+  if (unknownFields.length > 0) {
+    throw new ConfigError(unknownFields.map(field => `${name}.${field} is not a known setting`));
+  }
+
+  const profile: Record<string, unknown> = { ...raw, name };
+  for (const [field, envName] of Object.entries(ENV_OVERRIDES)) {
+    if (process.env[envName]) {
+      profile[field] = process.env[envName];
+    }
+  }
+
+  return profile as unknown as NetworkProfile;
+}
+
+/**
+ * Check that the given fields are set and valid, reporting every problem at once
+ */
+export function requireProfile<K extends ProfileField>(
+  profile: NetworkProfile,
+  fields: readonly K[]
+): ValidatedProfile<K> {
+  const validated: Record<string, unknown> = { ...profile };
+  const problems: string[] = [];
+
+  for (const field of new Set(fields)) {
+    const value = profile[field];
+    if (value === undefined || value === null || value === '') {
+      problems.push(
+        `${profile.name}.${field} is not set (config file or ${ENV_OVERRIDES[field]} environment variable)`
+      );
+      continue;
+    }
+
+    const result = PROFILE_SCHEMA[field](value);
+    if ('problem' in result) {
+      problems.push(`${profile.name}.${field} ${result.problem}`);
+    } else {
+      validated[field] = result.value;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return validated as ValidatedProfile<K>;
+}
+
+/**
+ * Seismic chain definition for a profile
+ */
+export function getChain(profile: ValidatedProfile<'rpcUrl' | 'chainId'>): Chain {
+  return {
+    ...seismicDevnet,
+    id: profile.chainId,
+    name: `Seismic ${profile.name}`,
+    rpcUrls: { default: { http: [profile.rpcUrl] } },
+  };
+}
@@ -0,0 +1,238 @@
+import { type ShieldedWalletClient, createShieldedWalletClient } from 'seismic-viem';
+import { Address, PublicClient, createPublicClient, http } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  AddressField,
+  ConfigOptions,
+  ProfileField,
+  ValidatedProfile,
+  getChain,
+  loadProfile,
+  requireProfile,
+} from './config.js';
+import { CliError } from './errors.js';
+import { loadSigner } from './keystore.js';
+import {
+  DividendDistributorClient,
+  ExitContributionClient,
+  FounderHedgeClients,
+  SuccessPoolClient,
+  UsdyClient,
+} from './sdk/index.js';
+
+export interface GlobalOptions extends ConfigOptions {
+  account?: string;
+  json?: boolean;
+  rpcRetries?: string;
+  receiptTimeout?: string;
+}
+
+/**
+ * Connection to the profile's chain, before any contract is known
+ */
+export interface ChainContext {
+  profile: ValidatedProfile<'rpcUrl' | 'chainId'>;
+  publicClient: PublicClient;
+}
+
+/**
+ * Connection to the profile's chain, for commands that only read public state
+ */
+export interface PublicContext extends ChainContext {
+  profile: ValidatedProfile<'rpcUrl' | 'chainId' | 'poolAddress'>;
+}
+
+/**
+ * Connection with an unlocked signer, for commands that deploy the contracts
+ */
+export interface SignerContext extends ChainContext {
+  address: Address;
+  walletClient: ShieldedWalletClient;
+}
+
+export interface CommandContext extends PublicContext {
+  address: Address;
+  walletClient: ShieldedWalletClient;
+  clients: FounderHedgeClients;
+}
+
+let globalOptions: GlobalOptions = {};
+
+// First retry delay of a failed RPC request, doubled on every further attempt
+const RPC_RETRY_DELAY_MS = 500;
+
+const DEFAULT_RPC_RETRIES = 3;
+
+const DEFAULT_RECEIPT_TIMEOUT_SECONDS = 120;
+
+/**
+ * Record the global options of the command about to run
+ */
+export function setGlobalOptions(options: GlobalOptions) {
+  globalOptions = options;
+}
+
+export function getGlobalOptions(): GlobalOptions {
+  return globalOptions;
+}
+
+function parseCount(value: string | undefined, fallback: number, option: string): number {
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value)) {
+    throw new CliError('INVALID_ARGUMENT', `${option} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * HTTP transport to the profile's RPC, retrying failed requests with exponential
+ * backoff. Requests made concurrently are sent as one JSON-RPC batch.
+ */
+function rpcTransport(rpcUrl: string) {
+  return http(rpcUrl, {
+    batch: true,
+    retryCount: parseCount(globalOptions.rpcRetries, DEFAULT_RPC_RETRIES, '--rpc-retries'),
+    retryDelay: RPC_RETRY_DELAY_MS,
+  });
+}
+
+/**
+ * How long to wait for a sent transaction to be mined, in milliseconds
+ */
+export function getReceiptTimeout(): number {
+  return (
+    parseCount(globalOptions.receiptTimeout, DEFAULT_RECEIPT_TIMEOUT_SECONDS, '--receipt-timeout') *
+    1000
+  );
+}
+
+// Verify RPC connection and that it serves the profile's chain
+async function verifyConnection(publicClient: PublicClient, profile: ChainContext['profile']) {
+  let chainId: number;
+  try {
+    chainId = await publicClient.getChainId();
+  } catch (error: any) {
+    throw new CliError('RPC_UNAVAILABLE', `Error connecting to RPC: ${error.message}`, {
+      rpcUrl: profile.rpcUrl,
+    });
+  }
+
+  if (chainId !== profile.chainId) {
+    throw new CliError(
+      'CHAIN_MISMATCH',
+      `RPC chain id ${chainId} does not match chain id ${profile.chainId} of network "${profile.name}"`,
+      { expected: profile.chainId, actual: chainId }
+    );
+  }
+}
+
+// Verify contract exists
+async function verifyContract(publicClient: PublicClient, address: Address) {
+  const code = await publicClient.getBytecode({ address });
+  if (!code || code === '0x') {
+    throw new CliError('CONTRACT_NOT_FOUND', `No contract found at address: ${address}`, {
+      address,
+    });
+  }
+}
+
+// Connect to the profile's chain and check it is the expected one
+async function connect(profile: ChainContext['profile']): Promise<PublicClient> {
+  const publicClient = createPublicClient({
+    chain: getChain(profile),
+    transport: rpcTransport(profile.rpcUrl),
+  });
+  await verifyConnection(publicClient, profile);
+  return publicClient;
+}
+
+// Unlock the signer and set up a wallet client for it on the profile's chain
+async function unlockWallet(profile: ChainContext['profile']) {
+  const signer = await loadSigner(globalOptions.account);
+  const account = privateKeyToAccount(signer.privateKey);
+
+  const walletClient = await createShieldedWalletClient({
+    chain: getChain(profile),
+    transport: rpcTransport(profile.rpcUrl),
+    account,
+  });
+  return { address: account.address, walletClient };
+}
+
+/**
+ * Validate the profile fields a command needs and connect to its chain without
+ * a signer. Every command talks to the pool, so the RPC and pool address are
+ * always required.
+ */
+export async function createPublicContext(required: ProfileField[] = []): Promise<PublicContext> {
+  const profile = requireProfile(loadProfile(globalOptions), [
+    'rpcUrl',
+    'chainId',
+    'poolAddress',
+    ...required,
+  ]);
+
+  const publicClient = await connect(profile);
+  await verifyContract(publicClient, profile.poolAddress);
+
+  return { profile, publicClient };
+}
+
+/**
+ * Connect to the profile's chain with the signer, without requiring any
+ * contract address. Used to deploy the contracts the profile will point to.
+ */
+export async function createSignerContext(): Promise<SignerContext> {
+  const profile = requireProfile(loadProfile(globalOptions), ['rpcUrl', 'chainId']);
+  const publicClient = await connect(profile);
+  return { profile, publicClient, ...(await unlockWallet(profile)) };
+}
+
+/**
+ * Connect like createPublicContext, then unlock the signer and set up its clients
+ */
+export async function createContext(required: ProfileField[] = []): Promise<CommandContext> {
+  const { profile, publicClient } = await createPublicContext(required);
+  const { address, walletClient } = await unlockWallet(profile);
+
+  const client = walletClient;
+  const pool = new SuccessPoolClient({ address: profile.poolAddress, client });
+  const requireAddress = (field: AddressField): Address => requireProfile(profile, [field])[field];
+
+  const clients: FounderHedgeClients = {
+    pool,
+    exitContribution: new ExitContributionClient({
+      address: await pool.exitContribution(),
+      client,
+    }),
+    // Only available to commands that required the address
+    get distributor() {
+      return new DividendDistributorClient({
+        address: requireAddress('distributorAddress'),
+        client,
+      });
+    },
+    get usdy() {
+      return new UsdyClient({ address: requireAddress('usdyAddress'), client });
+    },
+  };
+
+  return {
+    profile,
+    address,
+    publicClient,
+    walletClient,
+    clients,
+  };
+}
+
+/**
+ * The DividendDistributor the pool is wired to, read from the chain so the
+ * profile does not need its address
+ */
+export async function getWiredDistributor(ctx: CommandContext): Promise<DividendDistributorClient> {
+  return new DividendDistributorClient({
+    address: await ctx.clients.pool.dividendDistributor(),
+    client: ctx.walletClient,
+  });
+}
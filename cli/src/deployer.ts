@@ -0,0 +1,418 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  Abi,
+  Address,
+  Hash,
+  Hex,
+  getContractAddress,
+  isAddressEqual,
+  keccak256,
+  zeroAddress,
+} from 'viem';
+import { SignerContext } from './context.js';
+import { CliError } from './errors.js';
+import { readJournal } from './journal.js';
+import { getHomeDir } from './keystore.js';
+import { TransactionResult, log } from './output.js';
+import {
+  DividendDistributorClient,
+  ExitContributionClient,
+  SuccessPoolClient,
+  USDY_ROLES,
+  UsdyClient,
+  UsdyRole,
+} from './sdk/index.js';
+import { WriteCall, confirmTransaction, executeWrite, settleTransaction } from './transactions.js';
+
+/**
+ * Contracts deployed from forge artifacts, in the order they are deployed.
+ * Each one only needs the addresses of those before it.
+ */
+export const DEPLOYED_CONTRACTS = [
+  'USDY',
+  'ExitContribution',
+  'SuccessPool',
+  'DividendDistributor',
+] as const;
+
+export type DeployedContract = (typeof DEPLOYED_CONTRACTS)[number];
+
+/**
+ * ABI and creation code of a contract, as compiled by forge
+ */
+export interface Artifact {
+  name: DeployedContract;
+  path: string;
+  abi: Abi;
+  bytecode: Hex;
+}
+
+/**
+ * A USDY role to grant once the contracts are deployed
+ */
+export interface RoleGrant {
+  role: UsdyRole;
+  account: Address;
+}
+
+// A contract sent by a deployment, recorded before waiting for it to be mined
+interface DeployedRecord {
+  address: Address;
+  hash: Hash;
+  nonce: number;
+  // Hash of the creation code, so a resumed deployment notices recompiled contracts
+  bytecodeHash: Hash;
+}
+
+/**
+ * Progress of deploying the contracts for a network profile, kept so an
+ * interrupted deployment can be resumed by a later run
+ */
+export interface Deployment {
+  profile: string;
+  chainId: number;
+  deployer: Address;
+  // USDY deployed along with the pool, or the address of an existing one
+  usdy: 'deploy' | Address;
+  contracts: Partial<Record<DeployedContract, DeployedRecord>>;
+  startedAt: number;
+  completedAt: number | null;
+}
+
+export interface DeployRequest {
+  // Profile the addresses are saved to
+  profile: string;
+  artifactsDir: string;
+  usdy: 'deploy' | Address;
+  grants: RoleGrant[];
+  // Discard an earlier deployment for the profile instead of resuming it
+  fresh?: boolean;
+}
+
+export interface DeployedAddresses {
+  poolAddress: Address;
+  distributorAddress: Address;
+  usdyAddress: Address;
+  exitContributionAddress: Address;
+}
+
+export interface DeployReport {
+  addresses: DeployedAddresses;
+  // Contracts deployed by this run, the others were deployed by an earlier one
+  deployed: DeployedContract[];
+  transactions: TransactionResult[];
+  resumed: boolean;
+}
+
+// Roles the USDY constructor does not grant, given to the deployer of a new USDY
+// so it can run every `usdy` command. The constructor grants the other two.
+const DEPLOYER_USDY_ROLES: UsdyRole[] = ['BURNER', 'ORACLE', 'PAUSE'];
+
+function deploymentPath(chainId: number, profile: string): string {
+  return join(getHomeDir(), 'deployments', `${chainId}-${profile}.json`);
+}
+
+// Written to a temporary file first so a crash never leaves a truncated record
+function writeDeployment(deployment: Deployment) {
+  const path = deploymentPath(deployment.chainId, deployment.profile);
+  mkdirSync(join(getHomeDir(), 'deployments'), { recursive: true, mode: 0o700 });
+  writeFileSync(`${path}.tmp`, JSON.stringify(deployment, null, 2), { mode: 0o600 });
+  chmodSync(`${path}.tmp`, 0o600);
+  renameSync(`${path}.tmp`, path);
+}
+
+export function readDeployment(chainId: number, profile: string): Deployment | null {
+  const path = deploymentPath(chainId, profile);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+/**
+ * Read the forge artifact of a contract from the `out` directory
+ */
+export function readArtifact(dir: string, name: DeployedContract): Artifact {
+  const path = join(dir, `${name}.sol`, `${name}.json`);
+  if (!existsSync(path)) {
+    throw new CliError(
+      'ARTIFACT_NOT_FOUND',
+      `No compiled artifact for ${name} at ${path}`,
+      { contract: name, path },
+      'Compile the contracts with `forge build`, or point --artifacts at its out directory'
+    );
+  }
+
+  let artifact: any;
+  try {
+    artifact = JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new CliError('ARTIFACT_NOT_FOUND', `Artifact of ${name} is not JSON: ${path}`, { path });
+  }
+  const bytecode = artifact?.bytecode?.object;
+  if (
+    !Array.isArray(artifact.abi) ||
+    typeof bytecode !== 'string' ||
+    !/^0x[0-9a-f]+$/i.test(bytecode)
+  ) {
+    throw new CliError(
+      'ARTIFACT_NOT_FOUND',
+      `Artifact of ${name} has no ABI or creation code: ${path}`,
+      { path },
+      'Rebuild the contracts with `forge build`'
+    );
+  }
+  return { name, path, abi: artifact.abi, bytecode: bytecode as Hex };
+}
+
+// Pick up the recorded deployment for the profile, or start a new one
+function openDeployment(ctx: SignerContext, request: DeployRequest) {
+  const { chainId } = ctx.profile;
+  const existing = request.fresh ? null : readDeployment(chainId, request.profile);
+  if (!existing) {
+    const deployment: Deployment = {
+      profile: request.profile,
+      chainId,
+      deployer: ctx.address,
+      usdy: request.usdy,
+      contracts: {},
+      startedAt: Math.floor(Date.now() / 1000),
+      completedAt: null,
+    };
+    writeDeployment(deployment);
+    return { deployment, resumed: false };
+  }
+
+  // The contracts are administered by their deployer, so only it can wire them
+  if (!isAddressEqual(existing.deployer, ctx.address)) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `The deployment for "${request.profile}" was started by ${existing.deployer}, not ${ctx.address}`,
+      { deployer: existing.deployer, signer: ctx.address },
+      'Sign with that account using --account <alias>, or pass --fresh to deploy new contracts'
+    );
+  }
+  const sameUsdy =
+    existing.usdy === 'deploy' || request.usdy === 'deploy'
+      ? existing.usdy === request.usdy
+      : isAddressEqual(existing.usdy, request.usdy);
+  if (!sameUsdy) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `The deployment for "${request.profile}" was started with USDY ${existing.usdy === 'deploy' ? 'deployed along' : existing.usdy}`,
+      { usdy: existing.usdy },
+      'Run it again with the same USDY option, or pass --fresh to deploy new contracts'
+    );
+  }
+  return { deployment: existing, resumed: true };
+}
+
+async function hasCode(ctx: SignerContext, address: Address): Promise<boolean> {
+  const code = await ctx.publicClient.getBytecode({ address });
+  return Boolean(code && code !== '0x');
+}
+
+/**
+ * Deploy a contract unless the deployment already did. A contract an earlier
+ * run sent is waited for, and only deployed again when it can no longer be mined.
+ */
+async function deployContract(
+  ctx: SignerContext,
+  deployment: Deployment,
+  artifact: Artifact,
+  args: readonly unknown[],
+  report: DeployReport
+): Promise<Address> {
+  const { name } = artifact;
+  const bytecodeHash = keccak256(artifact.bytecode);
+  const recorded = deployment.contracts[name];
+
+  if (recorded) {
+    if (recorded.bytecodeHash !== bytecodeHash) {
+      throw new CliError(
+        'INVALID_ARGUMENT',
+        `${name} was recompiled since the deployment for "${deployment.profile}" sent it`,
+        { contract: name, address: recorded.address },
+        'Pass --fresh to deploy every contract from the new artifacts'
+      );
+    }
+    if (await hasCode(ctx, recorded.address)) {
+      log(`${name} already deployed at ${recorded.address}`);
+      return recorded.address;
+    }
+
+    const confirmedNonce = await ctx.publicClient.getTransactionCount({ address: ctx.address });
+    if (confirmedNonce <= recorded.nonce) {
+      log(`Waiting for ${name} sent by an earlier run`);
+      const mined = await confirmTransaction(ctx, recorded.hash).then(
+        () => true,
+        error => {
+          if (error instanceof CliError && error.code === 'TX_FAILED') return false;
+          throw error;
+        }
+      );
+      if (mined && (await hasCode(ctx, recorded.address))) {
+        report.deployed.push(name);
+        return recorded.address;
+      }
+    }
+    log(`${name} sent by an earlier run was not deployed, sending it again`);
+  }
+
+  log(`\nDeploying ${name}...`);
+  const nonce = await ctx.publicClient.getTransactionCount({
+    address: ctx.address,
+    blockTag: 'pending',
+  });
+  const address = getContractAddress({ from: ctx.address, nonce: BigInt(nonce) });
+  const hash = await ctx.walletClient.deployContract({
+    abi: artifact.abi,
+    bytecode: artifact.bytecode,
+    args,
+    account: ctx.walletClient.account,
+    chain: ctx.walletClient.chain,
+    nonce,
+  });
+
+  deployment.contracts[name] = { address, hash, nonce, bytecodeHash };
+  writeDeployment(deployment);
+
+  report.transactions.push(await confirmTransaction(ctx, hash));
+  if (!(await hasCode(ctx, address))) {
+    throw new CliError('CONTRACT_NOT_FOUND', `${name} was not deployed to ${address}`, {
+      address,
+      hash,
+    });
+  }
+  log(`${name} deployed at ${address}`);
+  report.deployed.push(name);
+  return address;
+}
+
+// Wait for wiring calls an interrupted run sent, so they are not sent twice
+async function settleEarlierWrites(ctx: SignerContext, intent: string) {
+  const pending = readJournal(ctx.profile.chainId, ctx.address).transactions.filter(
+    entry => entry.intent === intent && entry.status === 'pending'
+  );
+  for (const entry of pending) {
+    log(`Waiting for ${entry.functionName} sent by an earlier run`);
+    await confirmTransaction(ctx, entry.hash).catch(error => {
+      if (error instanceof CliError && error.code === 'TX_FAILED') return;
+      throw error;
+    });
+    await settleTransaction(ctx, entry);
+  }
+}
+
+/**
+ * Deploy the contracts from forge artifacts, wire them to each other and grant
+ * the USDY roles. Every step checks what is already done on chain or recorded
+ * for the profile, so running it again resumes an interrupted deployment and
+ * sends nothing once it is complete.
+ */
+export async function deployContracts(
+  ctx: SignerContext,
+  request: DeployRequest
+): Promise<DeployReport> {
+  const names = DEPLOYED_CONTRACTS.filter(name => name !== 'USDY' || request.usdy === 'deploy');
+  const artifacts = Object.fromEntries(
+    names.map(name => [name, readArtifact(request.artifactsDir, name)])
+  ) as Record<DeployedContract, Artifact>;
+
+  const { deployment, resumed } = openDeployment(ctx, request);
+  if (resumed) {
+    const started = new Date(deployment.startedAt * 1000).toLocaleString();
+    log(`Resuming the deployment for "${deployment.profile}" started ${started}`);
+  }
+  const report: DeployReport = {
+    addresses: {} as DeployedAddresses,
+    deployed: [],
+    transactions: [],
+    resumed,
+  };
+  const intent = `deploy ${deployment.profile}`;
+  await settleEarlierWrites(ctx, intent);
+
+  const usdyAddress =
+    request.usdy === 'deploy'
+      ? await deployContract(ctx, deployment, artifacts.USDY, [ctx.address], report)
+      : request.usdy;
+  const exitContributionAddress = await deployContract(
+    ctx,
+    deployment,
+    artifacts.ExitContribution,
+    [],
+    report
+  );
+  // The distributor is deployed for the pool, so the pool starts without one
+  const poolAddress = await deployContract(
+    ctx,
+    deployment,
+    artifacts.SuccessPool,
+    [exitContributionAddress, zeroAddress, usdyAddress],
+    report
+  );
+  const distributorAddress = await deployContract(
+    ctx,
+    deployment,
+    artifacts.DividendDistributor,
+    [poolAddress],
+    report
+  );
+
+  const client = ctx.walletClient;
+  const pool = new SuccessPoolClient({ address: poolAddress, client });
+  const exitContribution = new ExitContributionClient({ address: exitContributionAddress, client });
+  const distributor = new DividendDistributorClient({ address: distributorAddress, client });
+  const usdy = new UsdyClient({ address: usdyAddress, client });
+
+  const calls: WriteCall[] = [];
+  const wiredDistributor = await pool.dividendDistributor();
+  if (!isAddressEqual(wiredDistributor, distributor.address)) {
+    calls.push({
+      contract: pool,
+      functionName: 'setDividendDistributor',
+      args: [distributor.address],
+      send: options => pool.setDividendDistributor(distributor.address, options),
+    });
+  }
+  const wiredPool = await exitContribution.poolContract();
+  if (!isAddressEqual(wiredPool, pool.address)) {
+    calls.push({
+      contract: exitContribution,
+      functionName: 'setPoolContract',
+      args: [pool.address],
+      send: options => exitContribution.setPoolContract(pool.address, options),
+    });
+  }
+
+  const grants = [
+    ...(request.usdy === 'deploy'
+      ? DEPLOYER_USDY_ROLES.map(role => ({ role, account: ctx.address }))
+      : []),
+    ...request.grants,
+  ];
+  for (const [index, { role, account }] of grants.entries()) {
+    const duplicate = grants
+      .slice(0, index)
+      .some(earlier => earlier.role === role && isAddressEqual(earlier.account, account));
+    if (duplicate || (await usdy.hasRole(USDY_ROLES[role], account))) continue;
+    calls.push({
+      contract: usdy,
+      functionName: 'grantRole',
+      args: [USDY_ROLES[role], account],
+      send: options => usdy.grantRole(USDY_ROLES[role], account, options),
+    });
+  }
+
+  for (const call of calls) {
+    log(`\n${call.functionName}(${(call.args ?? []).join(', ')})`);
+    const { transaction } = await executeWrite(ctx, { ...call, intent });
+    if (transaction) report.transactions.push(transaction);
+  }
+
+  deployment.completedAt = deployment.completedAt ?? Math.floor(Date.now() / 1000);
+  writeDeployment(deployment);
+
+  report.addresses = { poolAddress, distributorAddress, usdyAddress, exitContributionAddress };
+  return report;
+}
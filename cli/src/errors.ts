@@ -0,0 +1,95 @@
+import { ConfigError } from './config.js';
+import { KeystoreError } from './keystore.js';
+import { RevertCode, decodeRevert } from './sdk/index.js';
+
+/**
+ * Stable error codes reported in --json output. Contract reverts keep the
+ * code of their decoded revert.
+ */
+export type ErrorCode =
+  | RevertCode
+  | 'CONFIG_INVALID'
+  | 'KEYSTORE_ERROR'
+  | 'INVALID_ARGUMENT'
+  | 'RPC_UNAVAILABLE'
+  | 'CHAIN_MISMATCH'
+  | 'CONTRACT_NOT_FOUND'
+  | 'DEPLOYMENT_MISCONFIGURED'
+  | 'ARTIFACT_NOT_FOUND'
+  | 'INDEX_NOT_FOUND'
+  | 'SCENARIO_INVALID'
+  | 'CLAIM_RESTRICTED_TO_POOL'
+  | 'CONFIRMATION_REQUIRED'
+  | 'CANCELLED'
+  | 'AUTH_REQUIRED'
+  | 'ROUTE_NOT_FOUND'
+  | 'TX_WOULD_REVERT'
+  | 'TX_NO_HASH'
+  | 'TX_FAILED'
+  | 'TX_TIMEOUT'
+  | 'TX_NOT_FOUND'
+  | 'TX_NOT_PENDING'
+  | 'TX_STALE'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * An expected failure of a command, carrying a stable code and optional details
+ */
+export class CliError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    // Suggested next step for the user
+    readonly action?: string
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface ErrorResult {
+  code: ErrorCode;
+  message: string;
+  action?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Convert any thrown value into a structured error result
+ */
+export function toErrorResult(error: any): ErrorResult {
+  if (error instanceof CliError) {
+    return {
+      code: error.code,
+      message: error.message,
+      action: error.action,
+      details: error.details,
+    };
+  }
+  if (error instanceof ConfigError) {
+    return {
+      code: 'CONFIG_INVALID',
+      message: error.message,
+      details: { problems: error.problems },
+    };
+  }
+  if (error instanceof KeystoreError) {
+    return { code: 'KEYSTORE_ERROR', message: error.message };
+  }
+
+  const revert = decodeRevert(error);
+  if (revert) {
+    return {
+      code: revert.code,
+      message: revert.explanation,
+      action: revert.action,
+      details: { reason: revert.reason, args: revert.args },
+    };
+  }
+
+  return {
+    code: 'UNKNOWN_ERROR',
+    message: error?.shortMessage ?? error?.message ?? 'Unknown error occurred',
+  };
+}
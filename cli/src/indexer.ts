@@ -0,0 +1,281 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  Abi,
+  Address,
+  Hash,
+  Log,
+  PublicClient,
+  decodeEventLog,
+  isAddressEqual,
+  zeroAddress,
+} from 'viem';
+import { PublicContext } from './context.js';
+import { getHomeDir } from './keystore.js';
+import { dividendDistributorAbi, exitContributionAbi, successPoolAbi } from './sdk/index.js';
+
+export type IndexedContract = 'pool' | 'exitContribution' | 'distributor';
+
+// Public events synced per contract. Amounts are shielded and never emitted.
+const INDEXED_EVENTS: Record<IndexedContract, { abi: Abi; events: string[] }> = {
+  pool: {
+    abi: successPoolAbi,
+    events: ['MemberJoined', 'MemberLeft', 'ContributionReceived', 'DividendsDistributed'],
+  },
+  exitContribution: {
+    abi: exitContributionAbi,
+    events: ['ContributionProcessed'],
+  },
+  distributor: {
+    abi: dividendDistributorAbi,
+    events: ['DividendsDistributed', 'CommitmentUpdated', 'DividendsClaimed'],
+  },
+};
+
+// Block hashes kept to detect reorgs of already indexed blocks
+const MAX_CHECKPOINTS = 64;
+
+// Blocks per eth_getLogs request
+export const DEFAULT_BATCH_SIZE = 5000n;
+
+const STORE_VERSION = 1;
+
+export interface IndexedEvent {
+  name: string;
+  contract: IndexedContract;
+  blockNumber: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  timestamp: number;
+  args: Record<string, string>;
+}
+
+interface Checkpoint {
+  number: number;
+  hash: Hash;
+}
+
+export interface EventStore {
+  version: number;
+  chainId: number;
+  contracts: Record<IndexedContract, Address | null>;
+  fromBlock: number;
+  // Last block whose logs are in the store, null before the first batch
+  cursor: number | null;
+  checkpoints: Checkpoint[];
+  events: IndexedEvent[];
+}
+
+export interface SyncOptions {
+  fromBlock?: bigint;
+  batchSize: bigint;
+  reset?: boolean;
+  onBatch?: (progress: { toBlock: number; latest: number; added: number }) => void;
+}
+
+export interface SyncResult {
+  path: string;
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  // Block the store was rewound to after a reorg, null when none was found
+  reorgRewoundTo: number | null;
+  removed: number;
+  totalEvents: number;
+}
+
+/**
+ * Location of the event store of a pool, under the CLI home directory
+ */
+export function eventStorePath(chainId: number, pool: Address): string {
+  return join(getHomeDir(), 'index', `${chainId}-${pool.toLowerCase()}.json`);
+}
+
+export function readEventStore(path: string): EventStore | null {
+  if (!existsSync(path)) return null;
+  const store = JSON.parse(readFileSync(path, 'utf8')) as EventStore;
+  return store.version === STORE_VERSION ? store : null;
+}
+
+// Written to a temporary file first so an interrupted sync never leaves a truncated store
+function writeEventStore(path: string, store: EventStore) {
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(store));
+  renameSync(`${path}.tmp`, path);
+}
+
+async function resolveContracts(ctx: PublicContext): Promise<EventStore['contracts']> {
+  const pool = ctx.profile.poolAddress;
+  const read = (functionName: 'exitContribution' | 'dividendDistributor') =>
+    ctx.publicClient.readContract({
+      abi: successPoolAbi,
+      address: pool,
+      functionName,
+    }) as Promise<Address>;
+
+  const [exitContribution, distributor] = await Promise.all([
+    read('exitContribution'),
+    read('dividendDistributor'),
+  ]);
+  return {
+    pool,
+    exitContribution,
+    distributor: isAddressEqual(distributor, zeroAddress) ? null : distributor,
+  };
+}
+
+function sameContracts(a: EventStore['contracts'], b: EventStore['contracts']): boolean {
+  return (Object.keys(a) as IndexedContract[]).every(key => {
+    const [left, right] = [a[key], b[key]];
+    return left === null || right === null ? left === right : isAddressEqual(left, right);
+  });
+}
+
+async function blockHash(client: PublicClient, number: number): Promise<Hash | null> {
+  try {
+    return (await client.getBlock({ blockNumber: BigInt(number) })).hash;
+  } catch {
+    // The block no longer exists on a shorter canonical chain
+    return null;
+  }
+}
+
+/**
+ * Rewind the store to the newest checkpoint still on the canonical chain,
+ * dropping the events indexed after it. Returns the block rewound to.
+ */
+async function rewindReorg(client: PublicClient, store: EventStore): Promise<number | null> {
+  const { checkpoints } = store;
+  for (let index = checkpoints.length - 1; index >= 0; index--) {
+    const checkpoint = checkpoints[index];
+    if ((await blockHash(client, checkpoint.number)) !== checkpoint.hash) continue;
+    if (index === checkpoints.length - 1) return null;
+
+    store.checkpoints = checkpoints.slice(0, index + 1);
+    store.events = store.events.filter(event => event.blockNumber <= checkpoint.number);
+    store.cursor = checkpoint.number;
+    return checkpoint.number;
+  }
+
+  // Nothing indexed survived, start over
+  if (checkpoints.length === 0) return null;
+  store.checkpoints = [];
+  store.events = [];
+  store.cursor = null;
+  return store.fromBlock;
+}
+
+function decodeLog(store: EventStore, log: Log): Omit<IndexedEvent, 'timestamp'> | null {
+  const contract = (Object.keys(store.contracts) as IndexedContract[]).find(key => {
+    const address = store.contracts[key];
+    return address !== null && isAddressEqual(address, log.address);
+  });
+  if (!contract) return null;
+
+  const { abi, events } = INDEXED_EVENTS[contract];
+  let decoded;
+  try {
+    decoded = decodeEventLog({ abi, data: log.data, topics: log.topics });
+  } catch {
+    return null;
+  }
+  if (!decoded.eventName || !events.includes(decoded.eventName)) return null;
+
+  const args = Object.fromEntries(
+    Object.entries((decoded.args ?? {}) as Record<string, unknown>).map(([key, value]) => [
+      key,
+      String(value),
+    ])
+  );
+  return {
+    name: decoded.eventName,
+    contract,
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash as Hash,
+    transactionHash: log.transactionHash as Hash,
+    logIndex: Number(log.logIndex),
+    args,
+  };
+}
+
+/**
+ * Sync the public events of the pool, ExitContribution and DividendDistributor
+ * into the local store, resuming from its cursor. The store is saved after
+ * every batch so an interrupted sync resumes where it stopped.
+ */
+export async function syncEvents(ctx: PublicContext, options: SyncOptions): Promise<SyncResult> {
+  const { publicClient: client, profile } = ctx;
+  const path = eventStorePath(profile.chainId, profile.poolAddress);
+  const contracts = await resolveContracts(ctx);
+
+  const existing = options.reset ? null : readEventStore(path);
+  // Rewiring the pool changes which logs belong in the store, so it starts over
+  const store: EventStore =
+    existing && existing.chainId === profile.chainId && sameContracts(existing.contracts, contracts)
+      ? existing
+      : {
+          version: STORE_VERSION,
+          chainId: profile.chainId,
+          contracts,
+          fromBlock: Number(options.fromBlock ?? 0n),
+          cursor: null,
+          checkpoints: [],
+          events: [],
+        };
+
+  const before = store.events.length;
+  const reorgRewoundTo = await rewindReorg(client, store);
+  const removed = before - store.events.length;
+
+  const latest = Number(await client.getBlockNumber());
+  const start = store.cursor === null ? store.fromBlock : store.cursor + 1;
+  const addresses = Object.values(store.contracts).filter(
+    (address): address is Address => address !== null
+  );
+  let added = 0;
+
+  for (let from = start; from <= latest; from += Number(options.batchSize)) {
+    const to = Math.min(from + Number(options.batchSize) - 1, latest);
+    const logs = await client.getLogs({
+      address: addresses,
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+    });
+
+    const decoded = logs
+      .map(log => decodeLog(store, log))
+      .filter((event): event is Omit<IndexedEvent, 'timestamp'> => event !== null);
+
+    // Only some events carry a timestamp argument, so read it from the block
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(decoded.map(event => event.blockNumber))) {
+      const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+      timestamps.set(blockNumber, Number(block.timestamp));
+    }
+
+    store.events.push(
+      ...decoded.map(event => ({ ...event, timestamp: timestamps.get(event.blockNumber)! }))
+    );
+    store.cursor = to;
+    const hash = await blockHash(client, to);
+    if (hash) {
+      store.checkpoints = [...store.checkpoints, { number: to, hash }].slice(-MAX_CHECKPOINTS);
+    }
+    writeEventStore(path, store);
+
+    added += decoded.length;
+    options.onBatch?.({ toBlock: to, latest, added });
+  }
+
+  writeEventStore(path, store);
+  return {
+    path,
+    fromBlock: start,
+    toBlock: latest,
+    added,
+    reorgRewoundTo,
+    removed,
+    totalEvents: store.events.length,
+  };
+}
@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Address, Hash } from 'viem';
+import { getHomeDir } from './keystore.js';
+
+export type TransactionStatus = 'pending' | 'success' | 'reverted' | 'replaced';
+
+/**
+ * A transaction sent by the CLI. The arguments are recorded in plaintext
+ * since shielded calldata cannot be decrypted afterwards.
+ */
+export interface JournalEntry {
+  hash: Hash;
+  chainId: number;
+  from: Address;
+  to: Address;
+  functionName: string;
+  args: string[];
+  // What the user asked for, e.g. "contribute 1.5 USDY"
+  intent: string;
+  // Flow and step this transaction belongs to, null for single writes
+  flowId: string | null;
+  step: number | null;
+  nonce: number;
+  gasLimit: string;
+  gasPrice: string;
+  sentAt: number;
+  status: TransactionStatus;
+  blockNumber: number | null;
+  // Transaction sent with the same nonce to speed this one up or cancel it
+  replacedBy: Hash | null;
+}
+
+/**
+ * A call planned as part of a flow, kept so the flow can be resumed by a
+ * later process
+ */
+export interface FlowStep {
+  to: Address;
+  functionName: string;
+  args: string[];
+}
+
+// A flow is abandoned when the same command is started again with other arguments
+export type FlowStatus = 'open' | 'done' | 'failed' | 'cancelled' | 'abandoned';
+
+/**
+ * Writes that must all be sent in order for one command, like the approval
+ * and the contribution of `contribute`
+ */
+export interface JournalFlow {
+  id: string;
+  intent: string;
+  steps: FlowStep[];
+  startedAt: number;
+  status: FlowStatus;
+}
+
+export interface Journal {
+  transactions: JournalEntry[];
+  flows: JournalFlow[];
+}
+
+function journalPath(chainId: number, account: Address): string {
+  return join(getHomeDir(), 'journal', `${chainId}-${account.toLowerCase()}.json`);
+}
+
+/**
+ * Transactions and flows of an account on a chain, oldest first
+ */
+export function readJournal(chainId: number, account: Address): Journal {
+  const path = journalPath(chainId, account);
+  if (!existsSync(path)) return { transactions: [], flows: [] };
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+// Holds the plaintext of shielded arguments, so only the owner may read it.
+// Written to a temporary file first so a crash never leaves a truncated journal.
+function writeJournal(chainId: number, account: Address, journal: Journal) {
+  const path = journalPath(chainId, account);
+  mkdirSync(join(getHomeDir(), 'journal'), { recursive: true, mode: 0o700 });
+  writeFileSync(`${path}.tmp`, JSON.stringify(journal, null, 2), { mode: 0o600 });
+  chmodSync(`${path}.tmp`, 0o600);
+  renameSync(`${path}.tmp`, path);
+}
+
+function updateJournal(chainId: number, account: Address, update: (journal: Journal) => void) {
+  const journal = readJournal(chainId, account);
+  update(journal);
+  writeJournal(chainId, account, journal);
+}
+
+export function recordTransaction(
+  entry: Omit<JournalEntry, 'status' | 'blockNumber' | 'replacedBy'>
+) {
+  updateJournal(entry.chainId, entry.from, journal => {
+    journal.transactions.push({ ...entry, status: 'pending', blockNumber: null, replacedBy: null });
+  });
+}
+
+export function updateTransaction(
+  chainId: number,
+  account: Address,
+  hash: Hash,
+  update: Partial<Pick<JournalEntry, 'status' | 'blockNumber' | 'replacedBy'>>
+) {
+  updateJournal(chainId, account, journal => {
+    const entry = journal.transactions.find(candidate => candidate.hash === hash);
+    if (entry) Object.assign(entry, update);
+  });
+}
+
+/**
+ * Start a flow, or pick up the open one planned with the same steps so an
+ * interrupted command continues where it stopped
+ */
+export function openFlow(
+  chainId: number,
+  account: Address,
+  intent: string,
+  steps: FlowStep[]
+): { flow: JournalFlow; resumed: boolean } {
+  const key = JSON.stringify(steps);
+  const existing = readJournal(chainId, account).flows.find(
+    flow => flow.status === 'open' && JSON.stringify(flow.steps) === key
+  );
+  if (existing) return { flow: existing, resumed: true };
+
+  const kind = (candidate: FlowStep[]) =>
+    candidate.map(step => `${step.to.toLowerCase()}.${step.functionName}`).join();
+
+  const flow: JournalFlow = {
+    id: randomUUID(),
+    intent,
+    steps,
+    startedAt: Math.floor(Date.now() / 1000),
+    status: 'open',
+  };
+  updateJournal(chainId, account, journal => {
+    for (const previous of journal.flows) {
+      if (previous.status === 'open' && kind(previous.steps) === kind(steps)) {
+        previous.status = 'abandoned';
+      }
+    }
+    journal.flows.push(flow);
+  });
+  return { flow, resumed: false };
+}
+
+export function updateFlow(chainId: number, account: Address, id: string, status: FlowStatus) {
+  updateJournal(chainId, account, journal => {
+    const flow = journal.flows.find(candidate => candidate.id === id);
+    if (flow) flow.status = status;
+  });
+}
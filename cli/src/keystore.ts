@@ -0,0 +1,220 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { Address, Hex } from 'viem';
+import { warn } from './output.js';
+import { promptSecret } from './prompt.js';
+
+export interface KeystoreAccount {
+  alias: string;
+  address: Address;
+}
+
+export interface UnlockedAccount extends KeystoreAccount {
+  privateKey: Hex;
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+const ALIAS_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Directory holding keystores and CLI state, defaults to ~/.founder-hedge
+ */
+export function getHomeDir(): string {
+  return process.env.FOUNDER_HEDGE_HOME ?? join(homedir(), '.founder-hedge');
+}
+
+function getKeystoreDir(): string {
+  return join(getHomeDir(), 'keystores');
+}
+
+function getStatePath(): string {
+  return join(getHomeDir(), 'accounts.json');
+}
+
+function keystorePath(alias: string): string {
+  return join(getKeystoreDir(), `${alias}.json`);
+}
+
+function validateAlias(alias: string) {
+  if (!ALIAS_PATTERN.test(alias)) {
+    throw new KeystoreError('Account alias may only contain letters, numbers, "-" and "_"');
+  }
+}
+
+function readState(): { active?: string } {
+  if (!existsSync(getStatePath())) return {};
+  return JSON.parse(readFileSync(getStatePath(), 'utf8'));
+}
+
+function writePrivateFile(path: string, contents: string) {
+  mkdirSync(getKeystoreDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(path, contents, { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Prompt for a passphrase, FOUNDER_HEDGE_PASSPHRASE is used instead when set
+ */
+export async function promptPassphrase(message: string, confirm = false): Promise<string> {
+  if (process.env.FOUNDER_HEDGE_PASSPHRASE) {
+    return process.env.FOUNDER_HEDGE_PASSPHRASE;
+  }
+
+  const passphrase = await promptSecret(message);
+  if (!passphrase) {
+    throw new KeystoreError('Passphrase must not be empty');
+  }
+
+  if (confirm) {
+    const repeated = await promptSecret('Repeat passphrase:');
+    if (repeated !== passphrase) {
+      throw new KeystoreError('Passphrases do not match');
+    }
+  }
+
+  return passphrase;
+}
+
+/**
+ * Encrypt a private key into a JSON keystore under the given alias
+ */
+export async function saveAccount(
+  alias: string,
+  privateKey: string,
+  passphrase: string
+): Promise<KeystoreAccount> {
+  validateAlias(alias);
+  if (existsSync(keystorePath(alias))) {
+    throw new KeystoreError(`Account "${alias}" already exists`);
+  }
+
+  const wallet = new ethers.Wallet(privateKey);
+  const json = await wallet.encrypt(passphrase);
+  writePrivateFile(keystorePath(alias), json);
+
+  // The first account becomes the active one
+  if (!readState().active) {
+    setActiveAccount(alias);
+  }
+
+  return { alias, address: wallet.address as Address };
+}
+
+export function listAccounts(): KeystoreAccount[] {
+  if (!existsSync(getKeystoreDir())) return [];
+
+  return readdirSync(getKeystoreDir())
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const { address } = JSON.parse(readFileSync(join(getKeystoreDir(), file), 'utf8'));
+      return {
+        alias: file.slice(0, -'.json'.length),
+        address: ethers.getAddress(address) as Address,
+      };
+    })
+    .sort((a, b) => a.alias.localeCompare(b.alias));
+}
+
+export function getActiveAccount(): string | undefined {
+  return readState().active;
+}
+
+export function setActiveAccount(alias: string) {
+  validateAlias(alias);
+  if (!existsSync(keystorePath(alias))) {
+    throw new KeystoreError(`Account "${alias}" not found`);
+  }
+  mkdirSync(getHomeDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(getStatePath(), JSON.stringify({ ...readState(), active: alias }, null, 2));
+}
+
+/**
+ * Decrypt the keystore for an alias, prompting for its passphrase
+ */
+export async function unlockAccount(alias: string): Promise<UnlockedAccount> {
+  validateAlias(alias);
+  if (!existsSync(keystorePath(alias))) {
+    throw new KeystoreError(
+      `Account "${alias}" not found. Create one with: founder-hedge account create`
+    );
+  }
+
+  const json = readFileSync(keystorePath(alias), 'utf8');
+  const passphrase = await promptPassphrase(`Passphrase for account "${alias}":`);
+
+  try {
+    const wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+    return {
+      alias,
+      address: wallet.address as Address,
+      privateKey: wallet.privateKey as Hex,
+    };
+  } catch {
+    throw new KeystoreError(`Wrong passphrase for account "${alias}"`);
+  }
+}
+
+// Opts in to signing with the plaintext PRIVATE_KEY when no account is configured
+const PLAINTEXT_KEY_OPT_IN = 'FOUNDER_HEDGE_PLAINTEXT_KEY';
+
+// The PRIVATE_KEY wallet, only when explicitly allowed so a key left in a .env
+// file is never picked up silently
+function plaintextWallet(): ethers.Wallet {
+  if (!process.env.PRIVATE_KEY) {
+    throw new KeystoreError(
+      'No account configured. Create one with: founder-hedge account create <alias>'
+    );
+  }
+  if (process.env[PLAINTEXT_KEY_OPT_IN] !== '1') {
+    throw new KeystoreError(
+      'No account configured, and PRIVATE_KEY is ignored. Import it into an encrypted keystore ' +
+        `with: founder-hedge account import <alias>, or set ${PLAINTEXT_KEY_OPT_IN}=1 to sign with it`
+    );
+  }
+  return new ethers.Wallet(process.env.PRIVATE_KEY);
+}
+
+/**
+ * Address of the signer loadSigner would unlock, read without unlocking it
+ */
+export function getSignerAddress(alias?: string): Address {
+  const selected = alias ?? process.env.FOUNDER_HEDGE_ACCOUNT ?? getActiveAccount();
+  if (selected) {
+    const account = listAccounts().find(candidate => candidate.alias === selected);
+    if (!account) throw new KeystoreError(`Account "${selected}" not found`);
+    return account.address;
+  }
+
+  return plaintextWallet().address as Address;
+}
+
+/**
+ * Resolve the signer for a command: --account, then FOUNDER_HEDGE_ACCOUNT,
+ * then the active account. PRIVATE_KEY is only used when no account is set up
+ * and FOUNDER_HEDGE_PLAINTEXT_KEY=1 opts in to it.
+ */
+export async function loadSigner(alias?: string): Promise<UnlockedAccount> {
+  const selected = alias ?? process.env.FOUNDER_HEDGE_ACCOUNT ?? getActiveAccount();
+  if (selected) {
+    return unlockAccount(selected);
+  }
+
+  const wallet = plaintextWallet();
+  warn(
+    `Signing with the plaintext PRIVATE_KEY of ${wallet.address}. ` +
+      'Move it to an encrypted keystore with `founder-hedge account import <alias>`'
+  );
+  return {
+    alias: 'PRIVATE_KEY',
+    address: wallet.address as Address,
+    privateKey: wallet.privateKey as Hex,
+  };
+}
@@ -0,0 +1,321 @@
+import { chmodSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { Abi, Address, Hash, Hex, isAddressEqual } from 'viem';
+import { PublicContext } from './context.js';
+import { CliError } from './errors.js';
+import { readJournal, recordTransaction, updateTransaction } from './journal.js';
+import { UnlockedAccount } from './keystore.js';
+import { TransactionResult, assertSuccess, log } from './output.js';
+import {
+  encodeShieldedCalldata,
+  parseCallArgs,
+  signShieldedTransaction,
+  successPoolAbi,
+  usdyAbi,
+} from './sdk/index.js';
+import { checkEvents, confirmTransaction, gasLimitFor, poolWriteEvents } from './transactions.js';
+
+// Version of the transaction files, checked before signing or broadcasting
+export const OFFLINE_FORMAT = 'founder-hedge-offline-tx/1';
+
+// Contracts whose calls can be signed offline, the signer checks calldata against their ABIs
+const OFFLINE_ABIS = { pool: successPoolAbi, usdy: usdyAbi } as const satisfies Record<string, Abi>;
+
+export type OfflineContract = keyof typeof OFFLINE_ABIS;
+
+/**
+ * A write to build into a transaction file
+ */
+export interface OfflineCall {
+  contract: OfflineContract;
+  to: Address;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+interface OfflineTransaction {
+  contract: OfflineContract;
+  to: Address;
+  functionName: string;
+  // Recorded as strings, like the journal does
+  args: string[];
+  nonce: number;
+  gas: string;
+  gasPrice: string;
+  value: string;
+}
+
+export interface UnsignedTransaction extends OfflineTransaction {
+  // Plaintext calldata, encrypted by the signer
+  data: Hex;
+}
+
+export interface SignedTransaction extends OfflineTransaction {
+  hash: Hash;
+  raw: Hex;
+  encryptionPubkey: Hex;
+}
+
+interface OfflineFileBase {
+  format: typeof OFFLINE_FORMAT;
+  // What the transactions do, e.g. "contribute 1.5 USDY"
+  intent: string;
+  network: {
+    name: string;
+    chainId: number;
+    // Public key of the network's TEE, the calldata is encrypted to it when signing
+    teePublicKey: Hex;
+  };
+  from: Address;
+  builtAt: number;
+}
+
+export interface UnsignedFile extends OfflineFileBase {
+  kind: 'unsigned';
+  transactions: UnsignedTransaction[];
+}
+
+export interface SignedFile extends OfflineFileBase {
+  kind: 'signed';
+  signedAt: number;
+  transactions: SignedTransaction[];
+}
+
+/**
+ * Read a transaction file and check it is of the expected kind
+ */
+export function readOfflineFile(path: string, kind: 'unsigned'): UnsignedFile;
+export function readOfflineFile(path: string, kind: 'signed'): SignedFile;
+export function readOfflineFile(path: string, kind: 'unsigned' | 'signed') {
+  if (!existsSync(path)) {
+    throw new CliError('INVALID_ARGUMENT', `Transaction file not found: ${path}`);
+  }
+  let file: any;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new CliError('INVALID_ARGUMENT', `Transaction file is not JSON: ${path}`);
+  }
+  if (file?.format !== OFFLINE_FORMAT || !Array.isArray(file.transactions)) {
+    throw new CliError('INVALID_ARGUMENT', `Not a ${OFFLINE_FORMAT} transaction file: ${path}`);
+  }
+  if (file.kind !== kind) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `${path} holds ${file.kind} transactions, expected ${kind} ones`,
+      undefined,
+      kind === 'unsigned'
+        ? 'Broadcast it with `founder-hedge tx broadcast`'
+        : 'Sign it first with `founder-hedge tx sign`'
+    );
+  }
+  return file;
+}
+
+// Holds the plaintext arguments of shielded calls, so only the owner may read it
+export function writeOfflineFile(path: string, file: UnsignedFile | SignedFile) {
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Prepare writes for an account whose key is kept elsewhere: nonces from its
+ * pending transactions, gas limits, the gas price and the network's encryption key
+ */
+export async function buildTransactions(
+  ctx: PublicContext,
+  from: Address,
+  intent: string,
+  calls: OfflineCall[]
+): Promise<UnsignedFile> {
+  const { publicClient, profile } = ctx;
+  const [teePublicKey, nonce, gasPrice] = await Promise.all([
+    publicClient.request<{ Parameters?: undefined; ReturnType: string }>({
+      method: 'seismic_getTeePublicKey',
+    }),
+    publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+    publicClient.getGasPrice(),
+  ]);
+
+  const transactions: UnsignedTransaction[] = [];
+  for (const [index, call] of calls.entries()) {
+    const data = encodeShieldedCalldata(OFFLINE_ABIS[call.contract], call.functionName, call.args);
+    // Later calls depend on the earlier ones, which are not mined yet
+    const gasEstimate = await publicClient
+      .estimateGas({ account: from, to: call.to, data })
+      .catch(() => null);
+    const gas = gasLimitFor(gasEstimate);
+    if (gasEstimate === null) {
+      log(`Could not estimate gas of ${call.functionName}, using a limit of ${gas}`);
+    }
+    transactions.push({
+      contract: call.contract,
+      to: call.to,
+      functionName: call.functionName,
+      args: call.args.map(String),
+      nonce: nonce + index,
+      gas: gas.toString(),
+      gasPrice: gasPrice.toString(),
+      value: '0',
+      data,
+    });
+  }
+
+  return {
+    format: OFFLINE_FORMAT,
+    kind: 'unsigned',
+    intent,
+    network: {
+      name: profile.name,
+      chainId: profile.chainId,
+      teePublicKey: (teePublicKey.startsWith('0x') ? teePublicKey : `0x${teePublicKey}`) as Hex,
+    },
+    from,
+    builtAt: Math.floor(Date.now() / 1000),
+    transactions,
+  };
+}
+
+/**
+ * Encrypt and sign built transactions, without a connection to the network.
+ * Calldata that does not match the listed calls is refused, so what was
+ * reviewed is what gets signed.
+ */
+export async function signTransactions(
+  file: UnsignedFile,
+  signer: UnlockedAccount
+): Promise<SignedFile> {
+  if (!isAddressEqual(file.from, signer.address)) {
+    throw new CliError(
+      'INVALID_ARGUMENT',
+      `The transactions were built for ${file.from}, not for ${signer.address}`,
+      { from: file.from, signer: signer.address },
+      'Sign with that account using --account <alias>'
+    );
+  }
+
+  const transactions: SignedTransaction[] = [];
+  for (const transaction of file.transactions) {
+    const { data, ...rest } = transaction;
+    const abi = OFFLINE_ABIS[transaction.contract];
+    let expected: Hex | null = null;
+    try {
+      const args = parseCallArgs(abi, transaction.functionName, transaction.args);
+      expected = encodeShieldedCalldata(abi, transaction.functionName, args);
+    } catch {
+      // An unknown contract or function never matches
+    }
+    if (expected?.toLowerCase() !== data.toLowerCase()) {
+      throw new CliError(
+        'INVALID_ARGUMENT',
+        `Calldata of nonce ${transaction.nonce} does not match ${transaction.functionName}(${transaction.args.join(', ')})`,
+        { nonce: transaction.nonce }
+      );
+    }
+
+    const signed = await signShieldedTransaction(signer.privateKey, {
+      chainId: file.network.chainId,
+      nonce: transaction.nonce,
+      gasPrice: BigInt(transaction.gasPrice),
+      gas: BigInt(transaction.gas),
+      to: transaction.to,
+      value: BigInt(transaction.value),
+      data,
+      teePublicKey: file.network.teePublicKey,
+    });
+    transactions.push({ ...rest, ...signed });
+  }
+
+  return {
+    ...file,
+    kind: 'signed',
+    signedAt: Math.floor(Date.now() / 1000),
+    transactions,
+  };
+}
+
+/**
+ * Send signed transactions in order, waiting for each to be mined. Running it
+ * again waits for what was already sent instead of sending it twice.
+ */
+export async function broadcastTransactions(
+  ctx: PublicContext,
+  file: SignedFile
+): Promise<TransactionResult[]> {
+  const { publicClient, profile } = ctx;
+  if (file.network.chainId !== profile.chainId) {
+    throw new CliError(
+      'CHAIN_MISMATCH',
+      `The transactions were signed for chain ${file.network.chainId}, not ${profile.chainId} of network "${profile.name}"`,
+      { expected: file.network.chainId, actual: profile.chainId }
+    );
+  }
+
+  const results: TransactionResult[] = [];
+  for (const [index, transaction] of file.transactions.entries()) {
+    const { hash } = transaction;
+    log(`\nTransaction ${index + 1} of ${file.transactions.length}: ${transaction.functionName}`);
+
+    const journaled = readJournal(profile.chainId, file.from).transactions.some(
+      entry => entry.hash === hash
+    );
+    const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+    if (receipt) {
+      log(`Already mined in block ${receipt.blockNumber}`);
+      results.push(assertSuccess(receipt));
+      continue;
+    }
+
+    if (!journaled) {
+      const confirmedNonce = await publicClient.getTransactionCount({ address: file.from });
+      if (confirmedNonce > transaction.nonce) {
+        throw new CliError(
+          'TX_STALE',
+          `Nonce ${transaction.nonce} of ${file.from} was already used by another transaction`,
+          { nonce: transaction.nonce, confirmedNonce },
+          'Build and sign the transactions again'
+        );
+      }
+
+      log('Broadcasting signed transaction...');
+      await publicClient.sendRawTransaction({ serializedTransaction: transaction.raw });
+      recordTransaction({
+        hash,
+        chainId: profile.chainId,
+        from: file.from,
+        to: transaction.to,
+        functionName: transaction.functionName,
+        args: transaction.args,
+        intent: file.intent,
+        flowId: null,
+        step: null,
+        nonce: transaction.nonce,
+        gasLimit: transaction.gas,
+        gasPrice: transaction.gasPrice,
+        sentAt: Math.floor(Date.now() / 1000),
+      });
+    }
+
+    try {
+      const result = await confirmTransaction(ctx, hash);
+      updateTransaction(profile.chainId, file.from, hash, {
+        status: 'success',
+        blockNumber: Number(result.blockNumber),
+      });
+      const expected = isAddressEqual(transaction.to, profile.poolAddress)
+        ? await poolWriteEvents(ctx, transaction.functionName)
+        : [];
+      await checkEvents(ctx, result, expected);
+      results.push(result);
+    } catch (error) {
+      if (error instanceof CliError && error.code === 'TX_FAILED') {
+        const { blockNumber } = error.details?.transaction as TransactionResult;
+        updateTransaction(profile.chainId, file.from, hash, {
+          status: 'reverted',
+          blockNumber: Number(blockNumber),
+        });
+      }
+      throw error;
+    }
+  }
+  return results;
+}
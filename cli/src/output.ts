@@ -0,0 +1,152 @@
+import { Command } from 'commander';
+import { Hash, TransactionReceipt, formatUnits } from 'viem';
+import { CliError, toErrorResult } from './errors.js';
+import { DecodedEvent, decodeEvents } from './sdk/index.js';
+
+let jsonMode = false;
+
+export function setJsonMode(enabled: boolean) {
+  jsonMode = enabled;
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Print human-readable progress, suppressed in --json mode so stdout holds one object
+ */
+export function log(...args: unknown[]) {
+  if (!jsonMode) {
+    console.log(...args);
+  }
+}
+
+/**
+ * Print a warning to stderr, so it shows in --json mode too
+ */
+export function warn(message: string) {
+  console.error(`WARNING: ${message}`);
+}
+
+/**
+ * Print rows as left-aligned columns, the last column is not padded
+ */
+export function logTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join('  ');
+
+  log(format(headers));
+  for (const row of rows) {
+    log(format(row));
+  }
+}
+
+export interface Timestamp {
+  unix: number;
+  iso: string;
+}
+
+export function timestamp(unix: bigint | number): Timestamp {
+  const seconds = Number(unix);
+  return { unix: seconds, iso: new Date(seconds * 1000).toISOString() };
+}
+
+/**
+ * Local time of a timestamp for human-readable output, `-` when there is none
+ */
+export function formatTime(value: Timestamp | null): string {
+  return value ? new Date(value.unix * 1000).toLocaleString() : '-';
+}
+
+export interface TokenAmount {
+  raw: bigint;
+  formatted: string;
+  decimals: number;
+}
+
+export function tokenAmount(raw: bigint, decimals: number): TokenAmount {
+  return { raw, formatted: formatUnits(raw, decimals), decimals };
+}
+
+/**
+ * A USDY amount for human-readable output, `-` when there is none
+ */
+export function formatAmount(value: TokenAmount | null): string {
+  return value ? `${formatUnits(value.raw, value.decimals)} USDY` : '-';
+}
+
+export interface TransactionResult {
+  hash: Hash;
+  status: TransactionReceipt['status'];
+  blockNumber: bigint;
+  gasUsed: bigint;
+  events: DecodedEvent[];
+}
+
+export function transactionResult(receipt: TransactionReceipt): TransactionResult {
+  return {
+    hash: receipt.transactionHash,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    events: decodeEvents(receipt.logs),
+  };
+}
+
+/**
+ * Throw unless a receipt reports success
+ */
+export function assertSuccess(receipt: TransactionReceipt): TransactionResult {
+  const result = transactionResult(receipt);
+  if (receipt.status !== 'success') {
+    throw new CliError('TX_FAILED', 'Transaction failed', { transaction: result });
+  }
+  return result;
+}
+
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
+
+/**
+ * Wrap a command action so it emits a single JSON object in --json mode
+ * and exits non-zero when it fails
+ */
+export function runCommand<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<object | void> | object | void
+) {
+  return async (...args: Args) => {
+    const command = args[args.length - 1] as Command;
+    try {
+      const result = await handler(...args);
+      if (jsonMode) {
+        console.log(serialize({ ok: true, command: commandPath(command), result: result ?? {} }));
+      }
+    } catch (error: any) {
+      const errorResult = toErrorResult(error);
+      if (jsonMode) {
+        console.log(serialize({ ok: false, command: commandPath(command), error: errorResult }));
+      } else {
+        console.log('Error:', errorResult.message);
+        if (errorResult.action) {
+          console.log('Next step:', errorResult.action);
+        }
+      }
+      process.exitCode = 1;
+    }
+  };
+}
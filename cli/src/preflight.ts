@@ -0,0 +1,502 @@
+import { Address, Log, getAbiItem } from 'viem';
+import { CommandContext, PublicContext, getWiredDistributor } from './context.js';
+import { CliError, ErrorCode } from './errors.js';
+import { Timestamp, log, timestamp } from './output.js';
+import { dividendDistributorAbi, exitContributionAbi, successPoolAbi } from './sdk/index.js';
+
+export type PreflightAction = 'join' | 'contribute' | 'leave';
+
+/**
+ * A condition that makes the action revert, with the time it lifts when it is time-based
+ */
+export interface BlockingCondition {
+  code: ErrorCode;
+  message: string;
+  unlocksAt: Timestamp | null;
+}
+
+export interface PreflightReport {
+  action: PreflightAction;
+  member: string;
+  checkedAt: Timestamp;
+  ok: boolean;
+  blockers: BlockingCondition[];
+  // When every time-based blocker has lifted, null if another blocker remains
+  readyAt: Timestamp | null;
+}
+
+/**
+ * On-chain constants and caller state the rules are evaluated against
+ */
+export interface PreflightState {
+  now: bigint;
+  poolPaused: boolean;
+  exitContributionPaused: boolean;
+  distributorPaused: boolean;
+  isMember: boolean;
+  joinTime: bigint;
+  // null for non-members, who cannot read it
+  commitment: bigint | null;
+  // Zero when it cannot be read, hasContributed still tells whether there is any
+  totalContributed: bigint;
+  hasContributed: boolean;
+  lastProcessTime: bigint;
+  lastCommitmentUpdate: bigint;
+  minMembershipPeriod: bigint;
+  minProcessInterval: bigint;
+  minDistributionInterval: bigint;
+  commitmentLockPeriod: bigint;
+  minCommitment: bigint;
+  maxCommitment: bigint;
+  maxExitValue: bigint;
+  maxContribution: bigint;
+}
+
+export interface PreflightParams {
+  commitment?: bigint;
+  contribution?: bigint;
+}
+
+type Rule = (state: PreflightState, params: PreflightParams) => BlockingCondition | null;
+
+function blocked(code: ErrorCode, message: string, unlockTime?: bigint): BlockingCondition {
+  return { code, message, unlocksAt: unlockTime === undefined ? null : timestamp(unlockTime) };
+}
+
+// Time-based rule: blocks until `since + period`, never blocks when `since` is unset
+function waitRule(
+  code: ErrorCode,
+  message: string,
+  window: (state: PreflightState) => { since: bigint; period: bigint } | null
+): Rule {
+  return state => {
+    const span = window(state);
+    if (!span || span.since === 0n) return null;
+    const unlockTime = span.since + span.period;
+    return state.now < unlockTime ? blocked(code, message, unlockTime) : null;
+  };
+}
+
+const poolNotPaused: Rule = state =>
+  state.poolPaused ? blocked('CONTRACT_PAUSED', 'SuccessPool is paused') : null;
+
+const exitContributionNotPaused: Rule = state =>
+  state.exitContributionPaused ? blocked('CONTRACT_PAUSED', 'ExitContribution is paused') : null;
+
+const distributorNotPaused: Rule = state =>
+  state.distributorPaused ? blocked('CONTRACT_PAUSED', 'DividendDistributor is paused') : null;
+
+const isMember: Rule = state =>
+  state.isMember ? null : blocked('NOT_MEMBER', 'You are not a member of the pool');
+
+/**
+ * The exit value SuccessPool derives from a contribution, rounded down like the contract
+ */
+export function exitValueOf(contribution: bigint, commitment: bigint): bigint {
+  return (contribution * 100n) / commitment;
+}
+
+/**
+ * The contribution owed on an exit value at a commitment percentage. Rounded up,
+ * so the exit value the pool derives from it is never below the declared one.
+ */
+export function owedContribution(exitValue: bigint, commitment: bigint): bigint {
+  return (exitValue * commitment + 99n) / 100n;
+}
+
+const RULES: Record<PreflightAction, Rule[]> = {
+  join: [
+    // joinPool registers the commitment with the distributor, which checks its pause flag
+    distributorNotPaused,
+    state =>
+      state.isMember ? blocked('ALREADY_MEMBER', 'You are already a member of the pool') : null,
+    (state, { commitment }) =>
+      commitment !== undefined &&
+      (commitment < state.minCommitment || commitment > state.maxCommitment)
+        ? blocked(
+            'INVALID_COMMITMENT',
+            `Commitment must be between ${state.minCommitment}% and ${state.maxCommitment}%`
+          )
+        : null,
+    waitRule(
+      'COMMITMENT_LOCKED',
+      'Your previous commitment is still within COMMITMENT_LOCK_PERIOD',
+      state => ({ since: state.lastCommitmentUpdate, period: state.commitmentLockPeriod })
+    ),
+  ],
+  contribute: [
+    poolNotPaused,
+    exitContributionNotPaused,
+    distributorNotPaused,
+    isMember,
+    waitRule(
+      'CONTRIBUTION_TOO_FREQUENT',
+      'ExitContribution allows one contribution per MIN_PROCESS_INTERVAL',
+      state => ({ since: state.lastProcessTime, period: state.minProcessInterval })
+    ),
+    // The distributor records its last distribution in the same transaction as the
+    // last processed contribution, and has no getter for it
+    waitRule(
+      'DISTRIBUTION_TOO_FREQUENT',
+      'DividendDistributor allows one distribution per MIN_DISTRIBUTION_INTERVAL',
+      state => ({ since: state.lastProcessTime, period: state.minDistributionInterval })
+    ),
+    // Without the commitment, the highest one allowed gives the lowest exit value
+    (state, { contribution }) =>
+      contribution !== undefined &&
+      exitValueOf(contribution, state.commitment ?? state.maxCommitment) > state.maxExitValue
+        ? blocked('EXIT_VALUE_TOO_LARGE', 'The exit value exceeds MAX_EXIT_VALUE of SuccessPool')
+        : null,
+    (state, { contribution }) =>
+      contribution !== undefined && contribution > state.maxContribution
+        ? blocked(
+            'CONTRIBUTION_TOO_LARGE',
+            'The contribution exceeds MAX_CONTRIBUTION of ExitContribution'
+          )
+        : null,
+  ],
+  leave: [
+    poolNotPaused,
+    isMember,
+    state =>
+      state.isMember && !state.hasContributed
+        ? blocked('NO_CONTRIBUTIONS', 'You must contribute before leaving')
+        : null,
+    waitRule('MIN_MEMBERSHIP_PERIOD_NOT_MET', 'Minimum membership period not met', state =>
+      state.isMember ? { since: state.joinTime, period: state.minMembershipPeriod } : null
+    ),
+  ],
+};
+
+/**
+ * Read everything the rules depend on in one concurrent pass
+ */
+export async function loadPreflightState(ctx: CommandContext): Promise<PreflightState> {
+  const { pool, exitContribution } = ctx.clients;
+  const distributor = await getWiredDistributor(ctx);
+
+  const [
+    block,
+    poolPaused,
+    exitContributionPaused,
+    distributorPaused,
+    member,
+    joinTime,
+    lastProcessTime,
+    lastCommitmentUpdate,
+    minMembershipPeriod,
+    minProcessInterval,
+    minDistributionInterval,
+    commitmentLockPeriod,
+    minCommitment,
+    maxCommitment,
+    maxExitValue,
+    maxContribution,
+  ] = await Promise.all([
+    ctx.publicClient.getBlock(),
+    pool.paused(),
+    exitContribution.paused(),
+    distributor.paused(),
+    pool.isMember(),
+    pool.getMemberJoinTime(),
+    exitContribution.getLastProcessTime(),
+    distributor.getLastCommitmentUpdate(),
+    pool.minMembershipPeriod(),
+    exitContribution.minProcessInterval(),
+    distributor.minDistributionInterval(),
+    distributor.commitmentLockPeriod(),
+    pool.minCommitmentPercentage(),
+    pool.maxCommitmentPercentage(),
+    pool.maxExitValue(),
+    exitContribution.maxContribution(),
+  ]);
+  // Only readable by members
+  const [commitment, totalContributed] = member
+    ? await Promise.all([pool.getCommitmentPercentage(), pool.getTotalContributed()])
+    : [null, 0n];
+
+  return {
+    // The contracts compare against block.timestamp, not the local clock
+    now: block.timestamp,
+    poolPaused,
+    exitContributionPaused,
+    distributorPaused,
+    isMember: member,
+    joinTime,
+    commitment,
+    totalContributed,
+    hasContributed: totalContributed > 0n,
+    lastProcessTime,
+    lastCommitmentUpdate,
+    minMembershipPeriod,
+    minProcessInterval,
+    minDistributionInterval,
+    commitmentLockPeriod,
+    minCommitment,
+    maxCommitment,
+    maxExitValue,
+    maxContribution,
+  };
+}
+
+// The latest of a set of logs, by position in the chain
+function latestLog<T extends Log>(logs: T[]): T | null {
+  return logs.reduce<T | null>(
+    (latest, entry) =>
+      latest === null ||
+      entry.blockNumber! > latest.blockNumber! ||
+      (entry.blockNumber === latest.blockNumber && entry.logIndex! > latest.logIndex!)
+        ? entry
+        : latest,
+    null
+  );
+}
+
+/**
+ * Read the state the rules depend on for any account, without its key.
+ * Membership, timings and whether it ever contributed come from the public
+ * events naming the account. Its commitment and contributed total are
+ * shielded, so the commitment is null and the total is left at zero.
+ */
+export async function loadPublicPreflightState(
+  ctx: PublicContext,
+  member: Address
+): Promise<PreflightState> {
+  const { publicClient: client } = ctx;
+  const pool = ctx.profile.poolAddress;
+  const [exitContribution, distributor] = await Promise.all([
+    client.readContract({ abi: successPoolAbi, address: pool, functionName: 'exitContribution' }),
+    client.readContract({
+      abi: successPoolAbi,
+      address: pool,
+      functionName: 'dividendDistributor',
+    }),
+  ]);
+
+  const [
+    block,
+    poolPaused,
+    exitContributionPaused,
+    distributorPaused,
+    joins,
+    leaves,
+    received,
+    contributions,
+    commitmentUpdates,
+    minMembershipPeriod,
+    minProcessInterval,
+    minDistributionInterval,
+    commitmentLockPeriod,
+    minCommitment,
+    maxCommitment,
+    maxExitValue,
+    maxContribution,
+  ] = await Promise.all([
+    client.getBlock(),
+    client.readContract({ abi: successPoolAbi, address: pool, functionName: 'paused' }),
+    client.readContract({
+      abi: exitContributionAbi,
+      address: exitContribution,
+      functionName: 'paused',
+    }),
+    client.readContract({
+      abi: dividendDistributorAbi,
+      address: distributor,
+      functionName: 'paused',
+    }),
+    client.getLogs({
+      address: pool,
+      event: getAbiItem({ abi: successPoolAbi, name: 'MemberJoined' }),
+      args: { member },
+      fromBlock: 'earliest',
+    }),
+    client.getLogs({
+      address: pool,
+      event: getAbiItem({ abi: successPoolAbi, name: 'MemberLeft' }),
+      args: { member },
+      fromBlock: 'earliest',
+    }),
+    client.getLogs({
+      address: pool,
+      event: getAbiItem({ abi: successPoolAbi, name: 'ContributionReceived' }),
+      args: { member },
+      fromBlock: 'earliest',
+    }),
+    client.getLogs({
+      address: exitContribution,
+      event: getAbiItem({ abi: exitContributionAbi, name: 'ContributionProcessed' }),
+      args: { contributor: member },
+      fromBlock: 'earliest',
+    }),
+    client.getLogs({
+      address: distributor,
+      event: getAbiItem({ abi: dividendDistributorAbi, name: 'CommitmentUpdated' }),
+      args: { member },
+      fromBlock: 'earliest',
+    }),
+    client.readContract({
+      abi: successPoolAbi,
+      address: pool,
+      functionName: 'MIN_MEMBERSHIP_PERIOD',
+    }),
+    client.readContract({
+      abi: exitContributionAbi,
+      address: exitContribution,
+      functionName: 'MIN_PROCESS_INTERVAL',
+    }),
+    client.readContract({
+      abi: dividendDistributorAbi,
+      address: distributor,
+      functionName: 'MIN_DISTRIBUTION_INTERVAL',
+    }),
+    client.readContract({
+      abi: dividendDistributorAbi,
+      address: distributor,
+      functionName: 'COMMITMENT_LOCK_PERIOD',
+    }),
+    client.readContract({
+      abi: successPoolAbi,
+      address: pool,
+      functionName: 'MIN_COMMITMENT_PERCENTAGE',
+    }),
+    client.readContract({
+      abi: successPoolAbi,
+      address: pool,
+      functionName: 'MAX_COMMITMENT_PERCENTAGE',
+    }),
+    client.readContract({ abi: successPoolAbi, address: pool, functionName: 'MAX_EXIT_VALUE' }),
+    client.readContract({
+      abi: exitContributionAbi,
+      address: exitContribution,
+      functionName: 'MAX_CONTRIBUTION',
+    }),
+  ]);
+
+  // A member joined after they last left, if they ever did
+  const joined = latestLog(joins);
+  const active = joined !== null && latestLog([...leaves, joined]) === joined;
+  const joinTime = joined
+    ? (await client.getBlock({ blockNumber: joined.blockNumber! })).timestamp
+    : 0n;
+
+  return {
+    now: block.timestamp,
+    poolPaused,
+    exitContributionPaused,
+    distributorPaused,
+    isMember: active,
+    joinTime,
+    commitment: null,
+    totalContributed: 0n,
+    // SuccessPool never resets the total, so any contribution counts
+    hasContributed: received.length > 0,
+    lastProcessTime: latestLog(contributions)?.args.timestamp ?? 0n,
+    lastCommitmentUpdate: latestLog(commitmentUpdates)?.args.timestamp ?? 0n,
+    minMembershipPeriod,
+    minProcessInterval,
+    minDistributionInterval,
+    commitmentLockPeriod,
+    minCommitment,
+    maxCommitment,
+    maxExitValue,
+    maxContribution,
+  };
+}
+
+/**
+ * Evaluate every rule of an action against the chain and list what blocks it
+ */
+export async function runPreflight(
+  ctx: CommandContext,
+  action: PreflightAction,
+  params: PreflightParams = {}
+): Promise<PreflightReport> {
+  return evaluatePreflight(ctx.address, await loadPreflightState(ctx), action, params);
+}
+
+/**
+ * Evaluate the rules of an action against state that was already loaded
+ */
+export function evaluatePreflight(
+  member: string,
+  state: PreflightState,
+  action: PreflightAction,
+  params: PreflightParams = {}
+): PreflightReport {
+  const blockers = RULES[action]
+    .map(rule => rule(state, params))
+    .filter((condition): condition is BlockingCondition => condition !== null);
+
+  const timeBased = blockers.every(blocker => blocker.unlocksAt !== null);
+  const readyAt = blockers.reduce(
+    (latest, blocker) => Math.max(latest, blocker.unlocksAt?.unix ?? 0),
+    Number(state.now)
+  );
+
+  return {
+    action,
+    member,
+    checkedAt: timestamp(state.now),
+    ok: blockers.length === 0,
+    blockers,
+    readyAt: timeBased ? timestamp(readyAt) : null,
+  };
+}
+
+/**
+ * Print the blocking conditions of a report
+ */
+export function logBlockers(report: PreflightReport) {
+  for (const blocker of report.blockers) {
+    const until = blocker.unlocksAt
+      ? ` (until ${new Date(blocker.unlocksAt.unix * 1000).toLocaleString()})`
+      : '';
+    log(`- ${blocker.message}${until}`);
+  }
+}
+
+/**
+ * Run the preflight checks of an action and fail before anything is sent
+ * when a rule blocks it
+ */
+export async function preflight(
+  ctx: CommandContext,
+  action: PreflightAction,
+  params: PreflightParams = {}
+): Promise<PreflightReport> {
+  return assertReady(await runPreflight(ctx, action, params));
+}
+
+/**
+ * Run the preflight checks of an action for an account whose key is not
+ * available, from its public state, and fail when a rule blocks the action
+ */
+export async function preflightAccount(
+  ctx: PublicContext,
+  member: Address,
+  action: PreflightAction,
+  params: PreflightParams = {}
+): Promise<PreflightReport> {
+  const state = await loadPublicPreflightState(ctx, member);
+  return assertReady(evaluatePreflight(member, state, action, params));
+}
+
+/**
+ * Fail with the first blocker of a report, or return it when nothing blocks the action
+ */
+export function assertReady(report: PreflightReport): PreflightReport {
+  if (report.ok) {
+    return report;
+  }
+
+  log(`\nCannot ${report.action} yet:`);
+  logBlockers(report);
+
+  const [first] = report.blockers;
+  const others = report.blockers.length - 1;
+  throw new CliError(
+    first.code,
+    others > 0 ? `${first.message} (and ${others} more)` : first.message,
+    { blockers: report.blockers, readyAt: report.readyAt }
+  );
+}
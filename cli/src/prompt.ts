@@ -0,0 +1,22 @@
+import inquirer from 'inquirer';
+
+// Prompts are written to stderr so stdout only carries command output
+const prompt = inquirer.createPromptModule({ output: process.stderr });
+
+/**
+ * Prompt for a masked secret such as a private key
+ */
+export async function promptSecret(message: string): Promise<string> {
+  const { secret } = await prompt([{ type: 'password', name: 'secret', message, mask: '*' }]);
+  return secret;
+}
+
+/**
+ * Ask for a yes/no confirmation, defaulting to no
+ */
+export async function promptConfirm(message: string): Promise<boolean> {
+  const { confirmed } = await prompt([
+    { type: 'confirm', name: 'confirmed', message, default: false },
+  ]);
+  return confirmed;
+}
@@ -0,0 +1,223 @@
+// Generated by scripts/generate-abis.mjs from src/DividendDistributor.sol. Do not edit by hand.
+
+export const dividendDistributorAbi = [
+  {
+    name: 'admin',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'changeAdmin',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newAdmin', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'claimDividends',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'member', type: 'address' },
+      { name: 'amount', type: 'suint256' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'COMMITMENT_LOCK_PERIOD',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'distributeDividends',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'member', type: 'address' },
+      { name: 'amount', type: 'suint256' },
+      { name: 'memberCount', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'getCommitmentPercentage',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getLastCommitmentUpdate',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getPendingDividends',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getTotalDividendsReceived',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MAX_CLAIM_AMOUNT',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MAX_COMMITMENT_PERCENTAGE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_COMMITMENT_PERCENTAGE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_DISTRIBUTION_INTERVAL',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'pause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'paused',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'pool',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'poolContract',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'PRECISION',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'unpause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'updateCommitment',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'member', type: 'address' },
+      { name: 'percentage', type: 'suint256' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'AdminChanged',
+    type: 'event',
+    inputs: [{ name: 'newAdmin', type: 'address', indexed: true }],
+  },
+  {
+    name: 'CommitmentUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'member', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DividendsClaimed',
+    type: 'event',
+    inputs: [
+      { name: 'member', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'DividendsDistributed',
+    type: 'event',
+    inputs: [
+      { name: 'memberCount', type: 'uint256', indexed: false },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'EmergencyPaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'EmergencyUnpaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'ClaimAmountTooLarge',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'ContractPaused',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'DistributionTooFrequent',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'PrecisionError',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'ReentrancyGuard',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'Unauthorized',
+    type: 'error',
+    inputs: [],
+  },
+] as const;
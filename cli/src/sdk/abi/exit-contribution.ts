@@ -0,0 +1,151 @@
+// Generated by scripts/generate-abis.mjs from src/ExitContribution.sol. Do not edit by hand.
+
+export const exitContributionAbi = [
+  {
+    name: 'admin',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'changeAdmin',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newAdmin', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'getLastContribution',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getLastProcessTime',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getTotalProcessedValue',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MAX_CONTRIBUTION',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_PROCESS_INTERVAL',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'pause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'paused',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'poolContract',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'processContribution',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'contributor', type: 'address' },
+      { name: 'contribution', type: 'suint256' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'setPoolContract',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: '_poolContract', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'unpause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'AdminChanged',
+    type: 'event',
+    inputs: [{ name: 'newAdmin', type: 'address', indexed: true }],
+  },
+  {
+    name: 'ContributionProcessed',
+    type: 'event',
+    inputs: [
+      { name: 'contributor', type: 'address', indexed: true },
+      { name: 'timestamp', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ContributionVerified',
+    type: 'event',
+    inputs: [{ name: 'contributor', type: 'address', indexed: true }],
+  },
+  {
+    name: 'EmergencyPaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'EmergencyUnpaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'PoolContractUpdated',
+    type: 'event',
+    inputs: [{ name: 'newPool', type: 'address', indexed: true }],
+  },
+  {
+    name: 'ContractPaused',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'ContributionTooLarge',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'ProcessTooFrequent',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'Unauthorized',
+    type: 'error',
+    inputs: [],
+  },
+] as const;
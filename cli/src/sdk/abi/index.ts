@@ -0,0 +1,6 @@
+// Generated by scripts/generate-abis.mjs. Do not edit by hand.
+
+export { successPoolAbi } from './success-pool.js';
+export { exitContributionAbi } from './exit-contribution.js';
+export { dividendDistributorAbi } from './dividend-distributor.js';
+export { usdyAbi } from './usdy.js';
@@ -0,0 +1,216 @@
+// Generated by scripts/generate-abis.mjs from src/SuccessPool.sol. Do not edit by hand.
+
+export const successPoolAbi = [
+  {
+    name: 'admin',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'changeAdmin',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'newAdmin', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'contributeExit',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'contribution', type: 'suint256' }],
+    outputs: [],
+  },
+  {
+    name: 'dividendDistributor',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'exitContribution',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'getCommitmentPercentage',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getMemberJoinTime',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getTotalContributed',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'joinPool',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'commitmentPercentage', type: 'suint256' }],
+    outputs: [],
+  },
+  {
+    name: 'leavePool',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'MAX_COMMITMENT_PERCENTAGE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MAX_EXIT_VALUE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'memberCount',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_COMMITMENT_PERCENTAGE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_CONTRIBUTION_INTERVAL',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'MIN_MEMBERSHIP_PERIOD',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'pause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'paused',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'setDividendDistributor',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: '_dividendDistributor', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'unpause',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    name: 'USDY',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'AdminChanged',
+    type: 'event',
+    inputs: [{ name: 'newAdmin', type: 'address', indexed: true }],
+  },
+  {
+    name: 'ContributionReceived',
+    type: 'event',
+    inputs: [{ name: 'member', type: 'address', indexed: true }],
+  },
+  {
+    name: 'DividendDistributorUpdated',
+    type: 'event',
+    inputs: [{ name: 'newDistributor', type: 'address', indexed: true }],
+  },
+  {
+    name: 'DividendsDistributed',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'EmergencyPaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'EmergencyUnpaused',
+    type: 'event',
+    inputs: [],
+  },
+  {
+    name: 'MemberJoined',
+    type: 'event',
+    inputs: [{ name: 'member', type: 'address', indexed: true }],
+  },
+  {
+    name: 'MemberLeft',
+    type: 'event',
+    inputs: [{ name: 'member', type: 'address', indexed: true }],
+  },
+  {
+    name: 'ContractPaused',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'ContributionTooFrequent',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'MinMembershipPeriodNotMet',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'TransferFailed',
+    type: 'error',
+    inputs: [],
+  },
+  {
+    name: 'Unauthorized',
+    type: 'error',
+    inputs: [],
+  },
+] as const;
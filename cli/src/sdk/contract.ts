@@ -0,0 +1,170 @@
+import { type ShieldedWalletClient, getShieldedContract, signedReadContract } from 'seismic-viem';
+import {
+  Abi,
+  Address,
+  Hash,
+  Hex,
+  TransactionReceipt,
+  concatHex,
+  encodeAbiParameters,
+  getAbiItem,
+  getFunctionSelector,
+} from 'viem';
+
+type ContractMethods = Record<string, (...args: any[]) => Promise<any>>;
+
+/**
+ * Minimal view of the contract instance returned by getShieldedContract.
+ * Shielded parameter types (suint256, saddress) are encrypted by the client.
+ */
+export interface ShieldedContractInstance {
+  read: ContractMethods;
+  write: ContractMethods;
+}
+
+export interface ContractClientConfig {
+  address: Address;
+  client: ShieldedWalletClient;
+}
+
+export interface WriteOptions {
+  gas?: bigint;
+  // Shielded writes are legacy transactions priced by gasPrice
+  gasPrice?: bigint;
+  nonce?: number;
+}
+
+type AbiFunction = Extract<Abi[number], { type: 'function' }>;
+
+/**
+ * Plaintext calldata of a shielded call: the selector keeps the shielded
+ * types, arguments are encoded like their transparent counterparts
+ */
+export function encodeShieldedCalldata(
+  abi: Abi,
+  functionName: string,
+  args: readonly unknown[]
+): Hex {
+  const item = getAbiItem({ abi, name: functionName }) as AbiFunction;
+  const inputs = item.inputs.map(input => ({
+    ...input,
+    type: input.type.replace(/^s(u?int\d*|address|bool)\b/, '$1'),
+  }));
+  return concatHex([getFunctionSelector(item), encodeAbiParameters(inputs, [...args])]);
+}
+
+/**
+ * Convert call arguments stored as strings back to the types of the function inputs
+ */
+export function parseCallArgs(abi: Abi, functionName: string, args: readonly string[]): unknown[] {
+  const item = getAbiItem({ abi, name: functionName }) as AbiFunction;
+  return item.inputs.map((input, index) => {
+    if (/^s?u?int\d*$/.test(input.type)) return BigInt(args[index]);
+    if (/^s?bool$/.test(input.type)) return args[index] === 'true';
+    return args[index];
+  });
+}
+
+/**
+ * Base class for the typed FounderHedge contract clients.
+ */
+export abstract class ShieldedContractClient {
+  readonly address: Address;
+  readonly client: ShieldedWalletClient;
+  protected readonly contract: ShieldedContractInstance;
+  protected readonly abi: Abi;
+
+  protected constructor(abi: Abi, { address, client }: ContractClientConfig) {
+    this.address = address;
+    this.client = client;
+    this.abi = abi;
+    this.contract = getShieldedContract({
+      abi,
+      address,
+      client,
+    }) as unknown as ShieldedContractInstance;
+  }
+
+  /**
+   * Address of the account signing reads and writes
+   */
+  get account(): Address {
+    return this.client.account.address;
+  }
+
+  /**
+   * Run a write as a signed call from the signer without broadcasting it.
+   * Throws the contract's revert error when the write would fail.
+   */
+  async simulate(functionName: string, args: readonly unknown[] = []): Promise<void> {
+    await signedReadContract(this.client, {
+      abi: this.abi,
+      address: this.address,
+      functionName,
+      args,
+      account: this.client.account,
+    });
+  }
+
+  /**
+   * Estimate the gas used by a write. The estimate runs on plaintext calldata,
+   * encryption adds no execution cost.
+   */
+  estimateGas(functionName: string, args: readonly unknown[] = []): Promise<bigint> {
+    return this.client.estimateGas({
+      account: this.client.account,
+      to: this.address,
+      data: encodeShieldedCalldata(this.abi, functionName, args),
+    });
+  }
+
+  /**
+   * Send any write of the contract by name, for calls rebuilt from a journal
+   */
+  write(
+    functionName: string,
+    args: readonly unknown[] = [],
+    options: WriteOptions = {}
+  ): Promise<Hash> {
+    return this.contract.write[functionName]([...args], options);
+  }
+
+  /**
+   * Convert arguments stored as strings back to the types of the function inputs
+   */
+  parseArgs(functionName: string, args: readonly string[]): unknown[] {
+    return parseCallArgs(this.abi, functionName, args);
+  }
+
+  /**
+   * Wait for a transaction sent through this client to be mined
+   */
+  waitForReceipt(hash: Hash): Promise<TransactionReceipt> {
+    return this.client.waitForTransactionReceipt({ hash });
+  }
+}
+
+/**
+ * Base class for the contracts with an admin and emergency pause controls
+ */
+export abstract class AdminControlledClient extends ShieldedContractClient {
+  paused(): Promise<boolean> {
+    return this.contract.read.paused();
+  }
+
+  admin(): Promise<Address> {
+    return this.contract.read.admin();
+  }
+
+  pause(options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.pause(options);
+  }
+
+  unpause(options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.unpause(options);
+  }
+
+  changeAdmin(newAdmin: Address, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.changeAdmin([newAdmin], options);
+  }
+}
@@ -0,0 +1,55 @@
+import { Address, Hash } from 'viem';
+import { dividendDistributorAbi } from './abi/index.js';
+import { AdminControlledClient, ContractClientConfig, WriteOptions } from './contract.js';
+
+/**
+ * Typed client for the DividendDistributor contract
+ */
+export class DividendDistributorClient extends AdminControlledClient {
+  constructor(config: ContractClientConfig) {
+    super(dividendDistributorAbi, config);
+  }
+
+  /**
+   * Claim dividends for a member, only callable by the pool contract
+   */
+  claimDividends(member: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.claimDividends([member, amount], options);
+  }
+
+  getPendingDividends(): Promise<bigint> {
+    return this.contract.read.getPendingDividends();
+  }
+
+  getTotalDividendsReceived(): Promise<bigint> {
+    return this.contract.read.getTotalDividendsReceived();
+  }
+
+  getCommitmentPercentage(): Promise<bigint> {
+    return this.contract.read.getCommitmentPercentage();
+  }
+
+  getLastCommitmentUpdate(): Promise<bigint> {
+    return this.contract.read.getLastCommitmentUpdate();
+  }
+
+  commitmentLockPeriod(): Promise<bigint> {
+    return this.contract.read.COMMITMENT_LOCK_PERIOD();
+  }
+
+  minDistributionInterval(): Promise<bigint> {
+    return this.contract.read.MIN_DISTRIBUTION_INTERVAL();
+  }
+
+  maxClaimAmount(): Promise<bigint> {
+    return this.contract.read.MAX_CLAIM_AMOUNT();
+  }
+
+  precision(): Promise<bigint> {
+    return this.contract.read.PRECISION();
+  }
+
+  poolContract(): Promise<Address> {
+    return this.contract.read.poolContract();
+  }
+}
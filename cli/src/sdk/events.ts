@@ -0,0 +1,70 @@
+import { Address, Hash, Log, decodeEventLog } from 'viem';
+import {
+  dividendDistributorAbi,
+  exitContributionAbi,
+  successPoolAbi,
+  usdyAbi,
+} from './abi/index.js';
+
+const eventsAbi = [
+  ...successPoolAbi,
+  ...exitContributionAbi,
+  ...dividendDistributorAbi,
+  ...usdyAbi,
+].filter(item => item.type === 'event');
+
+export interface DecodedEvent {
+  name: string;
+  address: Address;
+  args: Record<string, unknown>;
+  logIndex: number | null;
+  transactionHash: Hash | null;
+}
+
+/**
+ * Decode the logs of a receipt against the FounderHedge contract events,
+ * skipping logs emitted by other contracts
+ */
+export function decodeEvents(logs: readonly Log[]): DecodedEvent[] {
+  const events: DecodedEvent[] = [];
+  for (const log of logs) {
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: eventsAbi,
+        data: log.data,
+        topics: log.topics,
+      });
+      events.push({
+        name: eventName,
+        address: log.address,
+        args: (args ?? {}) as Record<string, unknown>,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+      });
+    } catch {
+      // Not one of our events
+    }
+  }
+  return events;
+}
+
+/**
+ * Events each pool write emits when the pool is wired to its satellite
+ * contracts, keyed by the contract expected to emit them
+ */
+export const POOL_WRITE_EVENTS: Record<
+  string,
+  { contract: 'pool' | 'exitContribution' | 'distributor'; name: string }[]
+> = {
+  joinPool: [
+    { contract: 'distributor', name: 'CommitmentUpdated' },
+    { contract: 'pool', name: 'MemberJoined' },
+  ],
+  contributeExit: [
+    { contract: 'exitContribution', name: 'ContributionProcessed' },
+    { contract: 'distributor', name: 'DividendsDistributed' },
+    { contract: 'pool', name: 'ContributionReceived' },
+    { contract: 'pool', name: 'DividendsDistributed' },
+  ],
+  leavePool: [{ contract: 'pool', name: 'MemberLeft' }],
+};
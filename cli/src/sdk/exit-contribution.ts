@@ -0,0 +1,43 @@
+import { Address, Hash } from 'viem';
+import { exitContributionAbi } from './abi/index.js';
+import { AdminControlledClient, ContractClientConfig, WriteOptions } from './contract.js';
+
+/**
+ * Typed client for the ExitContribution contract
+ */
+export class ExitContributionClient extends AdminControlledClient {
+  constructor(config: ContractClientConfig) {
+    super(exitContributionAbi, config);
+  }
+
+  getLastContribution(): Promise<bigint> {
+    return this.contract.read.getLastContribution();
+  }
+
+  getTotalProcessedValue(): Promise<bigint> {
+    return this.contract.read.getTotalProcessedValue();
+  }
+
+  getLastProcessTime(): Promise<bigint> {
+    return this.contract.read.getLastProcessTime();
+  }
+
+  minProcessInterval(): Promise<bigint> {
+    return this.contract.read.MIN_PROCESS_INTERVAL();
+  }
+
+  maxContribution(): Promise<bigint> {
+    return this.contract.read.MAX_CONTRIBUTION();
+  }
+
+  poolContract(): Promise<Address> {
+    return this.contract.read.poolContract();
+  }
+
+  /**
+   * One-shot setter, reverts with "Pool already set" once the pool is wired
+   */
+  setPoolContract(pool: Address, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.setPoolContract([pool], options);
+  }
+}
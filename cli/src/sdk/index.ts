@@ -0,0 +1,52 @@
+import { type ShieldedWalletClient } from 'seismic-viem';
+import { Address } from 'viem';
+import { DividendDistributorClient } from './dividend-distributor.js';
+import { ExitContributionClient } from './exit-contribution.js';
+import { SuccessPoolClient } from './success-pool.js';
+import { UsdyClient } from './usdy.js';
+
+export * from './abi/index.js';
+export * from './contract.js';
+export * from './dividend-distributor.js';
+export * from './events.js';
+export * from './exit-contribution.js';
+export * from './revert.js';
+export * from './shielded-transaction.js';
+export * from './success-pool.js';
+export * from './usdy.js';
+
+export interface FounderHedgeAddresses {
+  pool: Address;
+  distributor: Address;
+  usdy: Address;
+  // Read from the pool when omitted
+  exitContribution?: Address;
+}
+
+export interface FounderHedgeClients {
+  pool: SuccessPoolClient;
+  exitContribution: ExitContributionClient;
+  distributor: DividendDistributorClient;
+  usdy: UsdyClient;
+}
+
+/**
+ * Create clients for every FounderHedge contract sharing one shielded wallet client
+ */
+export async function createFounderHedgeClients(
+  client: ShieldedWalletClient,
+  addresses: FounderHedgeAddresses
+): Promise<FounderHedgeClients> {
+  const pool = new SuccessPoolClient({ address: addresses.pool, client });
+  const exitContribution = new ExitContributionClient({
+    address: addresses.exitContribution ?? (await pool.exitContribution()),
+    client,
+  });
+
+  return {
+    pool,
+    exitContribution,
+    distributor: new DividendDistributorClient({ address: addresses.distributor, client }),
+    usdy: new UsdyClient({ address: addresses.usdy, client }),
+  };
+}
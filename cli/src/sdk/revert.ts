@@ -0,0 +1,388 @@
+import { Hex, decodeErrorResult, isHex, parseAbi } from 'viem';
+import {
+  dividendDistributorAbi,
+  exitContributionAbi,
+  successPoolAbi,
+  usdyAbi,
+} from './abi/index.js';
+
+// SRC20 reverts with the OpenZeppelin IERC20Errors, which are not part of the
+// generated ABIs because the OpenZeppelin sources are not vendored
+const erc20ErrorsAbi = parseAbi([
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+]);
+
+const errorsAbi = [
+  ...successPoolAbi,
+  ...exitContributionAbi,
+  ...dividendDistributorAbi,
+  ...usdyAbi,
+  ...erc20ErrorsAbi,
+].filter(item => item.type === 'error');
+
+type ContractErrorName = Extract<(typeof errorsAbi)[number], { type: 'error' }>['name'];
+
+/**
+ * Stable codes for the ways a FounderHedge contract call can revert
+ */
+export type RevertCode =
+  | 'CONTRACT_PAUSED'
+  | 'UNAUTHORIZED'
+  | 'ONLY_POOL'
+  | 'REENTRANT_CALL'
+  | 'ALREADY_CONFIGURED'
+  | 'INVALID_ADDRESS'
+  | 'ALREADY_MEMBER'
+  | 'NOT_MEMBER'
+  | 'INVALID_COMMITMENT'
+  | 'COMMITMENT_LOCKED'
+  | 'NO_COMMITMENT'
+  | 'MIN_MEMBERSHIP_PERIOD_NOT_MET'
+  | 'NO_CONTRIBUTIONS'
+  | 'CONTRIBUTION_TOO_FREQUENT'
+  | 'CONTRIBUTION_TOO_LARGE'
+  | 'EXIT_VALUE_TOO_LARGE'
+  | 'DISTRIBUTION_TOO_FREQUENT'
+  | 'PRECISION_ERROR'
+  | 'NO_DIVIDENDS'
+  | 'CLAIM_AMOUNT_TOO_LARGE'
+  | 'INSUFFICIENT_DIVIDENDS'
+  | 'TRANSFER_FAILED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'TOKEN_PAUSED'
+  | 'MISSING_ROLE'
+  | 'UNAUTHORIZED_VIEW'
+  | 'INVALID_REWARD_MULTIPLIER'
+  | 'CONTRACT_REVERT';
+
+export interface RevertDescription {
+  code: RevertCode;
+  explanation: string;
+  action: string;
+}
+
+const PAUSED: RevertDescription = {
+  code: 'CONTRACT_PAUSED',
+  explanation: 'The contract has been paused by its admin',
+  action: 'Wait for the admin to unpause the contract and try again',
+};
+
+const INVALID_ADDRESS: RevertDescription = {
+  code: 'INVALID_ADDRESS',
+  explanation: 'An address argument is the zero address',
+  action: 'Pass a non-zero address',
+};
+
+const ONLY_POOL: RevertDescription = {
+  code: 'ONLY_POOL',
+  explanation: 'This function can only be called by the SuccessPool contract',
+  action: 'Use the matching pool command instead of calling the contract directly',
+};
+
+const NO_COMMITMENT: RevertDescription = {
+  code: 'NO_COMMITMENT',
+  explanation: 'The dividend distributor has no commitment registered for this member',
+  action: 'Join the pool so your commitment is registered with the distributor',
+};
+
+// Custom errors, keyed by name. Typed against the ABIs so a new contract error
+// fails to compile until it is described here.
+const CUSTOM_ERRORS: Record<ContractErrorName, RevertDescription> = {
+  ContractPaused: PAUSED,
+  Unauthorized: {
+    code: 'UNAUTHORIZED',
+    explanation: 'Only the contract admin can call this function',
+    action: 'Sign with the admin account of the contract',
+  },
+  MinMembershipPeriodNotMet: {
+    code: 'MIN_MEMBERSHIP_PERIOD_NOT_MET',
+    explanation: 'Members can only leave after MIN_MEMBERSHIP_PERIOD has passed since joining',
+    action: 'Run "status" to see when you can leave',
+  },
+  ContributionTooFrequent: {
+    code: 'CONTRIBUTION_TOO_FREQUENT',
+    explanation: 'Contributions are limited to one per MIN_CONTRIBUTION_INTERVAL',
+    action: 'Run "next-contribution" to see when you can contribute again',
+  },
+  TransferFailed: {
+    code: 'TRANSFER_FAILED',
+    explanation: 'The USDY transfer into the pool failed',
+    action: 'Check your USDY balance and the allowance granted to the pool',
+  },
+  ProcessTooFrequent: {
+    code: 'CONTRIBUTION_TOO_FREQUENT',
+    explanation: 'ExitContribution processes one contribution per MIN_PROCESS_INTERVAL',
+    action: 'Run "next-contribution" to see when you can contribute again',
+  },
+  ContributionTooLarge: {
+    code: 'CONTRIBUTION_TOO_LARGE',
+    explanation: 'The contribution exceeds MAX_CONTRIBUTION of the ExitContribution contract',
+    action: 'Contribute a smaller amount',
+  },
+  ReentrancyGuard: {
+    code: 'REENTRANT_CALL',
+    explanation: 'The dividend distributor rejected a reentrant call',
+    action: 'Retry once the pending distribution or claim has been mined',
+  },
+  DistributionTooFrequent: {
+    code: 'DISTRIBUTION_TOO_FREQUENT',
+    explanation: 'Dividends are distributed at most once per MIN_DISTRIBUTION_INTERVAL',
+    action: 'Wait until the distribution interval has passed since the last distribution',
+  },
+  ClaimAmountTooLarge: {
+    code: 'CLAIM_AMOUNT_TOO_LARGE',
+    explanation: 'The claim exceeds MAX_CLAIM_AMOUNT of the dividend distributor',
+    action: 'Claim a smaller amount, splitting the claim if needed',
+  },
+  PrecisionError: {
+    code: 'PRECISION_ERROR',
+    explanation: 'The dividend share calculation lost precision',
+    action: 'Retry with a larger amount',
+  },
+  UnauthorizedView: {
+    code: 'UNAUTHORIZED_VIEW',
+    explanation: 'This USDY getter is restricted to the account it describes or the debug address',
+    action: 'Query your own balance with a signed read from the same account',
+  },
+  InvalidRewardMultiplier: {
+    code: 'INVALID_REWARD_MULTIPLIER',
+    explanation: 'The new USDY reward multiplier is out of range',
+    action: 'Use a smaller reward increment',
+  },
+  ZeroRewardIncrement: {
+    code: 'INVALID_REWARD_MULTIPLIER',
+    explanation: 'The USDY reward increment must be greater than zero',
+    action: 'Pass a non-zero reward increment',
+  },
+  MissingRole: {
+    code: 'MISSING_ROLE',
+    explanation: 'The signer does not hold the USDY role this function requires',
+    action:
+      'Ask a DEFAULT_ADMIN_ROLE holder to grant the role, or sign with an account that has it',
+  },
+  TransferWhilePaused: {
+    code: 'TOKEN_PAUSED',
+    explanation: 'USDY is paused, or is already in the requested pause state',
+    action: 'Check the USDY pause state and wait for it to be unpaused',
+  },
+  ERC20InsufficientBalance: {
+    code: 'INSUFFICIENT_BALANCE',
+    explanation: 'The USDY balance is lower than the amount being moved',
+    action: 'Check your USDY balance and use a smaller amount',
+  },
+  ERC20InsufficientAllowance: {
+    code: 'INSUFFICIENT_ALLOWANCE',
+    explanation: 'The spender is not approved for this much USDY',
+    action: 'Approve the spender for at least the amount being moved',
+  },
+  ERC20InvalidSender: INVALID_ADDRESS,
+  ERC20InvalidReceiver: INVALID_ADDRESS,
+  ERC20InvalidApprover: INVALID_ADDRESS,
+  ERC20InvalidSpender: INVALID_ADDRESS,
+};
+
+// require() reason strings used by the contracts
+const REQUIRE_REASONS: Record<string, RevertDescription> = {
+  'Invalid pool address': INVALID_ADDRESS,
+  'Invalid admin address': INVALID_ADDRESS,
+  'Invalid exit contribution address': INVALID_ADDRESS,
+  'Invalid USDY address': INVALID_ADDRESS,
+  'Invalid distributor address': INVALID_ADDRESS,
+  'Invalid contributor address': INVALID_ADDRESS,
+  'Only pool can call': ONLY_POOL,
+  'Pool already set': {
+    code: 'ALREADY_CONFIGURED',
+    explanation: 'The pool contract of ExitContribution can only be set once',
+    action: 'Deploy a new ExitContribution contract to point it at another pool',
+  },
+  'Distributor already set': {
+    code: 'ALREADY_CONFIGURED',
+    explanation: 'The dividend distributor of the pool can only be set once',
+    action: 'Deploy a new pool to use another distributor',
+  },
+  'Already a member': {
+    code: 'ALREADY_MEMBER',
+    explanation: 'The signer is already an active member of the pool',
+    action: 'Run "status" to see your membership',
+  },
+  'Not a member': {
+    code: 'NOT_MEMBER',
+    explanation: 'The signer is not an active member of the pool',
+    action: 'Join the pool first with "join <percentage>"',
+  },
+  'Invalid commitment percentage': {
+    code: 'INVALID_COMMITMENT',
+    explanation:
+      'The commitment must be between MIN_COMMITMENT_PERCENTAGE and MAX_COMMITMENT_PERCENTAGE',
+    action: 'Choose a commitment between 1 and 10 percent',
+  },
+  'Commitment too low': {
+    code: 'INVALID_COMMITMENT',
+    explanation: 'The commitment is below MIN_COMMITMENT_PERCENTAGE',
+    action: 'Choose a commitment between 1 and 10 percent',
+  },
+  'Commitment too high': {
+    code: 'INVALID_COMMITMENT',
+    explanation: 'The commitment is above MAX_COMMITMENT_PERCENTAGE',
+    action: 'Choose a commitment between 1 and 10 percent',
+  },
+  'Commitment locked': {
+    code: 'COMMITMENT_LOCKED',
+    explanation: 'A commitment can only change once per COMMITMENT_LOCK_PERIOD',
+    action: 'Run "dividends history" to see when your commitment unlocks',
+  },
+  'No members to distribute to': {
+    code: 'NO_COMMITMENT',
+    explanation: 'The pool has no members to distribute dividends to',
+    action: 'Wait for members to join before contributing',
+  },
+  'No commitments registered': NO_COMMITMENT,
+  'Member has no commitment': NO_COMMITMENT,
+  'Share calculation error': {
+    code: 'PRECISION_ERROR',
+    explanation: 'The dividend share calculation exceeded the distributed amount',
+    action: 'Retry with a different amount',
+  },
+  'Exit value too large': {
+    code: 'EXIT_VALUE_TOO_LARGE',
+    explanation: 'The exit value implied by this contribution exceeds MAX_EXIT_VALUE',
+    action: 'Contribute a smaller amount',
+  },
+  'Contribution too large': {
+    code: 'CONTRIBUTION_TOO_LARGE',
+    explanation: 'The contribution exceeds MAX_CONTRIBUTION of the ExitContribution contract',
+    action: 'Contribute a smaller amount',
+  },
+  'Must contribute before leaving': {
+    code: 'NO_CONTRIBUTIONS',
+    explanation: 'Members must make at least one contribution before leaving',
+    action: 'Contribute with "contribute <amount>" before leaving',
+  },
+  'Minimum membership period not met': {
+    code: 'MIN_MEMBERSHIP_PERIOD_NOT_MET',
+    explanation: 'Members can only leave after MIN_MEMBERSHIP_PERIOD has passed since joining',
+    action: 'Run "status" to see when you can leave',
+  },
+  'No dividends to claim': {
+    code: 'NO_DIVIDENDS',
+    explanation: 'The claim amount is zero',
+    action: 'Run "dividends show" to see your pending dividends',
+  },
+  'Insufficient dividends': {
+    code: 'INSUFFICIENT_DIVIDENDS',
+    explanation: 'The claim is larger than your pending dividends',
+    action: 'Run "dividends show" and claim at most the pending amount',
+  },
+  // USDY debug getters
+  Unauthorized: {
+    code: 'UNAUTHORIZED_VIEW',
+    explanation: 'This USDY getter is restricted to the debug address',
+    action: 'Use balanceOf with a signed read from your own account instead',
+  },
+};
+
+/**
+ * A decoded revert of one of the FounderHedge contracts
+ */
+export class ContractRevertError extends Error {
+  readonly code: RevertCode;
+  readonly explanation: string;
+  readonly action?: string;
+
+  constructor(
+    // Custom error name or require() reason string
+    readonly reason: string,
+    description: Partial<RevertDescription>,
+    readonly args: readonly unknown[] = []
+  ) {
+    const explanation = description.explanation ?? `The contract reverted with "${reason}"`;
+    super(explanation);
+    this.name = 'ContractRevertError';
+    this.code = description.code ?? 'CONTRACT_REVERT';
+    this.explanation = explanation;
+    this.action = description.action;
+  }
+}
+
+// Error(string), the encoding of require() reason strings
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Revert data sits at different depths depending on the client and RPC error
+function findRevertData(error: any): Hex | undefined {
+  for (let current = error; current; current = current.cause) {
+    const data = typeof current.data === 'object' ? current.data?.data : current.data;
+    if (isHex(data) && data.length >= 10) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+const REASON_PATTERNS = [
+  /Details: revert: (.*?)(?=\n|Version:|$)/,
+  /reverted with the following reason:\s*\n?\s*(.*?)(?=\n|$)/,
+  /execution reverted: (.*?)(?=\n|$)/,
+];
+
+function findRevertReason(error: any): string | undefined {
+  for (let current = error; current; current = current.cause) {
+    for (const pattern of REASON_PATTERNS) {
+      const match = current.message?.match(pattern);
+      if (match) return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+function describeReason(reason: string): ContractRevertError {
+  if (reason in REQUIRE_REASONS) {
+    return new ContractRevertError(reason, REQUIRE_REASONS[reason]);
+  }
+
+  // Custom errors can show up in messages as "Name" or "Name(args)"
+  const name = reason.match(/^(\w+)(\(.*\))?$/)?.[1];
+  if (name && name in CUSTOM_ERRORS) {
+    return new ContractRevertError(name, CUSTOM_ERRORS[name as ContractErrorName]);
+  }
+
+  return new ContractRevertError(reason, {});
+}
+
+/**
+ * Decode raw revert data against the FounderHedge contract errors
+ */
+export function decodeRevertData(data: Hex): ContractRevertError {
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: errorsAbi, data });
+    return new ContractRevertError(errorName, CUSTOM_ERRORS[errorName], args);
+  } catch {
+    if (data.startsWith(ERROR_STRING_SELECTOR)) {
+      const { args } = decodeErrorResult({
+        abi: parseAbi(['error Error(string reason)']),
+        data,
+      });
+      return describeReason(String(args?.[0]));
+    }
+    return new ContractRevertError(data.slice(0, 10), {});
+  }
+}
+
+/**
+ * Extract and decode the revert from an error thrown by a contract call,
+ * or return undefined when the error is not a revert
+ */
+export function decodeRevert(error: unknown): ContractRevertError | undefined {
+  if (error instanceof ContractRevertError) return error;
+
+  const data = findRevertData(error);
+  if (data) return decodeRevertData(data);
+
+  const reason = findRevertReason(error);
+  return reason ? describeReason(reason) : undefined;
+}
@@ -0,0 +1,100 @@
+import { createCipheriv } from 'crypto';
+import { getEncryption } from 'seismic-viem';
+import { Address, Hash, Hex, concatHex, keccak256, toHex, toRlp, trim } from 'viem';
+import { sign } from 'viem/accounts';
+
+// Transaction type of shielded transactions, their calldata is encrypted to the network
+const SHIELDED_TX_TYPE: Hex = '0x4a';
+
+const AES_NONCE_BYTES = 12;
+
+/**
+ * A shielded transaction before encryption and signing. Everything a signer
+ * needs is included, so it can be signed without a connection to the network.
+ */
+export interface ShieldedTransactionRequest {
+  chainId: number;
+  nonce: number;
+  gasPrice: bigint;
+  gas: bigint;
+  to: Address;
+  value: bigint;
+  // Plaintext calldata, encrypted while signing
+  data: Hex;
+  // Public key of the network's TEE, from seismic_getTeePublicKey
+  teePublicKey: Hex;
+}
+
+export interface SignedShieldedTransaction {
+  hash: Hash;
+  // Serialized transaction, ready for eth_sendRawTransaction
+  raw: Hex;
+  // Public half of the one-off key the calldata was encrypted with
+  encryptionPubkey: Hex;
+}
+
+function quantity(value: bigint | number): Hex {
+  return value === 0 || value === 0n ? '0x' : toHex(value);
+}
+
+// The transaction nonce as a 12-byte big-endian AES-GCM nonce, like seismic-viem does
+function aesNonce(nonce: number): Buffer {
+  const bytes = Buffer.alloc(AES_NONCE_BYTES);
+  bytes.writeBigUInt64BE(BigInt(nonce));
+  return bytes;
+}
+
+function encryptCalldata(aesKey: Hex, nonce: number, data: Hex): Hex {
+  const cipher = createCipheriv(
+    'aes-256-gcm',
+    Buffer.from(aesKey.slice(2), 'hex'),
+    aesNonce(nonce)
+  );
+  const body = Buffer.concat([cipher.update(Buffer.from(data.slice(2), 'hex')), cipher.final()]);
+  return `0x${Buffer.concat([body, cipher.getAuthTag()]).toString('hex')}`;
+}
+
+/**
+ * Encrypt the calldata of a shielded transaction to the network with a fresh
+ * key and sign it. Needs no connection to the network.
+ */
+export async function signShieldedTransaction(
+  privateKey: Hex,
+  request: ShieldedTransactionRequest
+): Promise<SignedShieldedTransaction> {
+  const teePublicKey = request.teePublicKey.replace(/^0x/, '');
+  const { aesKey, encryptionPublicKey } = getEncryption(teePublicKey);
+  const encryptionPubkey = encryptionPublicKey as Hex;
+
+  const fields: Hex[] = [
+    toHex(request.chainId),
+    quantity(request.nonce),
+    quantity(request.gasPrice),
+    quantity(request.gas),
+    request.to,
+    quantity(request.value),
+    encryptionPubkey,
+    // Message version
+    '0x',
+    encryptCalldata(aesKey as Hex, request.nonce, request.data),
+  ];
+  const signature = await sign({
+    hash: keccak256(concatHex([SHIELDED_TX_TYPE, toRlp(fields)])),
+    privateKey,
+  });
+  const trimmed = (value: Hex) => {
+    const result = trim(value);
+    return result === '0x00' ? '0x' : result;
+  };
+  const raw = concatHex([
+    SHIELDED_TX_TYPE,
+    toRlp([
+      ...fields,
+      signature.v === 27n ? '0x' : toHex(1),
+      trimmed(signature.r),
+      trimmed(signature.s),
+    ]),
+  ]);
+
+  return { hash: keccak256(raw), raw, encryptionPubkey };
+}
@@ -0,0 +1,132 @@
+import { Address, Hash } from 'viem';
+import { successPoolAbi } from './abi/index.js';
+import { AdminControlledClient, ContractClientConfig, WriteOptions } from './contract.js';
+import { decodeRevert } from './revert.js';
+
+export interface PoolStatus {
+  member: Address;
+  isMember: boolean;
+  commitment: bigint | null;
+  joinTime: bigint;
+  canLeaveAt: bigint | null;
+}
+
+/**
+ * Typed client for the SuccessPool contract
+ */
+export class SuccessPoolClient extends AdminControlledClient {
+  constructor(config: ContractClientConfig) {
+    super(successPoolAbi, config);
+  }
+
+  joinPool(commitment: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.joinPool([commitment], options);
+  }
+
+  contributeExit(contribution: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.contributeExit([contribution], options);
+  }
+
+  leavePool(options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.leavePool(options);
+  }
+
+  /**
+   * Commitment percentage of the signer, reverts with "Not a member" for non-members
+   */
+  getCommitmentPercentage(): Promise<bigint> {
+    return this.contract.read.getCommitmentPercentage();
+  }
+
+  /**
+   * Total contributed by the signer, reverts with "Not a member" for non-members
+   */
+  getTotalContributed(): Promise<bigint> {
+    return this.contract.read.getTotalContributed();
+  }
+
+  getMemberJoinTime(): Promise<bigint> {
+    return this.contract.read.getMemberJoinTime();
+  }
+
+  minMembershipPeriod(): Promise<bigint> {
+    return this.contract.read.MIN_MEMBERSHIP_PERIOD();
+  }
+
+  minContributionInterval(): Promise<bigint> {
+    return this.contract.read.MIN_CONTRIBUTION_INTERVAL();
+  }
+
+  minCommitmentPercentage(): Promise<bigint> {
+    return this.contract.read.MIN_COMMITMENT_PERCENTAGE();
+  }
+
+  maxCommitmentPercentage(): Promise<bigint> {
+    return this.contract.read.MAX_COMMITMENT_PERCENTAGE();
+  }
+
+  maxExitValue(): Promise<bigint> {
+    return this.contract.read.MAX_EXIT_VALUE();
+  }
+
+  memberCount(): Promise<bigint> {
+    return this.contract.read.memberCount();
+  }
+
+  exitContribution(): Promise<Address> {
+    return this.contract.read.exitContribution();
+  }
+
+  dividendDistributor(): Promise<Address> {
+    return this.contract.read.dividendDistributor();
+  }
+
+  /**
+   * One-shot setter, reverts with "Distributor already set" once the distributor is wired
+   */
+  setDividendDistributor(distributor: Address, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.setDividendDistributor([distributor], options);
+  }
+
+  usdy(): Promise<Address> {
+    return this.contract.read.USDY();
+  }
+
+  /**
+   * Whether the signer is an active member of the pool
+   */
+  async isMember(): Promise<boolean> {
+    try {
+      await this.getCommitmentPercentage();
+      return true;
+    } catch (error: any) {
+      if (decodeRevert(error)?.code === 'NOT_MEMBER') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Membership status of the signer
+   */
+  async status(): Promise<PoolStatus> {
+    const isMember = await this.isMember();
+    const joinTime = await this.getMemberJoinTime();
+
+    if (!isMember) {
+      return { member: this.account, isMember, commitment: null, joinTime, canLeaveAt: null };
+    }
+
+    const commitment = await this.getCommitmentPercentage();
+    const minPeriod = await this.minMembershipPeriod();
+
+    return {
+      member: this.account,
+      isMember,
+      commitment,
+      joinTime,
+      canLeaveAt: joinTime + minPeriod,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { Address, Hash, Hex, isAddressEqual, keccak256, toHex, zeroHash } from 'viem';
+import { usdyAbi } from './abi/index.js';
+import { ContractClientConfig, ShieldedContractClient, WriteOptions } from './contract.js';
+
+/**
+ * Role identifiers of the USDY access control
+ */
+export const USDY_ROLES = {
+  DEFAULT_ADMIN: zeroHash,
+  MINTER: keccak256(toHex('MINTER_ROLE')),
+  BURNER: keccak256(toHex('BURNER_ROLE')),
+  ORACLE: keccak256(toHex('ORACLE_ROLE')),
+  PAUSE: keccak256(toHex('PAUSE_ROLE')),
+} as const;
+
+export type UsdyRole = keyof typeof USDY_ROLES;
+
+/**
+ * The only account allowed to call the getBalanceOf and getSharesOf debug getters,
+ * hardcoded in the USDY contract
+ */
+export const USDY_DEBUG_ADDRESS: Address = '0x84C7062A544fB6DA74036953969A5001d71Bc0b7';
+
+/**
+ * Typed client for the USDY shielded stablecoin
+ */
+export class UsdyClient extends ShieldedContractClient {
+  constructor(config: ContractClientConfig) {
+    super(usdyAbi, config);
+  }
+
+  name(): Promise<string> {
+    return this.contract.read.name();
+  }
+
+  symbol(): Promise<string> {
+    return this.contract.read.symbol();
+  }
+
+  async decimals(): Promise<number> {
+    return Number(await this.contract.read.decimals());
+  }
+
+  totalSupply(): Promise<bigint> {
+    return this.contract.read.totalSupply();
+  }
+
+  /**
+   * Balance of an account, the contract returns 0 unless the signer owns it
+   */
+  balanceOf(owner: Address): Promise<bigint> {
+    return this.contract.read.balanceOf([owner]);
+  }
+
+  /**
+   * Shares of an account, the contract returns 0 unless the signer owns it
+   */
+  sharesOf(owner: Address): Promise<bigint> {
+    return this.contract.read.sharesOf([owner]);
+  }
+
+  totalShares(): Promise<bigint> {
+    return this.contract.read.totalShares();
+  }
+
+  /**
+   * Tokens per share, scaled by 1e18
+   */
+  getCurrentRewardMultiplier(): Promise<bigint> {
+    return this.contract.read.getCurrentRewardMultiplier();
+  }
+
+  /**
+   * Whether the signer can call the debug getters
+   */
+  hasDebugAccess(): boolean {
+    return isAddressEqual(this.account, USDY_DEBUG_ADDRESS);
+  }
+
+  /**
+   * Balance of any account, reverts with "Unauthorized" unless the signer is the debug address
+   */
+  getBalanceOf(account: Address): Promise<bigint> {
+    return this.contract.read.getBalanceOf([account]);
+  }
+
+  /**
+   * Shares of any account, reverts with "Unauthorized" unless the signer is the debug address
+   */
+  getSharesOf(account: Address): Promise<bigint> {
+    return this.contract.read.getSharesOf([account]);
+  }
+
+  /**
+   * Allowance between two accounts, reverts unless the signer is one of them
+   */
+  allowance(owner: Address, spender: Address): Promise<bigint> {
+    return this.contract.read.allowance([owner, spender]);
+  }
+
+  approve(spender: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.approve([spender, amount], options);
+  }
+
+  increaseAllowance(spender: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.increaseAllowance([spender, amount], options);
+  }
+
+  /**
+   * Reverts with ERC20InsufficientAllowance when the amount exceeds the current allowance
+   */
+  decreaseAllowance(spender: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.decreaseAllowance([spender, amount], options);
+  }
+
+  transfer(to: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.transfer([to, amount], options);
+  }
+
+  paused(): Promise<boolean> {
+    return this.contract.read.paused();
+  }
+
+  hasRole(role: Hex, account: Address): Promise<boolean> {
+    return this.contract.read.hasRole([role, account]);
+  }
+
+  /**
+   * Requires DEFAULT_ADMIN_ROLE
+   */
+  grantRole(role: Hex, account: Address, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.grantRole([role, account], options);
+  }
+
+  /**
+   * Requires DEFAULT_ADMIN_ROLE
+   */
+  revokeRole(role: Hex, account: Address, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.revokeRole([role, account], options);
+  }
+
+  /**
+   * Requires MINTER_ROLE
+   */
+  mint(to: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.mint([to, amount], options);
+  }
+
+  /**
+   * Requires BURNER_ROLE
+   */
+  burn(from: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.burn([from, amount], options);
+  }
+
+  /**
+   * Requires PAUSE_ROLE, reverts with TransferWhilePaused when already paused
+   */
+  pause(options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.pause(options);
+  }
+
+  /**
+   * Requires PAUSE_ROLE, reverts with TransferWhilePaused when not paused
+   */
+  unpause(options: WriteOptions = {}): Promise<Hash> {
+    return this.contract.write.unpause(options);
+  }
+}
@@ -0,0 +1,387 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import {
+  ALLOWANCE_POLICIES,
+  AllowancePolicy,
+  checkNextContribution,
+  contribute,
+  joinPool,
+  leavePool,
+} from './commands/pool.js';
+import { showDividends } from './commands/dividends.js';
+import { loadStatus } from './commands/status.js';
+import { readBalance } from './commands/usdy.js';
+import { CommandContext } from './context.js';
+import { CliError, ErrorCode, toErrorResult } from './errors.js';
+import { log, serialize } from './output.js';
+
+// The API is only reachable from this machine
+export const API_HOST = '127.0.0.1';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const API_VERSION = '1.0.0';
+
+interface ApiRequest {
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+type Schema = Record<string, unknown>;
+
+/**
+ * An operation of the API. Routes run the same code as the command they are named
+ * after, and describe themselves for the OpenAPI document.
+ */
+interface ApiRoute {
+  method: 'GET' | 'POST';
+  path: string;
+  // Reported as the command of the response, like --json does
+  command: string;
+  summary: string;
+  // Writes need "confirm": true unless they are a dry run, and run one at a time
+  write: boolean;
+  query?: Record<string, Schema>;
+  // Body fields on top of confirm and dryRun
+  body?: Record<string, Schema>;
+  handle: (ctx: CommandContext, request: ApiRequest) => Promise<object>;
+}
+
+const DECIMAL_USDY: Schema = { type: 'string', pattern: '^\\d+(\\.\\d+)?$', example: '1.5' };
+
+function stringField(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value === undefined || typeof value === 'string') return value;
+  throw new CliError('INVALID_ARGUMENT', `${name} must be a string`);
+}
+
+function booleanField(body: Record<string, unknown>, name: string): boolean {
+  const value = body[name];
+  if (value === undefined || typeof value === 'boolean') return Boolean(value);
+  throw new CliError('INVALID_ARGUMENT', `${name} must be true or false`);
+}
+
+const ROUTES: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '/status',
+    command: 'status',
+    summary: 'Membership, contributions, dividends, USDY and pause flags of the signer',
+    write: false,
+    handle: ctx => loadStatus(ctx),
+  },
+  {
+    method: 'GET',
+    path: '/next-contribution',
+    command: 'next-contribution',
+    summary: 'When the signer can contribute next',
+    write: false,
+    handle: ctx => checkNextContribution(ctx),
+  },
+  {
+    method: 'GET',
+    path: '/dividends',
+    command: 'dividends show',
+    summary: 'Pending and received dividends of the signer',
+    write: false,
+    handle: ctx => showDividends(ctx),
+  },
+  {
+    method: 'GET',
+    path: '/usdy/balance',
+    command: 'usdy balance',
+    summary: 'USDY balance of the signer, or of another account with the debug key',
+    write: false,
+    query: { account: { type: 'string', description: 'Account to check' } },
+    handle: (ctx, { query }) => readBalance(ctx, query.get('account') ?? undefined),
+  },
+  {
+    method: 'POST',
+    path: '/join',
+    command: 'join',
+    summary: 'Join the pool',
+    write: true,
+    body: {
+      commitment: { type: 'integer', minimum: 1, maximum: 10, description: 'Percentage' },
+    },
+    handle: (ctx, { body }) => {
+      const { commitment } = body;
+      if (typeof commitment !== 'number' && typeof commitment !== 'string') {
+        throw new CliError('INVALID_ARGUMENT', 'commitment must be a whole percentage');
+      }
+      return joinPool(ctx, String(commitment), { dryRun: booleanField(body, 'dryRun') });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/contribute',
+    command: 'contribute',
+    summary: 'Contribute an amount, or the contribution owed on an exit value',
+    write: true,
+    body: {
+      amount: { ...DECIMAL_USDY, description: 'Contribution in USDY' },
+      exitValue: { ...DECIMAL_USDY, description: 'Exit value in USDY, instead of an amount' },
+      allowancePolicy: { type: 'string', enum: [...ALLOWANCE_POLICIES], default: 'exact' },
+      resetAllowance: {
+        type: 'boolean',
+        default: false,
+        description: 'Reset the allowance left to the pool when the contribution fails',
+      },
+    },
+    handle: (ctx, { body }) =>
+      contribute(ctx, {
+        amount: stringField(body, 'amount'),
+        exitValue: stringField(body, 'exitValue'),
+        allowancePolicy: (stringField(body, 'allowancePolicy') ?? 'exact') as AllowancePolicy,
+        yes: booleanField(body, 'resetAllowance'),
+        dryRun: booleanField(body, 'dryRun'),
+        interactive: false,
+      }),
+  },
+  {
+    method: 'POST',
+    path: '/leave',
+    command: 'leave',
+    summary: 'Leave the pool',
+    write: true,
+    handle: (ctx, { body }) => leavePool(ctx, { dryRun: booleanField(body, 'dryRun') }),
+  },
+];
+
+const ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  INVALID_ARGUMENT: 400,
+  CONFIRMATION_REQUIRED: 400,
+  AUTH_REQUIRED: 401,
+  ROUTE_NOT_FOUND: 404,
+  CONFIG_INVALID: 500,
+  KEYSTORE_ERROR: 500,
+  UNKNOWN_ERROR: 500,
+  RPC_UNAVAILABLE: 502,
+  CHAIN_MISMATCH: 502,
+  TX_TIMEOUT: 504,
+};
+
+// Everything else is a pool rule, a revert or a failed transaction
+const DEFAULT_ERROR_STATUS = 422;
+
+/**
+ * Describe the routes as an OpenAPI 3 document
+ */
+export function openApiDocument(url: string): Schema {
+  const envelope = (ok: boolean, payload: Schema): Schema => ({
+    type: 'object',
+    required: ['ok', 'command', ok ? 'result' : 'error'],
+    properties: {
+      ok: { type: 'boolean', enum: [ok] },
+      command: { type: 'string', nullable: true },
+      [ok ? 'result' : 'error']: payload,
+    },
+  });
+  const errorResponse = {
+    description: 'The operation failed, see the error code',
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+
+  const paths: Record<string, Schema> = {};
+  for (const route of ROUTES) {
+    const operation: Schema = {
+      operationId: route.command.replace(/ (\w)/g, (_, letter: string) => letter.toUpperCase()),
+      summary: route.summary,
+      description: `Runs the ${route.command} command`,
+      responses: {
+        '200': {
+          description: 'The result the command prints with --json',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Success' } } },
+        },
+        default: errorResponse,
+      },
+    };
+    if (route.query) {
+      operation.parameters = Object.entries(route.query).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: false,
+        schema,
+      }));
+    }
+    if (route.write) {
+      operation.requestBody = {
+        required: false,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                ...route.body,
+                confirm: {
+                  type: 'boolean',
+                  description: 'Must be true to send transactions, unless dryRun is set',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Simulate and estimate fees without sending anything',
+                },
+              },
+            },
+          },
+        },
+      };
+    }
+    paths[route.path] = { [route.method.toLowerCase()]: operation };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'founder-hedge',
+      version: API_VERSION,
+      description:
+        'Local API over the founder-hedge commands, signing with the account the server was started with',
+    },
+    servers: [{ url }],
+    security: [{ bearer: [] }],
+    paths: {
+      ...paths,
+      '/openapi.json': {
+        get: {
+          operationId: 'openapi',
+          summary: 'This document',
+          security: [],
+          responses: { '200': { description: 'OpenAPI document' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Success: envelope(true, { type: 'object' }),
+        Error: envelope(false, {
+          type: 'object',
+          required: ['code', 'message'],
+          properties: {
+            code: { type: 'string' },
+            message: { type: 'string' },
+            action: { type: 'string' },
+            details: { type: 'object' },
+          },
+        }),
+      },
+    },
+  };
+}
+
+// Hashed first so the comparison takes the same time whatever the length
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function isAuthorized(request: IncomingMessage, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+  return match !== null && timingSafeEqual(digest(match[1]), digest(token));
+}
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new CliError('INVALID_ARGUMENT', `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (text === '') return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new CliError('INVALID_ARGUMENT', 'Request body must be JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new CliError('INVALID_ARGUMENT', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function send(response: ServerResponse, status: number, value: unknown) {
+  response.writeHead(status, { 'content-type': 'application/json' }).end(serialize(value));
+}
+
+export interface ApiServerOptions {
+  port: number;
+  token: string;
+}
+
+/**
+ * Serve the routes on localhost with bearer token auth, signing with the
+ * context's account. Resolves once the server is listening.
+ */
+export async function startApiServer(
+  ctx: CommandContext,
+  { port, token }: ApiServerOptions
+): Promise<Server> {
+  // Writes share the signer's nonce, so they are sent one at a time
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', `http://${request.headers.host ?? API_HOST}`);
+    const route = ROUTES.find(
+      candidate => candidate.path === url.pathname && candidate.method === request.method
+    );
+    const command = route?.command ?? null;
+
+    try {
+      if (request.method === 'GET' && url.pathname === '/openapi.json') {
+        send(response, 200, openApiDocument(`http://${request.headers.host}`));
+        return;
+      }
+      if (!isAuthorized(request, token)) {
+        throw new CliError(
+          'AUTH_REQUIRED',
+          'Missing or wrong bearer token',
+          undefined,
+          'Send the token the server was started with as "Authorization: Bearer <token>"'
+        );
+      }
+      if (!route) {
+        throw new CliError('ROUTE_NOT_FOUND', `No route for ${request.method} ${url.pathname}`);
+      }
+
+      const body = route.write ? await readBody(request) : {};
+      if (route.write && !booleanField(body, 'dryRun') && !booleanField(body, 'confirm')) {
+        throw new CliError(
+          'CONFIRMATION_REQUIRED',
+          'Confirmation required',
+          undefined,
+          'Send "confirm": true to send the transactions, or "dryRun": true to simulate them'
+        );
+      }
+
+      const run = () => route.handle(ctx, { query: url.searchParams, body });
+      let result: object;
+      if (route.write) {
+        const queued = writes.then(run);
+        writes = queued.catch(() => undefined);
+        result = await queued;
+      } else {
+        result = await run();
+      }
+      send(response, 200, { ok: true, command, result });
+      log(`${request.method} ${url.pathname} 200`);
+    } catch (error) {
+      const errorResult = toErrorResult(error);
+      const status = ERROR_STATUS[errorResult.code] ?? DEFAULT_ERROR_STATUS;
+      send(response, status, { ok: false, command, error: errorResult });
+      log(`${request.method} ${url.pathname} ${status} ${errorResult.code}`);
+    }
+  };
+
+  const server = createServer((request, response) => void handle(request, response));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, API_HOST, resolve);
+  });
+  return server;
+}
@@ -0,0 +1,386 @@
+import { existsSync, readFileSync } from 'fs';
+import { parseUnits } from 'viem';
+import { CliError } from './errors.js';
+import { exitValueOf, owedContribution } from './preflight.js';
+import { RevertCode } from './sdk/index.js';
+
+const DAY = 86400;
+
+/**
+ * Constants of the deployed contracts, copied from their sources so a
+ * simulation never needs the chain
+ */
+export const SIMULATION_RULES = {
+  usdyDecimals: 18,
+  // SuccessPool
+  minCommitment: 1n,
+  maxCommitment: 10n,
+  minMembershipPeriod: 90 * DAY,
+  maxExitValue: 10n ** 27n,
+  // ExitContribution
+  minProcessInterval: 1 * DAY,
+  maxContribution: 10n ** 27n,
+  // DividendDistributor
+  minDistributionInterval: 7 * DAY,
+  precision: 10n ** 18n,
+};
+
+export interface ScenarioExit {
+  at: number;
+  // In the smallest USDY unit
+  value: bigint;
+}
+
+export interface ScenarioMember {
+  name: string;
+  commitment: bigint;
+  joinAt: number;
+  leaveAt: number | null;
+  exits: ScenarioExit[];
+}
+
+export interface Scenario {
+  name: string | null;
+  members: ScenarioMember[];
+}
+
+export type SimulatedAction = 'join' | 'exit' | 'leave';
+
+export interface MemberPosition {
+  contributed: bigint;
+  // Credited to the member's pending dividends
+  dividends: bigint;
+  net: bigint;
+}
+
+export interface TimelineEntry {
+  at: number;
+  // Earlier than `at` when a time-based rule deferred the action
+  plannedAt: number;
+  member: string;
+  action: SimulatedAction;
+  status: 'applied' | 'rejected';
+  // The rule that rejected or deferred the action
+  reason: RevertCode | null;
+  exitValue: bigint | null;
+  contribution: bigint | null;
+  dividend: bigint | null;
+  // Of the member, after the action
+  position: MemberPosition;
+}
+
+export interface MemberSummary {
+  name: string;
+  commitment: bigint;
+  joinedAt: number | null;
+  leftAt: number | null;
+  exits: number;
+  rejectedExits: number;
+  position: MemberPosition;
+}
+
+export interface SimulationResult {
+  members: MemberSummary[];
+  timeline: TimelineEntry[];
+  pool: {
+    contributed: bigint;
+    // Contributions not credited to anyone, they stay in SuccessPool
+    undistributed: bigint;
+    // DividendDistributor never lowers it when a member leaves
+    totalCommitment: bigint;
+  };
+}
+
+// Same-time actions run joins first and leaves last, like a founder would send them
+const ACTION_ORDER: Record<SimulatedAction, number> = { join: 0, exit: 1, leave: 2 };
+
+function parseTime(value: unknown, field: string, problems: string[]): number | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return Math.floor(Date.parse(value) / 1000);
+  }
+  problems.push(`${field} must be an ISO date or unix seconds`);
+  return null;
+}
+
+function parseValue(value: unknown, field: string, problems: string[]): bigint | null {
+  const { usdyDecimals } = SIMULATION_RULES;
+  const match = typeof value === 'string' ? /^\d+(?:\.(\d+))?$/.exec(value) : null;
+  if (!match || (match[1] ?? '').length > usdyDecimals) {
+    problems.push(
+      `${field} must be a decimal string of USDY with at most ${usdyDecimals} decimals`
+    );
+    return null;
+  }
+  return parseUnits(value as string, usdyDecimals);
+}
+
+function parseMember(raw: any, index: number, problems: string[]): ScenarioMember | null {
+  const field = `members[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    problems.push(`${field} must be an object`);
+    return null;
+  }
+  const before = problems.length;
+
+  if (typeof raw.name !== 'string' || raw.name === '') {
+    problems.push(`${field}.name must be a non-empty string`);
+  }
+  if (!Number.isInteger(raw.commitment)) {
+    problems.push(`${field}.commitment must be a whole percentage`);
+  }
+  const joinAt = parseTime(raw.joinAt, `${field}.joinAt`, problems);
+  const leaveAt =
+    raw.leaveAt === undefined || raw.leaveAt === null
+      ? null
+      : parseTime(raw.leaveAt, `${field}.leaveAt`, problems);
+
+  const exits: ScenarioExit[] = [];
+  if (raw.exits !== undefined && !Array.isArray(raw.exits)) {
+    problems.push(`${field}.exits must be an array`);
+  }
+  for (const [exitIndex, exit] of (Array.isArray(raw.exits) ? raw.exits : []).entries()) {
+    const at = parseTime(exit?.at, `${field}.exits[${exitIndex}].at`, problems);
+    const value = parseValue(exit?.value, `${field}.exits[${exitIndex}].value`, problems);
+    if (at !== null && value !== null) exits.push({ at, value });
+  }
+
+  if (problems.length > before) return null;
+  return {
+    name: raw.name,
+    commitment: BigInt(raw.commitment),
+    joinAt: joinAt!,
+    leaveAt,
+    exits,
+  };
+}
+
+/**
+ * Read a scenario file, reporting every problem at once
+ */
+export function loadScenario(path: string): Scenario {
+  const invalid = (problems: string[]) =>
+    new CliError('SCENARIO_INVALID', [`Invalid scenario ${path}:`, ...problems].join('\n- '), {
+      problems,
+    });
+
+  if (!existsSync(path)) {
+    throw invalid([`Scenario file not found: ${path}`]);
+  }
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    throw invalid([`Invalid JSON: ${error.message}`]);
+  }
+  if (!raw || !Array.isArray(raw.members) || raw.members.length === 0) {
+    throw invalid(['"members" must be a non-empty array']);
+  }
+
+  const problems: string[] = [];
+  const members = raw.members
+    .map((member: unknown, index: number) => parseMember(member, index, problems))
+    .filter((member: ScenarioMember | null): member is ScenarioMember => member !== null);
+  const names = raw.members.map((member: any) => member?.name);
+  for (const [index, name] of names.entries()) {
+    if (typeof name === 'string' && names.indexOf(name) !== index)
+      problems.push(`Member "${name}" is listed twice`);
+  }
+  if (problems.length > 0) {
+    throw invalid(problems);
+  }
+
+  return { name: typeof raw.name === 'string' ? raw.name : null, members };
+}
+
+interface MemberState {
+  commitment: bigint;
+  active: boolean;
+  joinedAt: number | null;
+  leftAt: number | null;
+  lastProcessTime: number;
+  lastDistributionTime: number;
+  exits: number;
+  rejectedExits: number;
+  position: MemberPosition;
+}
+
+interface QueuedAction {
+  at: number;
+  plannedAt: number;
+  member: string;
+  action: SimulatedAction;
+  exitValue: bigint | null;
+  // Keeps the scenario order among actions at the same time
+  sequence: number;
+  deferredBy: RevertCode | null;
+}
+
+type Check = { rejected: RevertCode } | { deferredUntil: number; by: RevertCode } | null;
+
+// Time-based rule: defers until `since + period`, never blocks when `since` is unset
+function waitUntil(now: number, since: number, period: number, by: RevertCode): Check {
+  return since !== 0 && now < since + period ? { deferredUntil: since + period, by } : null;
+}
+
+/**
+ * Replay a scenario with the rules of SuccessPool, ExitContribution and
+ * DividendDistributor. Actions a time-based rule blocks are sent again as soon
+ * as it lifts, actions any other rule blocks are rejected.
+ */
+export function simulateScenario(scenario: Scenario): SimulationResult {
+  const rules = SIMULATION_RULES;
+  const members = new Map<string, MemberState>();
+  const queue: QueuedAction[] = [];
+  for (const member of scenario.members) {
+    members.set(member.name, {
+      commitment: member.commitment,
+      active: false,
+      joinedAt: null,
+      leftAt: null,
+      lastProcessTime: 0,
+      lastDistributionTime: 0,
+      exits: 0,
+      rejectedExits: 0,
+      position: { contributed: 0n, dividends: 0n, net: 0n },
+    });
+    const plan: Omit<QueuedAction, 'sequence' | 'deferredBy' | 'plannedAt'>[] = [
+      { at: member.joinAt, member: member.name, action: 'join', exitValue: null },
+      ...member.exits.map(exit => ({
+        at: exit.at,
+        member: member.name,
+        action: 'exit' as const,
+        exitValue: exit.value,
+      })),
+      ...(member.leaveAt === null
+        ? []
+        : [{ at: member.leaveAt, member: member.name, action: 'leave' as const, exitValue: null }]),
+    ];
+    for (const action of plan) {
+      queue.push({ ...action, plannedAt: action.at, sequence: queue.length, deferredBy: null });
+    }
+  }
+
+  let totalCommitment = 0n;
+  let contributed = 0n;
+  let credited = 0n;
+  const timeline: TimelineEntry[] = [];
+
+  const check = (next: QueuedAction, state: MemberState, contribution: bigint | null): Check => {
+    switch (next.action) {
+      case 'join':
+        if (state.commitment < rules.minCommitment || state.commitment > rules.maxCommitment) {
+          return { rejected: 'INVALID_COMMITMENT' };
+        }
+        return null;
+      case 'exit': {
+        if (!state.active) return { rejected: 'NOT_MEMBER' };
+        if (exitValueOf(contribution!, state.commitment) > rules.maxExitValue) {
+          return { rejected: 'EXIT_VALUE_TOO_LARGE' };
+        }
+        if (contribution! > rules.maxContribution) return { rejected: 'CONTRIBUTION_TOO_LARGE' };
+        return (
+          waitUntil(
+            next.at,
+            state.lastProcessTime,
+            rules.minProcessInterval,
+            'CONTRIBUTION_TOO_FREQUENT'
+          ) ??
+          waitUntil(
+            next.at,
+            state.lastDistributionTime,
+            rules.minDistributionInterval,
+            'DISTRIBUTION_TOO_FREQUENT'
+          )
+        );
+      }
+      case 'leave':
+        if (!state.active) return { rejected: 'NOT_MEMBER' };
+        if (state.position.contributed === 0n) return { rejected: 'NO_CONTRIBUTIONS' };
+        return waitUntil(
+          next.at,
+          state.joinedAt!,
+          rules.minMembershipPeriod,
+          'MIN_MEMBERSHIP_PERIOD_NOT_MET'
+        );
+    }
+  };
+
+  while (queue.length > 0) {
+    queue.sort(
+      (a, b) =>
+        a.at - b.at || ACTION_ORDER[a.action] - ACTION_ORDER[b.action] || a.sequence - b.sequence
+    );
+    const next = queue.shift()!;
+    const state = members.get(next.member)!;
+    const contribution =
+      next.exitValue === null ? null : owedContribution(next.exitValue, state.commitment);
+
+    const blocked = check(next, state, contribution);
+    if (blocked && 'deferredUntil' in blocked) {
+      // Checked again when it comes up, another rule may still block it then
+      queue.push({ ...next, at: blocked.deferredUntil, deferredBy: blocked.by });
+      continue;
+    }
+
+    let dividend: bigint | null = null;
+    if (!blocked) {
+      switch (next.action) {
+        case 'join':
+          state.active = true;
+          state.joinedAt = next.at;
+          totalCommitment += state.commitment;
+          break;
+        case 'exit':
+          dividend =
+            (contribution! * state.commitment * rules.precision) /
+            totalCommitment /
+            rules.precision;
+          state.lastProcessTime = next.at;
+          state.lastDistributionTime = next.at;
+          state.position.contributed += contribution!;
+          state.position.dividends += dividend;
+          state.position.net = state.position.dividends - state.position.contributed;
+          state.exits++;
+          contributed += contribution!;
+          credited += dividend;
+          break;
+        case 'leave':
+          state.active = false;
+          state.leftAt = next.at;
+          break;
+      }
+    } else if (next.action === 'exit') {
+      state.rejectedExits++;
+    }
+
+    timeline.push({
+      at: next.at,
+      plannedAt: next.plannedAt,
+      member: next.member,
+      action: next.action,
+      status: blocked ? 'rejected' : 'applied',
+      reason: blocked ? blocked.rejected : next.deferredBy,
+      exitValue: next.exitValue,
+      contribution: blocked ? null : contribution,
+      dividend,
+      position: { ...state.position },
+    });
+  }
+
+  return {
+    members: [...members.entries()].map(([name, state]) => ({
+      name,
+      commitment: state.commitment,
+      joinedAt: state.joinedAt,
+      leftAt: state.leftAt,
+      exits: state.exits,
+      rejectedExits: state.rejectedExits,
+      position: state.position,
+    })),
+    timeline,
+    pool: { contributed, undistributed: contributed - credited, totalCommitment },
+  };
+}
@@ -0,0 +1,543 @@
+import {
+  Address,
+  Hash,
+  Transaction,
+  TransactionNotFoundError,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  formatEther,
+  isAddressEqual,
+} from 'viem';
+import {
+  ChainContext,
+  CommandContext,
+  PublicContext,
+  SignerContext,
+  getReceiptTimeout,
+} from './context.js';
+import { CliError } from './errors.js';
+import {
+  JournalEntry,
+  JournalFlow,
+  openFlow,
+  readJournal,
+  recordTransaction,
+  updateFlow,
+  updateTransaction,
+} from './journal.js';
+import { Timestamp, TransactionResult, assertSuccess, log, timestamp, warn } from './output.js';
+import { promptConfirm } from './prompt.js';
+import {
+  POOL_WRITE_EVENTS,
+  ShieldedContractClient,
+  WriteOptions,
+  decodeRevert,
+  successPoolAbi,
+} from './sdk/index.js';
+
+// Extra gas on top of the simulated estimate
+const GAS_HEADROOM_PERCENT = 20n;
+
+// Used when the node cannot estimate a write that simulated successfully
+const FALLBACK_GAS_LIMIT = 400000n;
+
+/**
+ * A state-changing contract call, described for simulation and sent through `send`
+ */
+export interface WriteCall {
+  contract: ShieldedContractClient;
+  functionName: string;
+  args?: readonly unknown[];
+  send: (options: WriteOptions) => Promise<Hash | undefined>;
+  // Recorded in the journal, defaults to the function name
+  intent?: string;
+  // Events the write must emit once mined, a missing one is warned about
+  expectedEvents?: ExpectedEvent[];
+}
+
+/**
+ * An event a write should emit, and the contract that should emit it
+ */
+export interface ExpectedEvent {
+  name: string;
+  address: Address;
+}
+
+/**
+ * What a mined write emitted, compared with what it should have
+ */
+export interface EventCheck {
+  minedAt: Timestamp;
+  expected: ExpectedEvent[];
+  missing: ExpectedEvent[];
+}
+
+/**
+ * Options of commands that accept --dry-run
+ */
+export interface DryRunOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Options of commands that ask for confirmation before sending
+ */
+export interface ConfirmOptions extends DryRunOptions {
+  yes?: boolean;
+}
+
+export interface FeeEstimate {
+  wei: bigint;
+  eth: string;
+}
+
+export interface Simulation {
+  contract: Address;
+  functionName: string;
+  gasEstimate: bigint | null;
+  gasLimit: bigint;
+  gasPrice: bigint;
+  fee: FeeEstimate;
+  maxFee: FeeEstimate;
+}
+
+export interface WriteResult {
+  // null when a resumed flow had already sent the write
+  simulation: Simulation | null;
+  // null when the write was only simulated
+  transaction: TransactionResult | null;
+  // null when the write was only simulated
+  events: EventCheck | null;
+}
+
+// Position of a write in a flow, recorded with its journal entry
+interface FlowPosition {
+  flowId: string;
+  step: number;
+}
+
+function fee(gas: bigint, gasPrice: bigint): FeeEstimate {
+  const wei = gas * gasPrice;
+  return { wei, eth: formatEther(wei) };
+}
+
+/**
+ * Gas limit of a write from its estimate, with headroom. Writes whose gas
+ * could not be estimated get a fixed limit.
+ */
+export function gasLimitFor(gasEstimate: bigint | null): bigint {
+  return gasEstimate === null
+    ? FALLBACK_GAS_LIMIT
+    : gasEstimate + (gasEstimate * GAS_HEADROOM_PERCENT) / 100n;
+}
+
+/**
+ * Simulate a write as the signer and estimate its gas and fee.
+ * Throws TX_WOULD_REVERT with the revert reason when it would fail.
+ */
+export async function simulateWrite(ctx: SignerContext, call: WriteCall): Promise<Simulation> {
+  const { contract, functionName, args = [] } = call;
+
+  log(`Simulating ${functionName}...`);
+  try {
+    await contract.simulate(functionName, args);
+  } catch (error: any) {
+    const revert = decodeRevert(error);
+    if (!revert) throw error;
+    throw new CliError(
+      'TX_WOULD_REVERT',
+      `${functionName} would revert: ${revert.explanation}`,
+      {
+        contract: contract.address,
+        functionName,
+        revert: { code: revert.code, reason: revert.reason, args: revert.args },
+      },
+      revert.action
+    );
+  }
+
+  let gasEstimate: bigint | null = null;
+  try {
+    gasEstimate = await contract.estimateGas(functionName, args);
+  } catch {
+    log(`Could not estimate gas, using a limit of ${FALLBACK_GAS_LIMIT}`);
+  }
+
+  const gasLimit = gasLimitFor(gasEstimate);
+  const gasPrice = await ctx.publicClient.getGasPrice();
+  const simulation = {
+    contract: contract.address,
+    functionName,
+    gasEstimate,
+    gasLimit,
+    gasPrice,
+    fee: fee(gasEstimate ?? gasLimit, gasPrice),
+    maxFee: fee(gasLimit, gasPrice),
+  };
+
+  log('Simulation succeeded');
+  log('- Estimated gas:', gasEstimate?.toString() ?? 'unknown');
+  log('- Gas limit:', gasLimit.toString());
+  log('- Estimated fee:', simulation.fee.eth, 'ETH');
+
+  return simulation;
+}
+
+// How a mined transaction with the same nonce differs from the one it replaced
+function replacementReason(
+  replaced: Transaction,
+  replacement: Transaction
+): 'replaced' | 'repriced' | 'cancelled' {
+  if (replacement.to === replaced.to && replacement.value === replaced.value) return 'repriced';
+  if (replacement.from === replacement.to && replacement.value === 0n) return 'cancelled';
+  return 'replaced';
+}
+
+// The mined transaction of the sender that used the nonce of `sent`, searched
+// from the block the wait started at
+async function findMinedNonce(
+  ctx: ChainContext,
+  sent: Transaction,
+  fromBlock: bigint
+): Promise<Transaction | null> {
+  const latest = await ctx.publicClient.getBlockNumber();
+  for (let blockNumber = fromBlock; blockNumber <= latest; blockNumber++) {
+    const block = await ctx.publicClient.getBlock({ blockNumber, includeTransactions: true });
+    const mined = block.transactions.find(
+      transaction => isAddressEqual(transaction.from, sent.from) && transaction.nonce === sent.nonce
+    );
+    if (mined) return mined;
+  }
+  return null;
+}
+
+/**
+ * Poll for the receipt of a transaction, or of the one that replaced it, until
+ * the receipt timeout. Unlike viem's waitForTransactionReceipt it leaves no
+ * timer or block watcher running once it returns, so the process exits when
+ * the command is done.
+ */
+async function waitForReceipt(ctx: ChainContext, hash: Hash): Promise<TransactionReceipt> {
+  const { publicClient } = ctx;
+  const deadline = Date.now() + getReceiptTimeout();
+  const fromBlock = await publicClient.getBlockNumber();
+  let sent: Transaction | null = null;
+
+  for (;;) {
+    const receipt = await publicClient.getTransactionReceipt({ hash }).catch(error => {
+      if (error instanceof TransactionReceiptNotFoundError) return null;
+      throw error;
+    });
+    if (receipt) return receipt;
+
+    sent ??= await publicClient.getTransaction({ hash }).catch(error => {
+      if (error instanceof TransactionNotFoundError) return null;
+      throw error;
+    });
+    // Its nonce was used, by itself since the receipt was read or by a replacement
+    if (sent && (await publicClient.getTransactionCount({ address: sent.from })) > sent.nonce) {
+      const mined = await findMinedNonce(ctx, sent, fromBlock);
+      if (mined) {
+        if (mined.hash !== hash) {
+          log(`Transaction was ${replacementReason(sent, mined)} by ${mined.hash}`);
+        }
+        return publicClient.getTransactionReceipt({ hash: mined.hash });
+      }
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new CliError(
+        'TX_TIMEOUT',
+        `Transaction ${hash} was not mined within ${getReceiptTimeout() / 1000}s`,
+        { hash },
+        'Run `founder-hedge tx resume` to keep waiting, or `founder-hedge tx speedup` to raise its gas price'
+      );
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.min(publicClient.pollingInterval, remaining))
+    );
+  }
+}
+
+/**
+ * Wait for a transaction sent by a command and fail unless it succeeded
+ */
+export async function confirmTransaction(
+  ctx: ChainContext,
+  hash: Hash | undefined
+): Promise<TransactionResult> {
+  if (!hash) {
+    throw new CliError('TX_NO_HASH', 'Transaction failed - no hash returned');
+  }
+
+  log('Transaction hash:', hash);
+  log('Waiting for confirmation...');
+
+  return assertSuccess(await waitForReceipt(ctx, hash));
+}
+
+/**
+ * Refresh the status of a journaled transaction from the chain without waiting.
+ * A transaction that is not mined while its nonce has been used was replaced.
+ */
+export async function settleTransaction(
+  ctx: ChainContext,
+  entry: JournalEntry
+): Promise<JournalEntry> {
+  if (entry.status !== 'pending') return entry;
+
+  const receipt = await ctx.publicClient
+    .getTransactionReceipt({ hash: entry.hash })
+    .catch(() => null);
+  let update: Partial<JournalEntry> | null = null;
+  if (receipt) {
+    update = {
+      status: receipt.status === 'success' ? 'success' : 'reverted',
+      blockNumber: Number(receipt.blockNumber),
+    };
+  } else {
+    const confirmedNonce = await ctx.publicClient.getTransactionCount({ address: entry.from });
+    if (confirmedNonce > entry.nonce) update = { status: 'replaced' };
+  }
+
+  if (!update) return entry;
+  updateTransaction(entry.chainId, entry.from, entry.hash, update);
+  return { ...entry, ...update };
+}
+
+/**
+ * Events a pool write should emit, from the contracts the profile says the
+ * pool is wired to. A satellite contract the profile has no address for is
+ * expected at the address the pool references.
+ */
+export async function poolWriteEvents(
+  ctx: PublicContext,
+  functionName: string
+): Promise<ExpectedEvent[]> {
+  const { profile, publicClient } = ctx;
+  const expected = POOL_WRITE_EVENTS[functionName] ?? [];
+  const wired = (reference: 'exitContribution' | 'dividendDistributor') =>
+    publicClient.readContract({
+      abi: successPoolAbi,
+      address: profile.poolAddress,
+      functionName: reference,
+    });
+
+  const needs = (contract: string) => expected.some(event => event.contract === contract);
+  const addresses: Record<string, Address> = { pool: profile.poolAddress };
+  if (needs('exitContribution')) {
+    addresses.exitContribution =
+      profile.exitContributionAddress ?? (await wired('exitContribution'));
+  }
+  if (needs('distributor')) {
+    addresses.distributor = profile.distributorAddress ?? (await wired('dividendDistributor'));
+  }
+  return expected.map(({ contract, name }) => ({ name, address: addresses[contract] }));
+}
+
+/**
+ * Print the events of a mined write with its block and time, and warn when an
+ * expected one is missing. A missing event usually means the pool is wired to
+ * other satellite contracts than the profile points to.
+ */
+export async function checkEvents(
+  ctx: ChainContext,
+  transaction: TransactionResult,
+  expected: ExpectedEvent[] = []
+): Promise<EventCheck> {
+  const block = await ctx.publicClient.getBlock({ blockNumber: transaction.blockNumber });
+  const minedAt = timestamp(block.timestamp);
+  log(`Mined in block ${transaction.blockNumber} at ${minedAt.iso}`);
+  for (const event of transaction.events) {
+    const args = Object.entries(event.args)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(' ');
+    log(`  ${event.name}${args ? ` ${args}` : ''} (${event.address})`);
+  }
+
+  const missing = expected.filter(
+    event =>
+      !transaction.events.some(
+        emitted => emitted.name === event.name && isAddressEqual(emitted.address, event.address)
+      )
+  );
+  for (const event of missing) {
+    warn(
+      `${transaction.hash} did not emit ${event.name} from ${event.address}. ` +
+        'Check the contracts are wired to each other with `founder-hedge doctor`'
+    );
+  }
+  return { minedAt, expected, missing };
+}
+
+/**
+ * Simulate a write and, unless this is a dry run, send it with the simulated
+ * gas limit and wait for it to be mined
+ */
+export async function executeWrite(
+  ctx: SignerContext,
+  call: WriteCall,
+  dryRun = false,
+  position?: FlowPosition
+): Promise<WriteResult> {
+  const simulation = await simulateWrite(ctx, call);
+  if (dryRun) {
+    log(`Dry run: ${call.functionName} was not sent`);
+    return { simulation, transaction: null, events: null };
+  }
+
+  // The next nonce after the signer's pending transactions, so writes sent
+  // before an earlier one is mined do not reuse its nonce
+  const nonce = await ctx.publicClient.getTransactionCount({
+    address: ctx.address,
+    blockTag: 'pending',
+  });
+  const hash = await call.send({ gas: simulation.gasLimit, gasPrice: simulation.gasPrice, nonce });
+  if (!hash) {
+    return { simulation, transaction: await confirmTransaction(ctx, hash), events: null };
+  }
+
+  const { chainId } = ctx.profile;
+  recordTransaction({
+    hash,
+    chainId,
+    from: ctx.address,
+    to: call.contract.address,
+    functionName: call.functionName,
+    args: (call.args ?? []).map(String),
+    intent: call.intent ?? call.functionName,
+    flowId: position?.flowId ?? null,
+    step: position?.step ?? null,
+    nonce,
+    gasLimit: simulation.gasLimit.toString(),
+    gasPrice: simulation.gasPrice.toString(),
+    sentAt: Math.floor(Date.now() / 1000),
+  });
+
+  try {
+    const transaction = await confirmTransaction(ctx, hash);
+    updateTransaction(chainId, ctx.address, hash, {
+      status: 'success',
+      blockNumber: Number(transaction.blockNumber),
+    });
+    return {
+      simulation,
+      transaction,
+      events: await checkEvents(ctx, transaction, call.expectedEvents),
+    };
+  } catch (error) {
+    if (error instanceof CliError && error.code === 'TX_FAILED') {
+      const { blockNumber } = error.details?.transaction as TransactionResult;
+      updateTransaction(chainId, ctx.address, hash, {
+        status: 'reverted',
+        blockNumber: Number(blockNumber),
+      });
+    }
+    throw error;
+  }
+}
+
+// Wait for what an interrupted run already sent for a step. Returns the
+// transaction once mined, or null when nothing sent for it can still be mined.
+async function settleStep(
+  ctx: CommandContext,
+  flow: JournalFlow,
+  step: number
+): Promise<TransactionResult | null> {
+  const sent = () =>
+    readJournal(ctx.profile.chainId, ctx.address).transactions.filter(
+      entry => entry.flowId === flow.id && entry.step === step
+    );
+
+  const pending = sent().filter(entry => entry.status === 'pending');
+  if (pending.length > 0) {
+    // A speedup shares the nonce of the transaction it replaces, so waiting
+    // for the newest one also notices when an older one was mined instead
+    await confirmTransaction(ctx, pending[pending.length - 1].hash).catch(error => {
+      if (error instanceof CliError && error.code === 'TX_FAILED') return;
+      throw error;
+    });
+    for (const entry of pending) await settleTransaction(ctx, entry);
+  }
+
+  const settled = sent();
+  const mined = settled.find(entry => entry.status === 'success' || entry.status === 'reverted');
+  if (!mined) return null;
+
+  const receipt = await ctx.publicClient.getTransactionReceipt({ hash: mined.hash });
+  if (mined.status === 'reverted') {
+    updateFlow(ctx.profile.chainId, ctx.address, flow.id, 'failed');
+  }
+  return assertSuccess(receipt);
+}
+
+/**
+ * Send writes that belong together in order, journaling them as one flow.
+ * When an earlier run of the same flow was interrupted, steps it already sent
+ * are waited for instead of being sent again.
+ */
+export async function executeFlow(
+  ctx: CommandContext,
+  intent: string,
+  calls: WriteCall[]
+): Promise<WriteResult[]> {
+  const { chainId } = ctx.profile;
+  const steps = calls.map(call => ({
+    to: call.contract.address,
+    functionName: call.functionName,
+    args: (call.args ?? []).map(String),
+  }));
+  const { flow, resumed } = openFlow(chainId, ctx.address, intent, steps);
+  if (resumed) {
+    log(`Resuming "${flow.intent}" started ${new Date(flow.startedAt * 1000).toLocaleString()}`);
+  }
+
+  const results: WriteResult[] = [];
+  for (const [step, call] of calls.entries()) {
+    log(`\nStep ${step + 1} of ${calls.length}: ${call.functionName}`);
+    const transaction = resumed ? await settleStep(ctx, flow, step) : null;
+    if (transaction) {
+      log(`Already confirmed in ${transaction.hash}`);
+      const events = await checkEvents(ctx, transaction, call.expectedEvents);
+      results.push({ simulation: null, transaction, events });
+      continue;
+    }
+
+    try {
+      results.push(await executeWrite(ctx, { ...call, intent }, false, { flowId: flow.id, step }));
+    } catch (error) {
+      if (!(error instanceof CliError)) throw error;
+      // Simulation failures and timeouts leave the flow open to be resumed
+      if (error.code === 'TX_FAILED') {
+        updateFlow(chainId, ctx.address, flow.id, 'failed');
+      }
+      // The caller may need to close the flow itself
+      throw new CliError(
+        error.code,
+        error.message,
+        { ...error.details, flowId: flow.id },
+        error.action
+      );
+    }
+  }
+
+  updateFlow(chainId, ctx.address, flow.id, 'done');
+  return results;
+}
+
+/**
+ * Ask before sending transactions, unless --yes was given or this is a dry run.
+ * Fails when confirmation is needed but there is no terminal to ask on.
+ */
+export async function confirmWrites(message: string, options: ConfirmOptions) {
+  if (options.dryRun || options.yes) {
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new CliError('CONFIRMATION_REQUIRED', 'Confirmation required', undefined, 'Pass --yes');
+  }
+  if (!(await promptConfirm(message))) {
+    throw new CliError('CANCELLED', 'Cancelled, nothing was sent');
+  }
+}
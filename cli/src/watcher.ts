@@ -0,0 +1,273 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { Address, isAddressEqual } from 'viem';
+import { CommandContext, getWiredDistributor } from './context.js';
+import { DEFAULT_BATCH_SIZE } from './indexer.js';
+import { getHomeDir } from './keystore.js';
+import { Timestamp, formatAmount, formatTime, log, timestamp, tokenAmount } from './output.js';
+import { BlockingCondition, evaluatePreflight, loadPreflightState } from './preflight.js';
+import { UsdyClient, decodeEvents } from './sdk/index.js';
+
+// Admin actions on any of the pool contracts that members should hear about
+const WATCHED_EVENTS = [
+  'EmergencyPaused',
+  'EmergencyUnpaused',
+  'AdminChanged',
+  'DividendDistributorUpdated',
+  'PoolContractUpdated',
+];
+
+// Webhook notifications kept for a later attempt while the receiver is down
+const MAX_UNDELIVERED = 100;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export type NotificationKind =
+  'leave-eligible' | 'contribution-window' | 'dividends' | 'pool-event';
+
+export interface Notification {
+  kind: NotificationKind;
+  account: Address;
+  chainId: number;
+  // Block timestamp of the check that found it
+  at: Timestamp;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * What the previous check saw, so only changes are notified. null before the first check.
+ */
+export interface WatchState {
+  // Last block whose events were checked
+  cursor: number | null;
+  membershipPeriodMet: boolean | null;
+  canContribute: boolean | null;
+  pendingDividends: string | null;
+  undelivered: Notification[];
+}
+
+export interface NotificationSinks {
+  logFile: string | null;
+  webhook: string | null;
+}
+
+export interface Delivery {
+  sink: 'log-file' | 'webhook';
+  delivered: number;
+  failed: number;
+  error: string | null;
+}
+
+function watchStatePath(chainId: number, account: Address): string {
+  return join(getHomeDir(), 'watch', `${chainId}-${account.toLowerCase()}.json`);
+}
+
+export function readWatchState(chainId: number, account: Address): WatchState {
+  const path = watchStatePath(chainId, account);
+  if (!existsSync(path)) {
+    return {
+      cursor: null,
+      membershipPeriodMet: null,
+      canContribute: null,
+      pendingDividends: null,
+      undelivered: [],
+    };
+  }
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+// Written to a temporary file first so a stopped watcher never leaves a truncated state
+export function writeWatchState(chainId: number, account: Address, state: WatchState) {
+  const path = watchStatePath(chainId, account);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(`${path}.tmp`, toJson(state));
+  renameSync(`${path}.tmp`, path);
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+function describeBlockers(blockers: BlockingCondition[]): string {
+  return blockers.map(blocker => blocker.message).join('; ');
+}
+
+/**
+ * Read the signer's milestones and the pool events since the last check, and
+ * return what changed. The returned state replaces the previous one.
+ */
+export async function checkMilestones(
+  ctx: CommandContext,
+  previous: WatchState
+): Promise<{ notifications: Notification[]; state: WatchState }> {
+  const { pool, exitContribution } = ctx.clients;
+  const [distributor, usdyAddress] = await Promise.all([getWiredDistributor(ctx), pool.usdy()]);
+  const usdy = new UsdyClient({ address: usdyAddress, client: ctx.walletClient });
+
+  const [preflightState, pending, decimals, latest] = await Promise.all([
+    loadPreflightState(ctx),
+    distributor.getPendingDividends(),
+    usdy.decimals(),
+    ctx.publicClient.getBlockNumber(),
+  ]);
+
+  const now = timestamp(preflightState.now);
+  const notifications: Notification[] = [];
+  const notify = (kind: NotificationKind, message: string, details: Record<string, unknown>) =>
+    notifications.push({
+      kind,
+      account: ctx.address,
+      chainId: ctx.profile.chainId,
+      at: now,
+      message,
+      details,
+    });
+
+  const { isMember, joinTime, minMembershipPeriod } = preflightState;
+  const canLeaveAt = timestamp(joinTime + minMembershipPeriod);
+  const membershipPeriodMet = isMember && preflightState.now >= joinTime + minMembershipPeriod;
+  if (membershipPeriodMet && previous.membershipPeriodMet !== true) {
+    const leave = evaluatePreflight(ctx.address, preflightState, 'leave');
+    notify(
+      'leave-eligible',
+      leave.ok
+        ? `Your minimum membership period ended on ${formatTime(canLeaveAt)}, you can leave the pool`
+        : `Your minimum membership period ended on ${formatTime(canLeaveAt)}, but leaving is still blocked: ${describeBlockers(leave.blockers)}`,
+      { canLeaveAt, canLeave: leave.ok, blockers: leave.blockers }
+    );
+  }
+
+  const contribute = evaluatePreflight(ctx.address, preflightState, 'contribute');
+  const canContribute = isMember && contribute.ok;
+  if (canContribute && previous.canContribute !== true) {
+    const lastContributionAt =
+      preflightState.lastProcessTime > 0n ? timestamp(preflightState.lastProcessTime) : null;
+    notify(
+      'contribution-window',
+      lastContributionAt
+        ? `Your next contribution window is open, the last one was on ${formatTime(lastContributionAt)}`
+        : 'You can make your first contribution',
+      { lastContributionAt }
+    );
+  }
+
+  const previousPending =
+    previous.pendingDividends === null ? null : BigInt(previous.pendingDividends);
+  if (previousPending !== null && pending > previousPending) {
+    const added = tokenAmount(pending - previousPending, decimals);
+    const total = tokenAmount(pending, decimals);
+    notify(
+      'dividends',
+      `${formatAmount(added)} of new dividends, ${formatAmount(total)} pending in total`,
+      { added, pending: total }
+    );
+  }
+
+  // The first check starts at the current block instead of replaying history
+  const fromBlock = (previous.cursor ?? Number(latest)) + 1;
+  const contracts: Record<string, Address> = {
+    pool: pool.address,
+    exitContribution: exitContribution.address,
+    distributor: distributor.address,
+  };
+  for (let from = fromBlock; from <= Number(latest); from += Number(DEFAULT_BATCH_SIZE)) {
+    const to = Math.min(from + Number(DEFAULT_BATCH_SIZE) - 1, Number(latest));
+    const logs = await ctx.publicClient.getLogs({
+      address: Object.values(contracts),
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+    });
+    for (const entry of logs) {
+      const [event] = decodeEvents([entry]);
+      if (!event || !WATCHED_EVENTS.includes(event.name)) continue;
+      const contract = Object.keys(contracts).find(name =>
+        isAddressEqual(contracts[name], event.address)
+      );
+      const target = event.args.newAdmin ?? event.args.newDistributor ?? event.args.newPool;
+      notify('pool-event', `${event.name} on ${contract}${target ? ` (${target})` : ''}`, {
+        contract,
+        address: event.address,
+        event: event.name,
+        args: event.args,
+        blockNumber: entry.blockNumber,
+        transactionHash: event.transactionHash,
+      });
+    }
+  }
+
+  return {
+    notifications,
+    state: {
+      cursor: Number(latest),
+      membershipPeriodMet,
+      canContribute,
+      pendingDividends: pending.toString(),
+      undelivered: previous.undelivered,
+    },
+  };
+}
+
+async function postWebhook(url: string, notification: Notification) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'user-agent': 'founder-hedge' },
+    body: toJson(notification),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Print notifications and send them to the configured sinks. Webhook
+ * notifications that fail are kept in the state and sent again with the next ones.
+ */
+export async function deliverNotifications(
+  notifications: Notification[],
+  sinks: NotificationSinks,
+  state: WatchState
+): Promise<Delivery[]> {
+  for (const notification of notifications) {
+    log(`[${notification.at.iso}] ${notification.message}`);
+  }
+
+  const deliveries: Delivery[] = [];
+  if (sinks.logFile && notifications.length > 0) {
+    mkdirSync(dirname(sinks.logFile), { recursive: true });
+    appendFileSync(sinks.logFile, notifications.map(item => toJson(item) + '\n').join(''));
+    deliveries.push({
+      sink: 'log-file',
+      delivered: notifications.length,
+      failed: 0,
+      error: null,
+    });
+  }
+
+  const queue = [...state.undelivered, ...notifications];
+  state.undelivered = [];
+  if (sinks.webhook && queue.length > 0) {
+    let delivered = 0;
+    let error: string | null = null;
+    for (const [index, notification] of queue.entries()) {
+      try {
+        await postWebhook(sinks.webhook, notification);
+        delivered++;
+      } catch (failure: any) {
+        // Keep the order: this one and everything after it wait for the next attempt
+        error = failure.message;
+        state.undelivered = queue.slice(index).slice(-MAX_UNDELIVERED);
+        log(`Webhook delivery failed: ${error}`);
+        break;
+      }
+    }
+    deliveries.push({
+      sink: 'webhook',
+      delivered,
+      failed: queue.length - delivered,
+      error,
+    });
+  }
+  return deliveries;
+}
@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getContractAddress } from 'viem';
+import { DividendDistributor } from './support/contracts.js';
+import {
+  ADDRESSES,
+  TestNetwork,
+  eventNames,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+} from './support/cli.js';
+
+describe('deployment wiring', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork({ wired: false });
+  });
+  after(() => network.close());
+
+  it('reports the missing wiring', async () => {
+    const error = expectError(await runCli(network, ['doctor']), 'DEPLOYMENT_MISCONFIGURED');
+    const failed = error.details.checks.filter(
+      (check: { status: string }) => check.status === 'fail'
+    );
+    assert.ok(failed.length > 0);
+    assert.ok(failed.every((check: { group: string }) => check.group === 'wiring'));
+  });
+
+  it('asks for confirmation when there is no terminal', async () => {
+    expectError(
+      await runCli(network, ['admin', 'set-pool-contract'], { as: 'admin' }),
+      'CONFIRMATION_REQUIRED'
+    );
+  });
+
+  it('only lets the admin wire contracts', async () => {
+    expectError(await runCli(network, ['admin', 'set-pool-contract', '--yes']), 'UNAUTHORIZED');
+  });
+
+  it('wires ExitContribution to the pool once', async () => {
+    const result = expectOk(
+      await runCli(network, ['admin', 'set-pool-contract', '--yes'], { as: 'admin' })
+    );
+    assert.deepEqual(eventNames(result.calls[0].transaction), ['PoolContractUpdated']);
+    assert.equal(network.exitContribution.state.poolContract, network.pool.address);
+
+    expectError(
+      await runCli(network, ['admin', 'set-pool-contract', '--yes'], { as: 'admin' }),
+      'ALREADY_CONFIGURED'
+    );
+  });
+
+  it('refuses a distributor deployed for another pool', async () => {
+    const { world } = network.chain;
+    const other = world.add(
+      new DividendDistributor(
+        world,
+        getContractAddress({ from: ADDRESSES.admin, nonce: 4n }),
+        ADDRESSES.admin,
+        ADDRESSES.bob
+      )
+    );
+    expectError(
+      await runCli(network, ['admin', 'set-dividend-distributor', other.address, '--yes'], {
+        as: 'admin',
+      }),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('wires the pool to its distributor', async () => {
+    const result = expectOk(
+      await runCli(
+        network,
+        ['admin', 'set-dividend-distributor', network.distributor.address, '--yes'],
+        { as: 'admin' }
+      )
+    );
+    assert.deepEqual(eventNames(result.calls[0].transaction), ['DividendDistributorUpdated']);
+
+    const doctor = expectOk(await runCli(network, ['doctor']));
+    assert.equal(doctor.ok, true);
+  });
+});
+
+describe('emergency controls', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('needs exactly one of --target and --all', async () => {
+    expectError(
+      await runCli(network, ['admin', 'pause', '--yes'], { as: 'admin' }),
+      'INVALID_ARGUMENT'
+    );
+    expectError(
+      await runCli(network, ['admin', 'pause', '--all', '--target', 'pool', '--yes'], {
+        as: 'admin',
+      }),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('only lets the admin pause', async () => {
+    const error = expectError(
+      await runCli(network, ['admin', 'pause', '--all', '--yes']),
+      'UNAUTHORIZED'
+    );
+    assert.equal(error.details.mismatches.length, 3);
+  });
+
+  it('pauses every contract, then blocks members', async () => {
+    const result = expectOk(
+      await runCli(network, ['admin', 'pause', '--all', '--yes'], { as: 'admin' })
+    );
+    assert.deepEqual(
+      result.calls.map((call: any) => eventNames(call.transaction)),
+      [['EmergencyPaused'], ['EmergencyPaused'], ['EmergencyPaused']]
+    );
+
+    const join = expectError(await runCli(network, ['join', '5']), 'CONTRACT_PAUSED');
+    assert.equal(join.details.blockers.length, 1);
+  });
+
+  it('skips contracts that are already paused', async () => {
+    const result = expectOk(
+      await runCli(network, ['admin', 'pause', '--target', 'pool', '--yes'], { as: 'admin' })
+    );
+    assert.equal(result.calls[0].skipped, 'already paused');
+  });
+
+  it('unpauses every contract', async () => {
+    expectOk(await runCli(network, ['admin', 'unpause', '--all', '--yes'], { as: 'admin' }));
+    assert.equal(network.pool.state.paused, false);
+    assert.equal(network.exitContribution.state.paused, false);
+    assert.equal(network.distributor.state.paused, false);
+  });
+
+  it('hands the admin role to another address', async () => {
+    const result = expectOk(
+      await runCli(network, ['admin', 'change-admin', ADDRESSES.bob, '--target', 'pool', '--yes'], {
+        as: 'admin',
+      })
+    );
+    assert.deepEqual(eventNames(result.calls[0].transaction), ['AdminChanged']);
+    assert.equal(network.pool.state.admin, ADDRESSES.bob);
+
+    expectError(
+      await runCli(network, ['admin', 'pause', '--target', 'pool', '--yes'], { as: 'admin' }),
+      'UNAUTHORIZED'
+    );
+    expectOk(await runCli(network, ['admin', 'pause', '--target', 'pool', '--yes'], { as: 'bob' }));
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ADDRESSES, TestNetwork, expectError, runCli, startNetwork } from './support/cli.js';
+
+describe('connection checks', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('reports an unreachable RPC', async () => {
+    const error = expectError(
+      await runCli(network, ['--rpc-retries', '0', 'status'], {
+        env: { RPC_URL: 'http://127.0.0.1:1' },
+      }),
+      'RPC_UNAVAILABLE'
+    );
+    assert.equal(error.details.rpcUrl, 'http://127.0.0.1:1');
+  });
+
+  it('reports an RPC serving another chain', async () => {
+    const error = expectError(
+      await runCli(network, ['status'], { env: { CHAIN_ID: '1' } }),
+      'CHAIN_MISMATCH'
+    );
+    assert.deepEqual(error.details, { expected: 1, actual: network.chain.chainId });
+  });
+
+  it('reports a pool address without a contract', async () => {
+    expectError(
+      await runCli(network, ['status'], { env: { POOL_ADDRESS: ADDRESSES.bob } }),
+      'CONTRACT_NOT_FOUND'
+    );
+  });
+
+  it('reports invalid settings and unknown networks', async () => {
+    expectError(
+      await runCli(network, ['status'], { env: { CHAIN_ID: 'seismic' } }),
+      'CONFIG_INVALID'
+    );
+    expectError(
+      await runCli(network, ['status'], { env: { RPC_URL: 'ws://127.0.0.1:8546' } }),
+      'CONFIG_INVALID'
+    );
+    expectError(await runCli(network, ['--network', 'mainnet', 'status']), 'CONFIG_INVALID');
+  });
+
+  it('only signs with a plaintext PRIVATE_KEY when opted in, with a warning', async () => {
+    const error = expectError(
+      await runCli(network, ['status'], { env: { FOUNDER_HEDGE_PLAINTEXT_KEY: '' } }),
+      'KEYSTORE_ERROR'
+    );
+    assert.match(error.message, /PRIVATE_KEY is ignored/);
+
+    const run = await runCli(network, ['status']);
+    assert.equal(run.exitCode, 0);
+    assert.match(run.stderr, /WARNING: Signing with the plaintext PRIVATE_KEY/);
+  });
+});
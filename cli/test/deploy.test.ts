@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'fs';
+import { after, before, describe, it } from 'node:test';
+import { isAddressEqual } from 'viem';
+import { USDY_ROLES } from '../src/sdk/index.js';
+import {
+  ADDRESSES,
+  TestNetwork,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  writeArtifacts,
+} from './support/cli.js';
+
+describe('deploy', () => {
+  let network: TestNetwork;
+
+  const profiles = () => JSON.parse(readFileSync(network.configPath, 'utf8')).networks;
+
+  before(async () => {
+    network = await startNetwork();
+    writeArtifacts(network);
+  });
+  after(() => network.close());
+
+  it('deploys, wires and saves the contracts to a profile', async () => {
+    const result = expectOk(
+      await runCli(network, [
+        'deploy',
+        '--deploy-usdy',
+        '--grant',
+        `oracle=${ADDRESSES.bob}`,
+        '--save-as',
+        'fresh',
+        '--yes',
+      ])
+    );
+    assert.deepEqual(result.deployed, [
+      'USDY',
+      'ExitContribution',
+      'SuccessPool',
+      'DividendDistributor',
+    ]);
+
+    const { poolAddress, distributorAddress, usdyAddress, exitContributionAddress } =
+      result.addresses;
+    assert.deepEqual(profiles().fresh, {
+      rpcUrl: network.chain.url,
+      chainId: 31337,
+      poolAddress,
+      distributorAddress,
+      usdyAddress,
+      exitContributionAddress,
+    });
+
+    const { world } = network.chain;
+    const pool = world.get(poolAddress)!;
+    assert.ok(isAddressEqual((pool.state as any).dividendDistributor, distributorAddress));
+    const exitContribution = world.get(exitContributionAddress)!;
+    assert.ok(isAddressEqual((exitContribution.state as any).poolContract, poolAddress));
+    const roles = (world.get(usdyAddress)!.state as any).roles as Set<string>;
+    assert.ok(roles.has(`${USDY_ROLES.ORACLE}:${ADDRESSES.bob.toLowerCase()}`));
+    assert.ok(roles.has(`${USDY_ROLES.PAUSE}:${ADDRESSES.alice.toLowerCase()}`));
+
+    const status = expectOk(await runCli(network, ['status', '--network', 'fresh']));
+    assert.equal(status.isMember, false);
+  });
+
+  it('sends nothing once the deployment is complete', async () => {
+    const nonce = network.chain.nonceOf(ADDRESSES.alice);
+    const result = expectOk(
+      await runCli(network, ['deploy', '--deploy-usdy', '--save-as', 'fresh', '--yes'])
+    );
+    assert.equal(result.resumed, true);
+    assert.deepEqual(result.deployed, []);
+    assert.deepEqual(result.transactions, []);
+    assert.equal(network.chain.nonceOf(ADDRESSES.alice), nonce);
+  });
+
+  it('resumes an interrupted deployment', async () => {
+    network.chain.automine = false;
+    const args = ['deploy', '--save-as', 'resumed', '--yes'];
+    expectError(
+      await runCli(network, [...args, '--receipt-timeout', '1'], { as: 'bob' }),
+      'TX_TIMEOUT'
+    );
+    network.chain.automine = true;
+    network.chain.mine();
+
+    const result = expectOk(await runCli(network, args, { as: 'bob' }));
+    assert.equal(result.resumed, true);
+    assert.deepEqual(result.deployed, ['SuccessPool', 'DividendDistributor']);
+    // Three deployments and the two wiring calls, the first deployment was not sent again
+    assert.equal(network.chain.nonceOf(ADDRESSES.bob), 5);
+    assert.equal(profiles().resumed.usdyAddress, network.usdy.address);
+
+    expectError(await runCli(network, args, { as: 'alice' }), 'INVALID_ARGUMENT');
+  });
+
+  it('refuses to save the addresses to a profile of another chain', async () => {
+    const config = JSON.parse(readFileSync(network.configPath, 'utf8'));
+    config.networks.mainnet = { rpcUrl: 'https://mainnet.example', chainId: 1 };
+    writeFileSync(network.configPath, JSON.stringify(config));
+    const nonce = network.chain.nonceOf(ADDRESSES.alice);
+
+    const error = expectError(
+      await runCli(network, ['deploy', '--deploy-usdy', '--save-as', 'mainnet', '--yes']),
+      'CHAIN_MISMATCH'
+    );
+    assert.deepEqual(error.details, { expected: 1, actual: 31337 });
+    assert.equal(network.chain.nonceOf(ADDRESSES.alice), nonce);
+    assert.deepEqual(profiles().mainnet, config.networks.mainnet);
+  });
+
+  it('reports missing artifacts before sending anything', async () => {
+    const error = expectError(
+      await runCli(network, ['deploy', '--artifacts', 'missing', '--save-as', 'other', '--yes']),
+      'ARTIFACT_NOT_FOUND'
+    );
+    assert.match(error.action, /forge build/);
+  });
+});
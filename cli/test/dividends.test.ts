@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getContractAddress } from 'viem';
+import { DividendDistributor } from './support/contracts.js';
+import {
+  ADDRESSES,
+  TestNetwork,
+  eventNames,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('dividends', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+    expectOk(await runCli(network, ['join', '5']));
+    expectOk(await runCli(network, ['join', '5'], { as: 'bob' }));
+    // Half of the contribution goes to alice, who holds half of the commitments
+    expectOk(await runCli(network, ['contribute', '10']));
+  });
+  after(() => network.close());
+
+  it('shows pending and received dividends', async () => {
+    const result = expectOk(await runCli(network, ['dividends', 'show']));
+    assert.equal(result.pending.raw, usdy('5').toString());
+    assert.equal(result.received.raw, '0');
+  });
+
+  it('shows the registered commitment and no claims', async () => {
+    const result = expectOk(await runCli(network, ['dividends', 'history']));
+    assert.equal(result.commitment.percentage, 5);
+    assert.deepEqual(result.claims, []);
+  });
+
+  it('rejects a claim amount that is not a USDY amount', async () => {
+    expectError(await runCli(network, ['dividends', 'claim', 'abc']), 'INVALID_ARGUMENT');
+    expectError(await runCli(network, ['dividends', 'claim', '1.2.3']), 'INVALID_ARGUMENT');
+    expectError(
+      await runCli(network, ['dividends', 'claim', '0.0000000000000000001']),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('refuses to claim more than is pending', async () => {
+    const error = expectError(
+      await runCli(network, ['dividends', 'claim', '6']),
+      'INSUFFICIENT_DIVIDENDS'
+    );
+    assert.equal(error.details.pending.raw, usdy('5').toString());
+  });
+
+  it('refuses to claim more than MAX_CLAIM_AMOUNT', async () => {
+    expectError(
+      await runCli(network, ['dividends', 'claim', '2000000000']),
+      'CLAIM_AMOUNT_TOO_LARGE'
+    );
+  });
+
+  it('fails without pending dividends', async () => {
+    expectError(await runCli(network, ['dividends', 'claim'], { as: 'bob' }), 'NO_DIVIDENDS');
+  });
+
+  it('explains that only the pool can submit claims', async () => {
+    const error = expectError(
+      await runCli(network, ['dividends', 'claim']),
+      'CLAIM_RESTRICTED_TO_POOL'
+    );
+    assert.equal(error.details.poolContract, network.pool.address);
+    assert.equal(error.details.claimable.raw, usdy('5').toString());
+  });
+
+  it('fails while the distributor is paused', async () => {
+    network.call(network.distributor, 'pause', [], 'admin');
+    try {
+      expectError(await runCli(network, ['dividends', 'claim']), 'CONTRACT_PAUSED');
+    } finally {
+      network.call(network.distributor, 'unpause', [], 'admin');
+    }
+  });
+
+  it('claims from a distributor whose pool is the signer', async () => {
+    const { world } = network.chain;
+    const distributor = world.add(
+      new DividendDistributor(
+        world,
+        getContractAddress({ from: ADDRESSES.admin, nonce: 4n }),
+        ADDRESSES.admin,
+        ADDRESSES.alice
+      )
+    );
+    network.call(distributor, 'updateCommitment', [ADDRESSES.alice, 5n]);
+    network.call(distributor, 'distributeDividends', [ADDRESSES.alice, usdy('10'), 1n]);
+    const env = { DISTRIBUTOR_ADDRESS: distributor.address };
+
+    const claim = expectOk(await runCli(network, ['dividends', 'claim', '4'], { env }));
+    assert.deepEqual(eventNames(claim.transaction), ['DividendsClaimed']);
+
+    const shown = expectOk(await runCli(network, ['dividends', 'show'], { env }));
+    assert.equal(shown.pending.raw, usdy('6').toString());
+    assert.equal(shown.received.raw, usdy('4').toString());
+
+    const history = expectOk(await runCli(network, ['dividends', 'history'], { env }));
+    assert.equal(history.claims.length, 1);
+    assert.equal(history.claims[0].transactionHash, claim.transaction.hash);
+  });
+});
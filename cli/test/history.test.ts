@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import {
+  DAY,
+  TestNetwork,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('event history', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+    expectOk(await runCli(network, ['join', '5']));
+    expectOk(await runCli(network, ['join', '3'], { as: 'bob' }));
+    expectOk(await runCli(network, ['contribute', '10']));
+    network.chain.increaseTime(8 * DAY);
+    expectOk(await runCli(network, ['contribute', '10']));
+    network.chain.increaseTime(91 * DAY);
+    expectOk(await runCli(network, ['leave']));
+  });
+  after(() => network.close());
+
+  it('needs an index before reporting analytics', async () => {
+    expectError(await runCli(network, ['analytics']), 'INDEX_NOT_FOUND');
+  });
+
+  it('indexes pool events in batches', async () => {
+    const result = expectOk(await runCli(network, ['index', '--batch-size', '2']));
+    assert.ok(result.added > 0);
+    assert.equal(result.totalEvents, result.added);
+    assert.equal(result.toBlock, Number(network.chain.latest.number));
+
+    const again = expectOk(await runCli(network, ['index']));
+    assert.equal(again.added, 0);
+    assert.equal(again.totalEvents, result.totalEvents);
+  });
+
+  it('reports membership and contribution cadence', async () => {
+    const result = expectOk(await runCli(network, ['analytics', '--period', 'quarter']));
+    assert.deepEqual(result.members, { current: 1, everJoined: 2 });
+    assert.equal(result.cadence.contributions, 2);
+    assert.equal(result.cadence.contributors, 1);
+  });
+
+  it('exports a ledger that reconciles with the chain', async () => {
+    const path = join(network.home, 'ledger.json');
+    const result = expectOk(
+      await runCli(network, ['ledger', 'export', '--format', 'json', '--output', path])
+    );
+    assert.equal(result.path, path);
+
+    const ledger = JSON.parse(readFileSync(path, 'utf8'));
+    assert.deepEqual(
+      ledger.entries.map((entry: { type: string }) => entry.type),
+      ['join', 'approval', 'contribution', 'approval', 'contribution', 'leave']
+    );
+    assert.equal(ledger.entries[0].commitment, 5);
+    assert.equal(ledger.entries[4].totalContributed.raw, usdy('20').toString());
+    assert.equal(ledger.reconciliation.contributions.status, 'match');
+  });
+
+  it('exports a CSV ledger', async () => {
+    const path = join(network.home, 'ledger.csv');
+    expectOk(await runCli(network, ['ledger', 'export', '--output', path]));
+
+    const [header, ...rows] = readFileSync(path, 'utf8').trim().split('\n');
+    assert.ok(header.startsWith('type,timestamp,block_number'));
+    assert.equal(rows.length, 6);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import {
+  ADDRESSES,
+  STARTING_BALANCE,
+  TestNetwork,
+  eventNames,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('offline signing', () => {
+  let network: TestNetwork;
+
+  // Signing needs neither the config nor the chain
+  const sign = (path: string, as: 'alice' | 'bob' = 'bob') =>
+    runCli(network, ['tx', 'sign', path, '--yes'], {
+      as,
+      env: { FOUNDER_HEDGE_CONFIG: join(network.home, 'missing.json') },
+    });
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('runs the preflight checks of the --from account before writing a file', async () => {
+    const error = expectError(
+      await runCli(network, ['tx', 'build', 'join', '11', '--from', ADDRESSES.bob]),
+      'INVALID_COMMITMENT'
+    );
+    assert.equal(error.details.blockers.length, 1);
+    expectError(
+      await runCli(network, ['tx', 'build', 'contribute', '10', '--from', ADDRESSES.bob]),
+      'NOT_MEMBER'
+    );
+    expectError(
+      await runCli(network, ['tx', 'build', 'leave', '--from', ADDRESSES.bob]),
+      'NOT_MEMBER'
+    );
+    assert.equal(existsSync(join(network.home, 'join.unsigned.json')), false);
+    assert.equal(existsSync(join(network.home, 'contribute.unsigned.json')), false);
+  });
+
+  it('builds, signs and broadcasts a join', async () => {
+    const built = expectOk(
+      await runCli(network, ['tx', 'build', 'join', '5', '--from', ADDRESSES.bob], { as: 'alice' })
+    );
+    assert.equal(built.path, 'join.unsigned.json');
+    assert.equal(built.file.from, ADDRESSES.bob);
+    assert.equal(built.file.transactions[0].functionName, 'joinPool');
+    assert.equal(network.pool.state.memberCount, 0n);
+
+    const signed = expectOk(await sign('join.unsigned.json'));
+    assert.equal(signed.path, 'join.signed.json');
+
+    const broadcast = expectOk(await runCli(network, ['tx', 'broadcast', 'join.signed.json']));
+    assert.deepEqual(eventNames(broadcast.transactions[0]), ['CommitmentUpdated', 'MemberJoined']);
+    assert.equal(broadcast.transactions[0].hash, signed.transactions[0].hash);
+    assert.equal(network.pool.state.memberCount, 1n);
+
+    expectError(
+      await runCli(network, ['tx', 'build', 'join', '5', '--from', ADDRESSES.bob]),
+      'ALREADY_MEMBER'
+    );
+    expectError(
+      await runCli(network, ['tx', 'build', 'leave', '--from', ADDRESSES.bob]),
+      'NO_CONTRIBUTIONS'
+    );
+
+    const list = expectOk(await runCli(network, ['tx', 'list'], { as: 'bob' }));
+    assert.deepEqual(
+      list.transactions.map((entry: any) => [entry.functionName, entry.status]),
+      [['joinPool', 'success']]
+    );
+  });
+
+  it('waits for what was already broadcast instead of sending it again', async () => {
+    const nonce = network.chain.nonceOf(ADDRESSES.bob);
+    const again = expectOk(await runCli(network, ['tx', 'broadcast', 'join.signed.json']));
+    assert.equal(again.transactions[0].status, 'success');
+    assert.equal(network.chain.nonceOf(ADDRESSES.bob), nonce);
+  });
+
+  it('signs the approval and the contribution together', async () => {
+    const built = expectOk(
+      await runCli(network, ['tx', 'build', 'contribute', '10', '--from', ADDRESSES.bob])
+    );
+    assert.deepEqual(
+      built.file.transactions.map((transaction: any) => [
+        transaction.functionName,
+        transaction.nonce,
+      ]),
+      [
+        ['approve', 1],
+        ['contributeExit', 2],
+      ]
+    );
+
+    expectError(await sign('contribute.unsigned.json', 'alice'), 'INVALID_ARGUMENT');
+    expectOk(await sign('contribute.unsigned.json'));
+    const broadcast = expectOk(
+      await runCli(network, ['tx', 'broadcast', 'contribute.signed.json'])
+    );
+    assert.equal(broadcast.transactions.length, 2);
+
+    const balance = expectOk(await runCli(network, ['usdy', 'balance'], { as: 'bob' }));
+    assert.equal(balance.balance.raw, (STARTING_BALANCE - usdy('10')).toString());
+
+    const leave = expectError(
+      await runCli(network, ['tx', 'build', 'leave', '--from', ADDRESSES.bob]),
+      'MIN_MEMBERSHIP_PERIOD_NOT_MET'
+    );
+    assert.equal(leave.details.blockers.length, 1);
+    assert.notEqual(leave.details.readyAt, null);
+  });
+
+  it('refuses files that do not match what they describe', async () => {
+    expectOk(await runCli(network, ['tx', 'build', 'join', '3', '--from', ADDRESSES.alice]));
+    const path = join(network.home, 'join.unsigned.json');
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    file.transactions[0].args = ['9'];
+    writeFileSync(path, JSON.stringify(file));
+
+    const error = expectError(await sign('join.unsigned.json', 'alice'), 'INVALID_ARGUMENT');
+    assert.match(error.message, /does not match joinPool\(9\)/);
+    expectError(
+      await runCli(network, ['tx', 'broadcast', 'join.unsigned.json']),
+      'INVALID_ARGUMENT'
+    );
+  });
+});
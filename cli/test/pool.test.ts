@@ -0,0 +1,300 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getAddress, maxUint256 } from 'viem';
+import {
+  ADDRESSES,
+  DAY,
+  STARTING_BALANCE,
+  TestNetwork,
+  eventNames,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('pool membership', () => {
+  let network: TestNetwork;
+  const balance = () => network.call(network.usdy, 'balanceOf', [ADDRESSES.alice]);
+  const poolAllowance = () =>
+    network.call(network.usdy, 'allowance', [ADDRESSES.alice, network.pool.address]);
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('rejects a commitment that is not a whole number', async () => {
+    expectError(await runCli(network, ['join', '2.5']), 'INVALID_ARGUMENT');
+  });
+
+  it('rejects a commitment outside the allowed range before sending', async () => {
+    const blocks = network.chain.blocks.length;
+    const error = expectError(await runCli(network, ['join', '11']), 'INVALID_COMMITMENT');
+    assert.equal(error.details.blockers.length, 1);
+    assert.equal(network.chain.blocks.length, blocks);
+  });
+
+  it('simulates a join without sending it', async () => {
+    const result = expectOk(await runCli(network, ['join', '5', '--dry-run']));
+    assert.equal(result.dryRun, true);
+    assert.equal(result.transaction, null);
+    assert.equal(result.simulation.functionName, 'joinPool');
+    assert.equal(network.pool.state.memberCount, 0n);
+  });
+
+  it('joins with the commitment', async () => {
+    const result = expectOk(await runCli(network, ['join', '5']));
+    assert.equal(result.transaction.status, 'success');
+    assert.deepEqual(eventNames(result.transaction), ['CommitmentUpdated', 'MemberJoined']);
+    assert.deepEqual(result.events.missing, []);
+    assert.equal(result.events.minedAt.unix, Number(network.chain.latest.timestamp));
+    assert.equal(network.pool.state.memberCount, 1n);
+    assert.equal(network.distributor.state.totalCommitment, 5n);
+  });
+
+  it('refuses to join twice', async () => {
+    expectError(await runCli(network, ['join', '5']), 'ALREADY_MEMBER');
+  });
+
+  it('blocks leaving before contributing and before the membership period', async () => {
+    const error = expectError(await runCli(network, ['leave']), 'NO_CONTRIBUTIONS');
+    assert.deepEqual(
+      error.details.blockers.map((blocker: { code: string }) => blocker.code),
+      ['NO_CONTRIBUTIONS', 'MIN_MEMBERSHIP_PERIOD_NOT_MET']
+    );
+  });
+
+  it('checks the balance before approving anything', async () => {
+    const error = expectError(
+      await runCli(network, ['contribute', '5000']),
+      'INSUFFICIENT_BALANCE'
+    );
+    assert.equal(error.details.balance.raw, STARTING_BALANCE.toString());
+    assert.equal(poolAllowance(), 0n);
+  });
+
+  it('approves only the shortfall, then contributes', async () => {
+    const result = expectOk(await runCli(network, ['contribute', '10']));
+    assert.equal(result.approval.transaction.status, 'success');
+    assert.equal(result.approval.simulation.functionName, 'increaseAllowance');
+    assert.deepEqual(eventNames(result.contribution.transaction), [
+      'ContributionProcessed',
+      'DividendsDistributed',
+      'ContributionReceived',
+      'DividendsDistributed',
+    ]);
+    assert.equal(result.contribution.events.expected.length, 4);
+    assert.deepEqual(result.contribution.events.missing, []);
+    assert.equal(balance(), STARTING_BALANCE - usdy('10'));
+    assert.equal(poolAllowance(), 0n);
+    assert.equal(network.call(network.pool, 'getTotalContributed'), usdy('10'));
+  });
+
+  it('reports when the next contribution is possible', async () => {
+    const lastContribution = Number(network.chain.latest.timestamp);
+    const result = expectOk(await runCli(network, ['next-contribution']));
+    assert.equal(result.hasContributed, true);
+    assert.equal(result.canContribute, false);
+    assert.equal(result.lastContributionAt.unix, lastContribution);
+    assert.equal(result.nextContributionAt.unix, lastContribution + 7 * DAY);
+  });
+
+  it('refuses a second contribution within the interval', async () => {
+    const error = expectError(
+      await runCli(network, ['contribute', '10']),
+      'CONTRIBUTION_TOO_FREQUENT'
+    );
+    assert.notEqual(error.details.readyAt, null);
+  });
+
+  it('contributes again a week later with an unlimited approval', async () => {
+    network.chain.increaseTime(7 * DAY);
+    const result = expectOk(
+      await runCli(network, ['contribute', '5', '--allowance-policy', 'unlimited'])
+    );
+    assert.equal(result.approval.simulation.functionName, 'approve');
+    assert.equal(poolAllowance(), maxUint256);
+    assert.equal(balance(), STARTING_BALANCE - usdy('15'));
+  });
+
+  it('leaves once the minimum membership period is over', async () => {
+    network.chain.increaseTime(90 * DAY);
+    const result = expectOk(await runCli(network, ['leave']));
+    assert.deepEqual(eventNames(result.transaction), ['MemberLeft']);
+    assert.equal(network.pool.state.memberCount, 0n);
+  });
+
+  it('refuses to leave twice', async () => {
+    expectError(await runCli(network, ['leave']), 'NOT_MEMBER');
+  });
+});
+
+describe('failed contributions', () => {
+  let network: TestNetwork;
+  const poolAllowance = () =>
+    network.call(network.usdy, 'allowance', [ADDRESSES.alice, network.pool.address]);
+
+  before(async () => {
+    network = await startNetwork();
+    expectOk(await runCli(network, ['join', '1']));
+  });
+  after(() => network.close());
+
+  it('checks the caps on the contribution before approving', async () => {
+    // Enough USDY for an exit value above MAX_EXIT_VALUE at a 1% commitment
+    network.call(network.usdy, 'mint', [ADDRESSES.alice, usdy('20000000')], 'admin');
+    const nonce = network.chain.nonceOf(ADDRESSES.alice);
+
+    const error = expectError(
+      await runCli(network, ['contribute', '20000000', '--yes']),
+      'EXIT_VALUE_TOO_LARGE'
+    );
+    assert.equal(error.details.blockers.length, 1);
+    assert.equal(network.chain.nonceOf(ADDRESSES.alice), nonce);
+  });
+
+  it('reports a revert found in simulation and resets the approval', async () => {
+    // Paused once the approval is sent, so only the contribution simulation fails
+    network.chain.beforeTransaction('increaseAllowance', () => {
+      network.call(network.pool, 'pause', [], 'admin');
+    });
+
+    try {
+      const error = expectError(
+        await runCli(network, ['contribute', '10', '--yes']),
+        'TX_WOULD_REVERT'
+      );
+      assert.equal(error.details.functionName, 'contributeExit');
+      assert.equal(error.details.revert.code, 'CONTRACT_PAUSED');
+      assert.equal(error.details.allowanceReset.transaction.status, 'success');
+      assert.equal(poolAllowance(), 0n);
+    } finally {
+      network.call(network.pool, 'unpause', [], 'admin');
+    }
+  });
+
+  it('only takes back the allowance the failed contribution added', async () => {
+    expectOk(await runCli(network, ['usdy', 'approve', network.pool.address, '3']));
+    network.chain.beforeTransaction('increaseAllowance', () => {
+      network.call(network.pool, 'pause', [], 'admin');
+    });
+
+    try {
+      const error = expectError(
+        await runCli(network, ['contribute', '10', '--yes']),
+        'TX_WOULD_REVERT'
+      );
+      assert.deepEqual(error.details.allowanceReset.simulation.functionName, 'decreaseAllowance');
+      assert.equal(poolAllowance(), usdy('3'));
+
+      const list = expectOk(await runCli(network, ['tx', 'list']));
+      assert.deepEqual(list.openFlows, []);
+    } finally {
+      network.call(network.pool, 'unpause', [], 'admin');
+    }
+  });
+
+  it('leaves an existing allowance alone when no approval was sent', async () => {
+    network.chain.beforeTransaction('contributeExit', () => {
+      network.call(network.pool, 'pause', [], 'admin');
+    });
+
+    try {
+      const error = expectError(await runCli(network, ['contribute', '3', '--yes']), 'TX_FAILED');
+      assert.equal(error.details.allowanceReset, undefined);
+      assert.equal(poolAllowance(), usdy('3'));
+    } finally {
+      network.call(network.pool, 'unpause', [], 'admin');
+    }
+  });
+
+  it('reports a contribution that reverted on-chain', async () => {
+    // Paused after the CLI simulated the contribution, before it is mined
+    network.chain.beforeTransaction('contributeExit', () => {
+      network.call(network.pool, 'pause', [], 'admin');
+    });
+
+    const error = expectError(await runCli(network, ['contribute', '10']), 'TX_FAILED');
+    assert.equal(error.details.transaction.status, 'reverted');
+    // Without --yes or a terminal to ask on, the approval is left in place
+    assert.equal(error.details.allowanceReset, undefined);
+    assert.equal(poolAllowance(), usdy('10'));
+  });
+
+  it('blocks contributing while the pool is paused', async () => {
+    const error = expectError(await runCli(network, ['contribute', '10']), 'CONTRACT_PAUSED');
+    assert.equal(error.details.readyAt, null);
+  });
+});
+
+describe('contributing an exit value', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+    expectOk(await runCli(network, ['join', '3']));
+  });
+  after(() => network.close());
+
+  it('needs exactly one of an amount and --exit-value', async () => {
+    expectError(await runCli(network, ['contribute']), 'INVALID_ARGUMENT');
+    expectError(
+      await runCli(network, ['contribute', '1', '--exit-value', '100']),
+      'INVALID_ARGUMENT'
+    );
+    expectError(await runCli(network, ['contribute', '1e3']), 'INVALID_ARGUMENT');
+  });
+
+  it('computes the contribution owed on an exit value', async () => {
+    const result = expectOk(
+      await runCli(network, ['contribute', '--exit-value', '100.5', '--dry-run'])
+    );
+    assert.equal(result.amount.raw, usdy('3.015').toString());
+    assert.equal(result.breakdown.commitment, 3);
+    assert.equal(result.breakdown.declaredExitValue.raw, usdy('100.5').toString());
+    assert.equal(result.breakdown.exitValue.raw, usdy('100.5').toString());
+  });
+
+  it('rounds the contribution up to the smallest unit', async () => {
+    const result = expectOk(
+      await runCli(network, ['contribute', '--exit-value', '10.000000000000000001', '--dry-run'])
+    );
+    assert.equal(result.amount.raw, (usdy('0.3') + 1n).toString());
+    // The pool derives at least the declared exit value
+    assert.equal(result.breakdown.exitValue.raw, usdy('10.000000000000000033').toString());
+  });
+
+  it('rejects an exit value above MAX_EXIT_VALUE', async () => {
+    const error = expectError(
+      await runCli(network, ['contribute', '--exit-value', '1000000001']),
+      'EXIT_VALUE_TOO_LARGE'
+    );
+    assert.equal(error.details.readyAt, null);
+  });
+
+  it('contributes the owed amount', async () => {
+    const result = expectOk(await runCli(network, ['contribute', '--exit-value', '100']));
+    assert.equal(result.contribution.transaction.status, 'success');
+    assert.equal(network.call(network.pool, 'getTotalContributed'), usdy('3'));
+  });
+});
+
+describe('event checks', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('warns when a write does not emit an expected event', async () => {
+    // The profile points at another distributor than the pool is wired to
+    const other = getAddress('0x00000000000000000000000000000000000d1571');
+    const run = await runCli(network, ['join', '5'], { env: { DISTRIBUTOR_ADDRESS: other } });
+    const result = expectOk(run);
+    assert.deepEqual(result.events.missing, [{ name: 'CommitmentUpdated', address: other }]);
+    assert.match(run.stderr, /WARNING: .* did not emit CommitmentUpdated/);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import {
+  RunningCli,
+  STARTING_BALANCE,
+  TestNetwork,
+  eventNames,
+  startCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+const TOKEN = 'test-token';
+
+describe('serve', () => {
+  let network: TestNetwork;
+  let server: RunningCli;
+  let url: string;
+
+  const request = async (method: string, path: string, body?: unknown, token = TOKEN) => {
+    const response = await fetch(`${url}${path}`, {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  before(async () => {
+    network = await startNetwork();
+    server = await startCli(network, ['serve', '--port', '0'], /Listening on (\S+)/, {
+      env: { FOUNDER_HEDGE_API_TOKEN: TOKEN },
+    });
+    url = server.ready[1];
+  });
+  after(async () => {
+    await server.stop();
+    await network.close();
+  });
+
+  it('requires the bearer token', async () => {
+    const response = await request('GET', '/status', undefined, 'wrong');
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error.code, 'AUTH_REQUIRED');
+    assert.equal((await request('GET', '/missing')).body.error.code, 'ROUTE_NOT_FOUND');
+  });
+
+  it('describes its routes with OpenAPI', async () => {
+    const response = await fetch(`${url}/openapi.json`);
+    const document: any = await response.json();
+    assert.equal(document.openapi, '3.0.3');
+    assert.deepEqual(Object.keys(document.paths), [
+      '/status',
+      '/next-contribution',
+      '/dividends',
+      '/usdy/balance',
+      '/join',
+      '/contribute',
+      '/leave',
+      '/openapi.json',
+    ]);
+  });
+
+  it('serves the read commands', async () => {
+    const status = await request('GET', '/status');
+    assert.equal(status.status, 200);
+    assert.equal(status.body.command, 'status');
+    assert.equal(status.body.result.isMember, false);
+
+    const balance = await request('GET', '/usdy/balance');
+    assert.equal(balance.body.result.balance.raw, STARTING_BALANCE.toString());
+  });
+
+  it('requires confirmation for writes unless they are dry runs', async () => {
+    const unconfirmed = await request('POST', '/join', { commitment: 5 });
+    assert.equal(unconfirmed.status, 400);
+    assert.equal(unconfirmed.body.error.code, 'CONFIRMATION_REQUIRED');
+
+    const dryRun = await request('POST', '/join', { commitment: 5, dryRun: true });
+    assert.equal(dryRun.body.result.dryRun, true);
+    assert.equal(dryRun.body.result.transaction, null);
+    assert.equal((await request('GET', '/status')).body.result.isMember, false);
+  });
+
+  it('sends confirmed writes', async () => {
+    const joined = await request('POST', '/join', { commitment: 5, confirm: true });
+    assert.equal(joined.status, 200);
+    assert.deepEqual(eventNames(joined.body.result.transaction), [
+      'CommitmentUpdated',
+      'MemberJoined',
+    ]);
+
+    const contributed = await request('POST', '/contribute', {
+      exitValue: '100',
+      confirm: true,
+    });
+    assert.equal(contributed.body.result.amount.raw, usdy('5').toString());
+  });
+
+  it('reports failures with the error codes of the CLI', async () => {
+    const response = await request('POST', '/leave', { confirm: true });
+    assert.equal(response.status, 422);
+    assert.equal(response.body.error.code, 'MIN_MEMBERSHIP_PERIOD_NOT_MET');
+
+    const invalid = await request('POST', '/contribute', { amount: 5, confirm: true });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error.code, 'INVALID_ARGUMENT');
+  });
+});
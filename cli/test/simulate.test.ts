@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import { CliError } from '../src/errors.js';
+import { loadScenario, simulateScenario } from '../src/simulator.js';
+import { DAY, usdy } from './support/cli.js';
+
+const JOIN = Date.parse('2025-01-01') / 1000;
+
+describe('simulate', () => {
+  let directory: string;
+  const writeScenario = (scenario: unknown) => {
+    const path = join(directory, 'scenario.json');
+    writeFileSync(path, JSON.stringify(scenario));
+    return path;
+  };
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'founder-hedge-simulate-'));
+  });
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('reports every problem of a scenario', () => {
+    const path = writeScenario({
+      members: [
+        { name: 'alice', commitment: 2.5, joinAt: 'soon' },
+        { name: 'bob', commitment: 3, joinAt: '2025-01-01', exits: [{ at: 0, value: 100 }] },
+        { name: 'bob', commitment: 3, joinAt: '2025-01-01' },
+      ],
+    });
+    assert.throws(
+      () => loadScenario(path),
+      (error: CliError) => {
+        assert.equal(error.code, 'SCENARIO_INVALID');
+        assert.deepEqual(error.details?.problems, [
+          'members[0].commitment must be a whole percentage',
+          'members[0].joinAt must be an ISO date or unix seconds',
+          'members[1].exits[0].value must be a decimal string of USDY with at most 18 decimals',
+          'Member "bob" is listed twice',
+        ]);
+        return true;
+      }
+    );
+  });
+
+  it('credits the contributor a commitment-weighted share of their exit', () => {
+    const { members, pool } = simulateScenario(
+      loadScenario(
+        writeScenario({
+          members: [
+            {
+              name: 'alice',
+              commitment: 3,
+              joinAt: '2025-01-01',
+              exits: [{ at: '2025-06-01', value: '1000000' }],
+            },
+            { name: 'bob', commitment: 8, joinAt: '2025-01-01' },
+          ],
+        })
+      )
+    );
+
+    const contribution = usdy('30000');
+    const dividend = (contribution * 3n * 10n ** 18n) / 11n / 10n ** 18n;
+    assert.deepEqual(members[0].position, {
+      contributed: contribution,
+      dividends: dividend,
+      net: dividend - contribution,
+    });
+    assert.deepEqual(members[1].position, { contributed: 0n, dividends: 0n, net: 0n });
+    assert.equal(pool.undistributed, contribution - dividend);
+    assert.equal(pool.totalCommitment, 11n);
+  });
+
+  it('defers actions until time-based rules lift and rejects the rest', () => {
+    const { timeline } = simulateScenario({
+      name: null,
+      members: [
+        {
+          name: 'alice',
+          commitment: 5n,
+          joinAt: JOIN,
+          leaveAt: JOIN + 30 * DAY,
+          exits: [
+            { at: JOIN + 10 * DAY, value: usdy('100') },
+            { at: JOIN + 12 * DAY, value: usdy('100') },
+            { at: JOIN + 40 * DAY, value: usdy('2000000000') },
+          ],
+        },
+        { name: 'bob', commitment: 12n, joinAt: JOIN, leaveAt: null, exits: [] },
+      ],
+    });
+
+    assert.deepEqual(
+      timeline.map(entry => [
+        entry.member,
+        entry.action,
+        entry.status,
+        entry.reason,
+        (entry.at - JOIN) / DAY,
+      ]),
+      [
+        ['alice', 'join', 'applied', null, 0],
+        ['bob', 'join', 'rejected', 'INVALID_COMMITMENT', 0],
+        ['alice', 'exit', 'applied', null, 10],
+        ['alice', 'exit', 'applied', 'DISTRIBUTION_TOO_FREQUENT', 17],
+        ['alice', 'exit', 'rejected', 'EXIT_VALUE_TOO_LARGE', 40],
+        ['alice', 'leave', 'applied', 'MIN_MEMBERSHIP_PERIOD_NOT_MET', 90],
+      ]
+    );
+    // Alone in the pool, alice gets her whole contribution back
+    assert.equal(timeline[3].position.net, 0n);
+  });
+
+  it('rejects leaving before any contribution', () => {
+    const { timeline } = simulateScenario({
+      name: null,
+      members: [{ name: 'alice', commitment: 5n, joinAt: JOIN, leaveAt: JOIN + DAY, exits: [] }],
+    });
+    assert.equal(timeline[1].reason, 'NO_CONTRIBUTIONS');
+  });
+});
@@ -0,0 +1,323 @@
+import assert from 'node:assert/strict';
+import { execFile, spawn } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { Address, Hex, getContractAddress, parseUnits, zeroAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  dividendDistributorAbi,
+  exitContributionAbi,
+  successPoolAbi,
+  usdyAbi,
+} from '../../src/sdk/index.js';
+import {
+  DividendDistributor,
+  EMULATED_CREATION,
+  EmulatedContract,
+  ExitContribution,
+  SuccessPool,
+  Usdy,
+} from './contracts.js';
+import { MockChain } from './mock-chain.js';
+
+const CLI_PATH = fileURLToPath(new URL('../../src/index.js', import.meta.url));
+
+const CHAIN_ID = 31337;
+
+// Kills a CLI run that hangs, e.g. waiting for a receipt that never comes
+const RUN_TIMEOUT_MS = 60_000;
+
+// Variables of the developer's shell that would change what the CLI connects to
+const ISOLATED_ENV = [
+  'RPC_URL',
+  'CHAIN_ID',
+  'POOL_ADDRESS',
+  'DISTRIBUTOR_ADDRESS',
+  'USDY_ADDRESS',
+  'EXIT_CONTRIBUTION_ADDRESS',
+  'PRIVATE_KEY',
+  'FOUNDER_HEDGE_PLAINTEXT_KEY',
+  'FOUNDER_HEDGE_HOME',
+  'FOUNDER_HEDGE_CONFIG',
+  'FOUNDER_HEDGE_NETWORK',
+  'FOUNDER_HEDGE_ACCOUNT',
+  'FOUNDER_HEDGE_PASSPHRASE',
+];
+
+/**
+ * Well-known development keys, the same anvil prints
+ */
+export const KEYS = {
+  admin: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  alice: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  bob: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3b09a4e5a6aa5c2f',
+} as const satisfies Record<string, Hex>;
+
+export type Signer = keyof typeof KEYS;
+
+export const ADDRESSES = Object.fromEntries(
+  Object.entries(KEYS).map(([name, key]) => [name, privateKeyToAccount(key).address])
+) as Record<Signer, Address>;
+
+// USDY every member starts with
+export const STARTING_BALANCE = usdy('1000');
+
+export const DAY = 86400;
+
+export function usdy(amount: string): bigint {
+  return parseUnits(amount, 18);
+}
+
+export interface NetworkOptions {
+  // Leave the pool and ExitContribution unwired, like a fresh deployment
+  wired?: boolean;
+}
+
+export interface TestNetwork {
+  chain: MockChain;
+  // FOUNDER_HEDGE_HOME and working directory of CLI runs
+  home: string;
+  configPath: string;
+  pool: SuccessPool;
+  exitContribution: ExitContribution;
+  distributor: DividendDistributor;
+  usdy: Usdy;
+  /**
+   * Call a contract directly against the latest block, outside of any
+   * transaction. Used to read state and to set up scenarios.
+   */
+  call(contract: EmulatedContract, functionName: string, args?: unknown[], as?: Signer): any;
+  close(): Promise<void>;
+}
+
+/**
+ * Deploy the contracts on a fresh mock chain, fund the members and write a
+ * config file pointing the CLI at it
+ */
+export async function startNetwork({ wired = true }: NetworkOptions = {}): Promise<TestNetwork> {
+  const chain = new MockChain(CHAIN_ID);
+  const { world } = chain;
+  const deployer = ADDRESSES.admin;
+  const deployed = (nonce: number) => getContractAddress({ from: deployer, nonce: BigInt(nonce) });
+
+  const exitContribution = world.add(new ExitContribution(world, deployed(0), deployer));
+  const token = world.add(new Usdy(world, deployed(1), deployer));
+  const pool = world.add(
+    new SuccessPool(
+      world,
+      deployed(2),
+      deployer,
+      exitContribution.address,
+      zeroAddress,
+      token.address
+    )
+  );
+  const distributor = world.add(
+    new DividendDistributor(world, deployed(3), deployer, pool.address)
+  );
+
+  const asAdmin = chain.context(deployer);
+  if (wired) {
+    world.call(asAdmin, exitContribution.address, 'setPoolContract', [pool.address]);
+    world.call(asAdmin, pool.address, 'setDividendDistributor', [distributor.address]);
+  }
+  for (const member of [ADDRESSES.alice, ADDRESSES.bob]) {
+    world.call(asAdmin, token.address, 'mint', [member, STARTING_BALANCE]);
+  }
+  world.logs = [];
+
+  await chain.listen();
+
+  const home = mkdtempSync(join(tmpdir(), 'founder-hedge-test-'));
+  const configPath = join(home, 'founder-hedge.config.json');
+  writeFileSync(
+    configPath,
+    JSON.stringify({
+      defaultNetwork: 'test',
+      networks: {
+        test: {
+          rpcUrl: chain.url,
+          chainId: CHAIN_ID,
+          poolAddress: pool.address,
+          distributorAddress: distributor.address,
+          usdyAddress: token.address,
+        },
+      },
+    })
+  );
+
+  return {
+    chain,
+    home,
+    configPath,
+    pool,
+    exitContribution,
+    distributor,
+    usdy: token,
+    call(contract, functionName, args = [], as = 'alice') {
+      const result = world.call(chain.context(ADDRESSES[as]), contract.address, functionName, args);
+      world.logs = [];
+      return result;
+    },
+    async close() {
+      await chain.close();
+      rmSync(home, { recursive: true, force: true });
+    },
+  };
+}
+
+const ARTIFACT_ABIS = {
+  USDY: usdyAbi,
+  ExitContribution: exitContributionAbi,
+  SuccessPool: successPoolAbi,
+  DividendDistributor: dividendDistributorAbi,
+};
+
+/**
+ * Write forge artifacts of the emulated contracts into the network's home, as
+ * `forge build` lays them out
+ */
+export function writeArtifacts(network: TestNetwork, dir = 'out') {
+  for (const [name, creation] of Object.entries(EMULATED_CREATION)) {
+    const abi = [
+      { type: 'constructor', inputs: creation.inputs, stateMutability: 'nonpayable' },
+      ...ARTIFACT_ABIS[name as keyof typeof ARTIFACT_ABIS],
+    ];
+    mkdirSync(join(network.home, dir, `${name}.sol`), { recursive: true });
+    writeFileSync(
+      join(network.home, dir, `${name}.sol`, `${name}.json`),
+      JSON.stringify({ abi, bytecode: { object: creation.code, linkReferences: {} } })
+    );
+  }
+}
+
+export interface RunOptions {
+  as?: Signer;
+  env?: Record<string, string>;
+}
+
+export interface CliRun {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  // The --json envelope printed by the command
+  output: any;
+}
+
+function cliEnv(network: TestNetwork, as: Signer, env: Record<string, string>) {
+  const childEnv: NodeJS.ProcessEnv = { ...process.env };
+  for (const name of ISOLATED_ENV) delete childEnv[name];
+  return Object.assign(childEnv, {
+    FOUNDER_HEDGE_HOME: network.home,
+    FOUNDER_HEDGE_CONFIG: network.configPath,
+    PRIVATE_KEY: KEYS[as],
+    FOUNDER_HEDGE_PLAINTEXT_KEY: '1',
+    ...env,
+  });
+}
+
+/**
+ * Run the compiled CLI against a test network with --json output
+ */
+export function runCli(
+  network: TestNetwork,
+  args: string[],
+  { as = 'alice', env = {} }: RunOptions = {}
+): Promise<CliRun> {
+  return new Promise(resolve => {
+    execFile(
+      process.execPath,
+      [CLI_PATH, '--json', ...args],
+      { cwd: network.home, env: cliEnv(network, as, env), timeout: RUN_TIMEOUT_MS },
+      (error, stdout, stderr) => {
+        let output = null;
+        try {
+          output = JSON.parse(stdout);
+        } catch {
+          // Left null, assertions print stdout and stderr
+        }
+        const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+        resolve({ exitCode, stdout, stderr, output });
+      }
+    );
+  });
+}
+
+export interface RunningCli {
+  // The first stdout line matching the pattern the command was started with
+  ready: RegExpExecArray;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a long-running command, without --json, and wait until it prints a
+ * line matching `ready`
+ */
+export function startCli(
+  network: TestNetwork,
+  args: string[],
+  ready: RegExp,
+  { as = 'alice', env = {} }: RunOptions = {}
+): Promise<RunningCli> {
+  const child = spawn(process.execPath, [CLI_PATH, ...args], {
+    cwd: network.home,
+    env: cliEnv(network, as, env),
+  });
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  const stop = async () => {
+    child.kill();
+    await exited;
+  };
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    const timer = setTimeout(() => {
+      void stop();
+      reject(new Error(`Command did not print ${ready} in time\nstdout: ${stdout}`));
+    }, RUN_TIMEOUT_MS);
+    child.stdout.on('data', chunk => {
+      stdout += chunk;
+      const match = ready.exec(stdout);
+      if (match) {
+        clearTimeout(timer);
+        resolve({ ready: match, stop });
+      }
+    });
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Command exited with ${code} before it was ready\nstdout: ${stdout}`));
+    });
+  });
+}
+
+function describeRun(run: CliRun): string {
+  return `exit code ${run.exitCode}\nstdout: ${run.stdout}\nstderr: ${run.stderr}`;
+}
+
+/**
+ * Assert a run succeeded and return its result
+ */
+export function expectOk(run: CliRun): any {
+  assert.equal(run.output?.ok, true, describeRun(run));
+  assert.equal(run.exitCode, 0, describeRun(run));
+  return run.output.result;
+}
+
+/**
+ * Assert a run failed with the error code and return the error
+ */
+export function expectError(run: CliRun, code: string): any {
+  assert.equal(run.output?.ok, false, describeRun(run));
+  assert.equal(run.output.error.code, code, describeRun(run));
+  assert.equal(run.exitCode, 1, describeRun(run));
+  return run.output.error;
+}
+
+/**
+ * Names of the events a command's transaction emitted
+ */
+export function eventNames(transaction: { events: { name: string }[] }): string[] {
+  return transaction.events.map(event => event.name);
+}
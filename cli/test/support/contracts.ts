@@ -0,0 +1,847 @@
+import {
+  Abi,
+  Address,
+  Hex,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  getAbiItem,
+  getAddress,
+  getFunctionSelector,
+  isAddressEqual,
+  keccak256,
+  maxUint256,
+  parseAbi,
+  toHex,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import {
+  USDY_DEBUG_ADDRESS,
+  dividendDistributorAbi,
+  exitContributionAbi,
+  successPoolAbi,
+  usdyAbi,
+} from '../../src/sdk/index.js';
+
+/**
+ * A revert of an emulated contract, carrying the revert data a node returns
+ */
+export class Revert extends Error {
+  constructor(readonly data: Hex) {
+    super(`execution reverted (${data.slice(0, 10)})`);
+    this.name = 'Revert';
+  }
+}
+
+/**
+ * Block the emulated code runs in and the caller of the current frame
+ */
+export interface CallContext {
+  sender: Address;
+  timestamp: bigint;
+}
+
+export interface EmittedLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+}
+
+type AbiFunction = Extract<Abi[number], { type: 'function' }>;
+
+type AbiParameter = AbiFunction['inputs'][number];
+
+type Method = (ctx: CallContext, ...args: any[]) => unknown;
+
+const builtinErrorsAbi = parseAbi(['error Error(string reason)', 'error Panic(uint256 code)']);
+
+// Thrown by SRC20 but declared in the OpenZeppelin sources, not in the generated ABIs
+const erc20ErrorsAbi = parseAbi([
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidSender(address sender)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidApprover(address approver)',
+  'error ERC20InvalidSpender(address spender)',
+]);
+
+// Solidity panic code of a checked arithmetic overflow
+const PANIC_OVERFLOW = 0x11n;
+
+// Bytecode returned by eth_getCode, only its presence is checked
+export const EMULATED_CODE: Hex = '0x6080604052';
+
+const DAY = 86400n;
+
+/**
+ * require(condition, reason)
+ */
+export function check(condition: boolean, reason: string): asserts condition {
+  if (!condition) {
+    throw new Revert(
+      encodeErrorResult({ abi: builtinErrorsAbi, errorName: 'Error', args: [reason] })
+    );
+  }
+}
+
+function fail(abi: Abi, errorName: string, args: readonly unknown[] = []): never {
+  throw new Revert(encodeErrorResult({ abi, errorName, args } as any));
+}
+
+// Checked uint256 arithmetic
+function checked(value: bigint): bigint {
+  if (value < 0n || value > maxUint256) fail(builtinErrorsAbi, 'Panic', [PANIC_OVERFLOW]);
+  return value;
+}
+
+function key(address: Address): string {
+  return address.toLowerCase();
+}
+
+// Transparent counterpart of a shielded parameter type
+function transparent(parameters: readonly AbiParameter[]): AbiParameter[] {
+  return parameters.map(parameter => ({
+    ...parameter,
+    type: parameter.type.replace(/^s(u?int\d*|address|bool)\b/, '$1'),
+  }));
+}
+
+/**
+ * Holds the emulated contracts and routes calls between them, like the EVM
+ * would. State is snapshotted around calls so reverts and reads leave no trace.
+ */
+export class World {
+  private readonly contracts = new Map<string, EmulatedContract>();
+  logs: EmittedLog[] = [];
+
+  add<T extends EmulatedContract>(contract: T): T {
+    this.contracts.set(key(contract.address), contract);
+    return contract;
+  }
+
+  get(address: Address): EmulatedContract | undefined {
+    return this.contracts.get(key(address));
+  }
+
+  /**
+   * Call a function of a contract by name, from another contract or a test
+   */
+  call(ctx: CallContext, to: Address, functionName: string, args: readonly unknown[]): unknown {
+    const contract = this.get(to);
+    // Solidity reverts without data when a high-level call targets an address without code
+    if (!contract) throw new Revert('0x');
+    return contract.invoke(ctx, functionName, args);
+  }
+
+  /**
+   * Run plaintext calldata against a contract and ABI-encode what it returns
+   */
+  execute(ctx: CallContext, to: Address, data: Hex): { functionName: string; result: Hex } {
+    const contract = this.get(to);
+    if (!contract) return { functionName: '', result: '0x' };
+
+    const item = contract.findFunction(data.slice(0, 10) as Hex);
+    if (!item) throw new Revert('0x');
+
+    const args = decodeAbiParameters(transparent(item.inputs), `0x${data.slice(10)}`);
+    const value = contract.invoke(ctx, item.name, args);
+    const outputs = transparent(item.outputs);
+    const result =
+      outputs.length === 0
+        ? '0x'
+        : encodeAbiParameters(outputs, outputs.length === 1 ? [value] : (value as unknown[]));
+    return { functionName: item.name, result };
+  }
+
+  /**
+   * Run a contract creation: the stand-in creation code of an emulated
+   * contract followed by its ABI-encoded constructor arguments
+   */
+  deploy(ctx: CallContext, address: Address, data: Hex): EmulatedContract {
+    const entry = Object.values(EMULATED_CREATION).find(candidate =>
+      data.toLowerCase().startsWith(candidate.code.toLowerCase())
+    );
+    if (!entry) throw new Revert('0x');
+    const args = decodeAbiParameters(entry.inputs, `0x${data.slice(entry.code.length)}`);
+    return this.add(entry.create(this, address, ctx.sender, args));
+  }
+
+  snapshot(): Map<string, object> {
+    return new Map([...this.contracts].map(([address, c]) => [address, structuredClone(c.state)]));
+  }
+
+  restore(snapshot: Map<string, object>) {
+    for (const [address, state] of snapshot) {
+      this.contracts.get(address)!.state = state;
+    }
+  }
+}
+
+/**
+ * A FounderHedge contract reimplemented in TypeScript from its Solidity source
+ */
+export abstract class EmulatedContract<State extends object = object> {
+  protected abstract readonly methods: Record<string, Method>;
+  private readonly selectors: Map<string, AbiFunction>;
+
+  constructor(
+    readonly world: World,
+    readonly address: Address,
+    readonly abi: Abi,
+    public state: State
+  ) {
+    const functions = abi.filter((item): item is AbiFunction => item.type === 'function');
+    // Shielded functions are selected by their signature with the shielded types
+    this.selectors = new Map(functions.map(item => [getFunctionSelector(item), item]));
+  }
+
+  findFunction(selector: Hex): AbiFunction | undefined {
+    return this.selectors.get(selector);
+  }
+
+  invoke(ctx: CallContext, functionName: string, args: readonly unknown[]): unknown {
+    const method = this.methods[functionName];
+    if (!method) {
+      throw new Error(`${this.constructor.name}.${functionName} is not emulated`);
+    }
+    return method(ctx, ...args);
+  }
+
+  protected emit(eventName: string, args: Record<string, unknown> = {}) {
+    const item = getAbiItem({ abi: this.abi, name: eventName } as any) as any;
+    const data = (item.inputs as AbiParameter[]).filter(input => !(input as any).indexed);
+    this.world.logs.push({
+      address: this.address,
+      topics: encodeEventTopics({ abi: this.abi, eventName, args } as any) as Hex[],
+      data: encodeAbiParameters(
+        data,
+        data.map(input => args[input.name!])
+      ),
+    });
+  }
+
+  protected revert(errorName: string, args: readonly unknown[] = []): never {
+    fail(this.abi, errorName, args);
+  }
+
+  // Calls into other contracts are made with this contract as the sender
+  protected call(ctx: CallContext, to: Address, functionName: string, args: readonly unknown[]) {
+    return this.world.call({ ...ctx, sender: this.address }, to, functionName, args);
+  }
+}
+
+/**
+ * Emergency controls shared by the pool, ExitContribution and DividendDistributor
+ */
+interface AdminState {
+  paused: boolean;
+  admin: Address;
+}
+
+abstract class AdminControlled<State extends AdminState> extends EmulatedContract<State> {
+  protected adminMethods(): Record<string, Method> {
+    return {
+      paused: () => this.state.paused,
+      admin: () => this.state.admin,
+      pause: ctx => {
+        this.onlyAdmin(ctx);
+        this.state.paused = true;
+        this.emit('EmergencyPaused');
+      },
+      unpause: ctx => {
+        this.onlyAdmin(ctx);
+        this.state.paused = false;
+        this.emit('EmergencyUnpaused');
+      },
+      changeAdmin: (ctx, newAdmin: Address) => {
+        this.onlyAdmin(ctx);
+        check(newAdmin !== zeroAddress, 'Invalid admin address');
+        this.state.admin = newAdmin;
+        this.emit('AdminChanged', { newAdmin });
+      },
+    };
+  }
+
+  protected onlyAdmin(ctx: CallContext) {
+    if (!isAddressEqual(ctx.sender, this.state.admin)) this.revert('Unauthorized');
+  }
+
+  protected whenNotPaused() {
+    if (this.state.paused) this.revert('ContractPaused');
+  }
+}
+
+interface PoolState extends AdminState {
+  commitments: Map<string, bigint>;
+  totalContributed: Map<string, bigint>;
+  members: Set<string>;
+  joinTimes: Map<string, bigint>;
+  totalPoolValue: bigint;
+  memberCount: bigint;
+  exitContribution: Address;
+  dividendDistributor: Address;
+  usdy: Address;
+}
+
+export const POOL_CONSTANTS = {
+  MIN_COMMITMENT_PERCENTAGE: 1n,
+  MAX_COMMITMENT_PERCENTAGE: 10n,
+  MIN_MEMBERSHIP_PERIOD: 90n * DAY,
+  MAX_EXIT_VALUE: 10n ** 27n,
+  MIN_CONTRIBUTION_INTERVAL: 7n * DAY,
+} as const;
+
+export class SuccessPool extends AdminControlled<PoolState> {
+  constructor(
+    world: World,
+    address: Address,
+    deployer: Address,
+    exitContribution: Address,
+    dividendDistributor: Address,
+    usdy: Address
+  ) {
+    super(world, address, successPoolAbi, {
+      paused: false,
+      admin: deployer,
+      commitments: new Map(),
+      totalContributed: new Map(),
+      members: new Set(),
+      joinTimes: new Map(),
+      totalPoolValue: 0n,
+      memberCount: 0n,
+      exitContribution,
+      dividendDistributor,
+      usdy,
+    });
+    check(exitContribution !== zeroAddress, 'Invalid exit contribution address');
+    check(usdy !== zeroAddress, 'Invalid USDY address');
+  }
+
+  protected readonly methods: Record<string, Method> = {
+    ...this.adminMethods(),
+    ...Object.fromEntries(
+      Object.entries(POOL_CONSTANTS).map(([name, value]) => [name, () => value])
+    ),
+    memberCount: () => this.state.memberCount,
+    exitContribution: () => this.state.exitContribution,
+    dividendDistributor: () => this.state.dividendDistributor,
+    USDY: () => this.state.usdy,
+
+    setDividendDistributor: (ctx, distributor: Address) => {
+      this.onlyAdmin(ctx);
+      check(this.state.dividendDistributor === zeroAddress, 'Distributor already set');
+      check(distributor !== zeroAddress, 'Invalid distributor address');
+      this.state.dividendDistributor = distributor;
+      this.emit('DividendDistributorUpdated', { newDistributor: distributor });
+    },
+
+    joinPool: (ctx, commitment: bigint) => {
+      const member = key(ctx.sender);
+      check(!this.state.members.has(member), 'Already a member');
+      check(
+        commitment >= POOL_CONSTANTS.MIN_COMMITMENT_PERCENTAGE &&
+          commitment <= POOL_CONSTANTS.MAX_COMMITMENT_PERCENTAGE,
+        'Invalid commitment percentage'
+      );
+      this.state.members.add(member);
+      this.state.joinTimes.set(member, ctx.timestamp);
+      this.state.commitments.set(member, commitment);
+      this.state.memberCount++;
+      this.call(ctx, this.state.dividendDistributor, 'updateCommitment', [ctx.sender, commitment]);
+      this.emit('MemberJoined', { member: ctx.sender });
+    },
+
+    contributeExit: (ctx, contribution: bigint) => {
+      this.whenNotPaused();
+      const member = key(ctx.sender);
+      check(this.state.members.has(member), 'Not a member');
+      const exitValue = checked(contribution * 100n) / this.state.commitments.get(member)!;
+      check(exitValue <= POOL_CONSTANTS.MAX_EXIT_VALUE, 'Exit value too large');
+
+      this.call(ctx, this.state.exitContribution, 'processContribution', [
+        ctx.sender,
+        contribution,
+      ]);
+      this.call(ctx, this.state.dividendDistributor, 'distributeDividends', [
+        ctx.sender,
+        contribution,
+        this.state.memberCount,
+      ]);
+      this.state.totalContributed.set(
+        member,
+        checked((this.state.totalContributed.get(member) ?? 0n) + contribution)
+      );
+      this.state.totalPoolValue = checked(this.state.totalPoolValue + contribution);
+
+      const success = this.call(ctx, this.state.usdy, 'transferFrom', [
+        ctx.sender,
+        this.address,
+        contribution,
+      ]);
+      if (!success) this.revert('TransferFailed');
+      this.emit('ContributionReceived', { member: ctx.sender });
+      this.emit('DividendsDistributed');
+    },
+
+    leavePool: ctx => {
+      this.whenNotPaused();
+      const member = key(ctx.sender);
+      check(this.state.members.has(member), 'Not a member');
+      check((this.state.totalContributed.get(member) ?? 0n) > 0n, 'Must contribute before leaving');
+      check(
+        ctx.timestamp >=
+          (this.state.joinTimes.get(member) ?? 0n) + POOL_CONSTANTS.MIN_MEMBERSHIP_PERIOD,
+        'Minimum membership period not met'
+      );
+      this.state.members.delete(member);
+      this.state.memberCount--;
+      this.emit('MemberLeft', { member: ctx.sender });
+    },
+
+    getCommitmentPercentage: ctx => {
+      check(this.state.members.has(key(ctx.sender)), 'Not a member');
+      return this.state.commitments.get(key(ctx.sender))!;
+    },
+    getTotalContributed: ctx => {
+      check(this.state.members.has(key(ctx.sender)), 'Not a member');
+      return this.state.totalContributed.get(key(ctx.sender)) ?? 0n;
+    },
+    getMemberJoinTime: ctx => this.state.joinTimes.get(key(ctx.sender)) ?? 0n,
+  };
+}
+
+interface ExitContributionState extends AdminState {
+  poolContract: Address;
+  lastContribution: Map<string, bigint>;
+  totalProcessed: Map<string, bigint>;
+  lastProcessTime: Map<string, bigint>;
+}
+
+export const EXIT_CONTRIBUTION_CONSTANTS = {
+  MIN_PROCESS_INTERVAL: DAY,
+  MAX_CONTRIBUTION: 10n ** 27n,
+} as const;
+
+export class ExitContribution extends AdminControlled<ExitContributionState> {
+  constructor(world: World, address: Address, deployer: Address) {
+    super(world, address, exitContributionAbi, {
+      paused: false,
+      admin: deployer,
+      poolContract: zeroAddress,
+      lastContribution: new Map(),
+      totalProcessed: new Map(),
+      lastProcessTime: new Map(),
+    });
+  }
+
+  protected readonly methods: Record<string, Method> = {
+    ...this.adminMethods(),
+    ...Object.fromEntries(
+      Object.entries(EXIT_CONTRIBUTION_CONSTANTS).map(([name, value]) => [name, () => value])
+    ),
+    poolContract: () => this.state.poolContract,
+
+    setPoolContract: (ctx, pool: Address) => {
+      this.onlyAdmin(ctx);
+      check(this.state.poolContract === zeroAddress, 'Pool already set');
+      check(pool !== zeroAddress, 'Invalid pool address');
+      this.state.poolContract = pool;
+      this.emit('PoolContractUpdated', { newPool: pool });
+    },
+
+    processContribution: (ctx, contributor: Address, contribution: bigint) => {
+      check(isAddressEqual(ctx.sender, this.state.poolContract), 'Only pool can call');
+      this.whenNotPaused();
+      check(contributor !== zeroAddress, 'Invalid contributor address');
+      check(contribution <= EXIT_CONTRIBUTION_CONSTANTS.MAX_CONTRIBUTION, 'Contribution too large');
+      const member = key(contributor);
+      const last = this.state.lastProcessTime.get(member) ?? 0n;
+      if (ctx.timestamp < last + EXIT_CONTRIBUTION_CONSTANTS.MIN_PROCESS_INTERVAL) {
+        this.revert('ProcessTooFrequent');
+      }
+      this.state.lastContribution.set(member, contribution);
+      this.state.totalProcessed.set(
+        member,
+        checked((this.state.totalProcessed.get(member) ?? 0n) + contribution)
+      );
+      this.state.lastProcessTime.set(member, ctx.timestamp);
+      this.emit('ContributionProcessed', { contributor, timestamp: ctx.timestamp });
+    },
+
+    getLastContribution: ctx => this.state.lastContribution.get(key(ctx.sender)) ?? 0n,
+    getTotalProcessedValue: ctx => this.state.totalProcessed.get(key(ctx.sender)) ?? 0n,
+    getLastProcessTime: ctx => this.state.lastProcessTime.get(key(ctx.sender)) ?? 0n,
+  };
+}
+
+interface DistributorState extends AdminState {
+  poolContract: Address;
+  pending: Map<string, bigint>;
+  received: Map<string, bigint>;
+  commitments: Map<string, bigint>;
+  lastCommitmentUpdate: Map<string, bigint>;
+  lastDistribution: Map<string, bigint>;
+  totalCommitment: bigint;
+  totalDistributed: bigint;
+}
+
+export const DISTRIBUTOR_CONSTANTS = {
+  MIN_COMMITMENT_PERCENTAGE: 1n,
+  MAX_COMMITMENT_PERCENTAGE: 10n,
+  COMMITMENT_LOCK_PERIOD: 90n * DAY,
+  MIN_DISTRIBUTION_INTERVAL: 7n * DAY,
+  MAX_CLAIM_AMOUNT: 10n ** 27n,
+  PRECISION: 10n ** 18n,
+} as const;
+
+export class DividendDistributor extends AdminControlled<DistributorState> {
+  constructor(world: World, address: Address, deployer: Address, pool: Address) {
+    super(world, address, dividendDistributorAbi, {
+      paused: false,
+      admin: deployer,
+      poolContract: pool,
+      pending: new Map(),
+      received: new Map(),
+      commitments: new Map(),
+      lastCommitmentUpdate: new Map(),
+      lastDistribution: new Map(),
+      totalCommitment: 0n,
+      totalDistributed: 0n,
+    });
+    check(pool !== zeroAddress, 'Invalid pool address');
+  }
+
+  private onlyPool(ctx: CallContext) {
+    check(isAddressEqual(ctx.sender, this.state.poolContract), 'Only pool can call');
+  }
+
+  protected readonly methods: Record<string, Method> = {
+    ...this.adminMethods(),
+    ...Object.fromEntries(
+      Object.entries(DISTRIBUTOR_CONSTANTS).map(([name, value]) => [name, () => value])
+    ),
+    poolContract: () => this.state.poolContract,
+    pool: () => this.state.poolContract,
+
+    updateCommitment: (ctx, member: Address, percentage: bigint) => {
+      this.onlyPool(ctx);
+      this.whenNotPaused();
+      check(percentage >= DISTRIBUTOR_CONSTANTS.MIN_COMMITMENT_PERCENTAGE, 'Commitment too low');
+      check(percentage <= DISTRIBUTOR_CONSTANTS.MAX_COMMITMENT_PERCENTAGE, 'Commitment too high');
+      const id = key(member);
+      check(
+        ctx.timestamp >=
+          (this.state.lastCommitmentUpdate.get(id) ?? 0n) +
+            DISTRIBUTOR_CONSTANTS.COMMITMENT_LOCK_PERIOD,
+        'Commitment locked'
+      );
+      const previous = this.state.commitments.get(id) ?? 0n;
+      this.state.totalCommitment = checked(this.state.totalCommitment - previous + percentage);
+      this.state.commitments.set(id, percentage);
+      this.state.lastCommitmentUpdate.set(id, ctx.timestamp);
+      this.emit('CommitmentUpdated', { member, timestamp: ctx.timestamp });
+    },
+
+    distributeDividends: (ctx, member: Address, amount: bigint, memberCount: bigint) => {
+      this.onlyPool(ctx);
+      this.whenNotPaused();
+      const id = key(member);
+      check(memberCount > 0n, 'No members to distribute to');
+      check(this.state.totalCommitment > 0n, 'No commitments registered');
+      const commitment = this.state.commitments.get(id) ?? 0n;
+      check(commitment > 0n, 'Member has no commitment');
+      if (
+        ctx.timestamp <
+        (this.state.lastDistribution.get(id) ?? 0n) +
+          DISTRIBUTOR_CONSTANTS.MIN_DISTRIBUTION_INTERVAL
+      ) {
+        this.revert('DistributionTooFrequent');
+      }
+
+      const { PRECISION } = DISTRIBUTOR_CONSTANTS;
+      const share = checked(checked(amount * commitment) * PRECISION) / this.state.totalCommitment;
+      const memberShare = share / PRECISION;
+      check(memberShare <= amount, 'Share calculation error');
+
+      this.state.totalDistributed = checked(this.state.totalDistributed + amount);
+      this.state.pending.set(id, checked((this.state.pending.get(id) ?? 0n) + memberShare));
+      this.state.lastDistribution.set(id, ctx.timestamp);
+      this.emit('DividendsDistributed', { memberCount, timestamp: ctx.timestamp });
+    },
+
+    claimDividends: (ctx, member: Address, amount: bigint) => {
+      this.onlyPool(ctx);
+      this.whenNotPaused();
+      const id = key(member);
+      check(amount > 0n, 'No dividends to claim');
+      check((this.state.commitments.get(id) ?? 0n) > 0n, 'Member has no commitment');
+      if (amount > DISTRIBUTOR_CONSTANTS.MAX_CLAIM_AMOUNT) this.revert('ClaimAmountTooLarge');
+      const pending = this.state.pending.get(id) ?? 0n;
+      check(amount <= pending, 'Insufficient dividends');
+      this.state.pending.set(id, pending - amount);
+      this.state.received.set(id, checked((this.state.received.get(id) ?? 0n) + amount));
+      this.emit('DividendsClaimed', { member, timestamp: ctx.timestamp });
+    },
+
+    getPendingDividends: ctx => this.state.pending.get(key(ctx.sender)) ?? 0n,
+    getTotalDividendsReceived: ctx => this.state.received.get(key(ctx.sender)) ?? 0n,
+    getCommitmentPercentage: ctx => this.state.commitments.get(key(ctx.sender)) ?? 0n,
+    getLastCommitmentUpdate: ctx => this.state.lastCommitmentUpdate.get(key(ctx.sender)) ?? 0n,
+  };
+}
+
+interface UsdyState {
+  rewardMultiplier: bigint;
+  shares: Map<string, bigint>;
+  totalShares: bigint;
+  allowances: Map<string, bigint>;
+  // "<role>:<account>" of every granted role
+  roles: Set<string>;
+  paused: boolean;
+}
+
+const BASE = 10n ** 18n;
+
+export const USDY_ROLE_IDS = {
+  DEFAULT_ADMIN_ROLE: zeroHash,
+  MINTER_ROLE: keccak256(toHex('MINTER_ROLE')),
+  BURNER_ROLE: keccak256(toHex('BURNER_ROLE')),
+  ORACLE_ROLE: keccak256(toHex('ORACLE_ROLE')),
+  PAUSE_ROLE: keccak256(toHex('PAUSE_ROLE')),
+} as const;
+
+/**
+ * The USDY stablecoin. Like the contract, it emits no events.
+ */
+export class Usdy extends EmulatedContract<UsdyState> {
+  constructor(world: World, address: Address, admin: Address) {
+    super(world, address, usdyAbi, {
+      rewardMultiplier: BASE,
+      shares: new Map(),
+      totalShares: 0n,
+      allowances: new Map(),
+      roles: new Set(),
+      paused: false,
+    });
+    if (admin === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidReceiver', [admin]);
+    this.grant(USDY_ROLE_IDS.DEFAULT_ADMIN_ROLE, admin);
+    this.grant(USDY_ROLE_IDS.MINTER_ROLE, admin);
+    this.update(zeroAddress, USDY_DEBUG_ADDRESS, 1000n * BASE);
+  }
+
+  private hasRole(role: Hex, account: Address): boolean {
+    return account !== zeroAddress && this.state.roles.has(`${role}:${key(account)}`);
+  }
+
+  private grant(role: Hex, account: Address) {
+    this.state.roles.add(`${role}:${key(account)}`);
+  }
+
+  private onlyRole(ctx: CallContext, role: Hex) {
+    if (!this.hasRole(role, ctx.sender)) this.revert('MissingRole', [role, ctx.sender]);
+  }
+
+  private whenNotPaused() {
+    if (this.state.paused) this.revert('TransferWhilePaused');
+  }
+
+  private toShares(amount: bigint): bigint {
+    if (this.state.rewardMultiplier === 0n) return amount;
+    return checked(amount * BASE) / this.state.rewardMultiplier;
+  }
+
+  private toTokens(shares: bigint): bigint {
+    return checked(shares * this.state.rewardMultiplier) / BASE;
+  }
+
+  private sharesOf(account: Address): bigint {
+    return this.state.shares.get(key(account)) ?? 0n;
+  }
+
+  private allowanceOf(owner: Address, spender: Address): bigint {
+    return this.state.allowances.get(`${key(owner)}:${key(spender)}`) ?? 0n;
+  }
+
+  private readAllowance(ctx: CallContext, owner: Address, spender: Address): bigint {
+    if (!isAddressEqual(owner, ctx.sender) && !isAddressEqual(spender, ctx.sender)) {
+      this.revert('UnauthorizedView');
+    }
+    return this.allowanceOf(owner, spender);
+  }
+
+  private approveFrom(owner: Address, spender: Address, amount: bigint) {
+    if (owner === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidApprover', [zeroAddress]);
+    if (spender === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidSpender', [zeroAddress]);
+    this.state.allowances.set(`${key(owner)}:${key(spender)}`, amount);
+  }
+
+  private update(from: Address, to: Address, value: bigint) {
+    if (this.state.paused) this.revert('TransferWhilePaused');
+    const shares = this.toShares(value);
+    if (from !== zeroAddress) {
+      const fromShares = this.sharesOf(from);
+      if (fromShares < shares) {
+        fail(erc20ErrorsAbi, 'ERC20InsufficientBalance', [
+          getAddress(from),
+          this.toTokens(fromShares),
+          value,
+        ]);
+      }
+      this.state.shares.set(key(from), fromShares - shares);
+    } else {
+      this.state.totalShares = checked(this.state.totalShares + shares);
+    }
+    if (to !== zeroAddress) {
+      this.state.shares.set(key(to), this.sharesOf(to) + shares);
+    } else {
+      this.state.totalShares -= shares;
+    }
+  }
+
+  protected readonly methods: Record<string, Method> = {
+    ...Object.fromEntries(Object.entries(USDY_ROLE_IDS).map(([name, id]) => [name, () => id])),
+    name: () => 'USD Yield',
+    symbol: () => 'USDY',
+    decimals: () => 18,
+    totalShares: () => this.state.totalShares,
+    totalSupply: () => this.toTokens(this.state.totalShares),
+    getCurrentRewardMultiplier: () => this.state.rewardMultiplier,
+    paused: () => this.state.paused,
+    hasRole: (_, role: Hex, account: Address) => this.hasRole(role, account),
+
+    // Balances and shares are only revealed to their owner
+    sharesOf: (ctx, account: Address) =>
+      isAddressEqual(account, ctx.sender) ? this.sharesOf(account) : 0n,
+    balanceOf: (ctx, account: Address) =>
+      isAddressEqual(account, ctx.sender) ? this.toTokens(this.sharesOf(account)) : 0n,
+    getBalanceOf: (ctx, account: Address) => {
+      check(isAddressEqual(ctx.sender, USDY_DEBUG_ADDRESS), 'Unauthorized');
+      return this.toTokens(this.sharesOf(account));
+    },
+    getSharesOf: (ctx, account: Address) => {
+      check(isAddressEqual(ctx.sender, USDY_DEBUG_ADDRESS), 'Unauthorized');
+      return this.sharesOf(account);
+    },
+    allowance: (ctx, owner: Address, spender: Address) => this.readAllowance(ctx, owner, spender),
+
+    approve: (ctx, spender: Address, amount: bigint) => {
+      this.whenNotPaused();
+      this.approveFrom(ctx.sender, spender, amount);
+      return true;
+    },
+    increaseAllowance: (ctx, spender: Address, added: bigint) => {
+      this.whenNotPaused();
+      this.approveFrom(ctx.sender, spender, checked(this.allowanceOf(ctx.sender, spender) + added));
+      return true;
+    },
+    decreaseAllowance: (ctx, spender: Address, subtracted: bigint) => {
+      this.whenNotPaused();
+      const current = this.readAllowance(ctx, ctx.sender, spender);
+      if (current < subtracted) {
+        fail(erc20ErrorsAbi, 'ERC20InsufficientAllowance', [
+          getAddress(spender),
+          current,
+          subtracted,
+        ]);
+      }
+      this.approveFrom(ctx.sender, spender, current - subtracted);
+      return true;
+    },
+    transfer: (ctx, to: Address, amount: bigint) => {
+      this.whenNotPaused();
+      if (to === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidReceiver', [zeroAddress]);
+      this.update(ctx.sender, to, amount);
+      return true;
+    },
+    transferFrom: (ctx, from: Address, to: Address, amount: bigint) => {
+      this.whenNotPaused();
+      if (from === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidSender', [zeroAddress]);
+      if (to === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidReceiver', [zeroAddress]);
+      const current = this.readAllowance(ctx, from, ctx.sender);
+      if (current < amount) {
+        fail(erc20ErrorsAbi, 'ERC20InsufficientAllowance', [ctx.sender, current, amount]);
+      }
+      // A maximum allowance is never spent
+      if (current < maxUint256) this.approveFrom(from, ctx.sender, current - amount);
+      this.update(from, to, amount);
+      return true;
+    },
+
+    mint: (ctx, to: Address, amount: bigint) => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.MINTER_ROLE);
+      this.whenNotPaused();
+      if (to === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidReceiver', [zeroAddress]);
+      this.update(zeroAddress, to, amount);
+    },
+    burn: (ctx, from: Address, amount: bigint) => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.BURNER_ROLE);
+      this.whenNotPaused();
+      if (from === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidSender', [zeroAddress]);
+      this.update(from, zeroAddress, amount);
+    },
+    pause: ctx => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.PAUSE_ROLE);
+      if (this.state.paused) this.revert('TransferWhilePaused');
+      this.state.paused = true;
+    },
+    unpause: ctx => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.PAUSE_ROLE);
+      if (!this.state.paused) this.revert('TransferWhilePaused');
+      this.state.paused = false;
+    },
+    grantRole: (ctx, role: Hex, account: Address) => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.DEFAULT_ADMIN_ROLE);
+      if (account === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidReceiver', [account]);
+      this.grant(role, account);
+    },
+    revokeRole: (ctx, role: Hex, account: Address) => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.DEFAULT_ADMIN_ROLE);
+      if (account === zeroAddress) fail(erc20ErrorsAbi, 'ERC20InvalidSender', [account]);
+      this.state.roles.delete(`${role}:${key(account)}`);
+    },
+    addRewardMultiplier: (ctx, increment: bigint) => {
+      this.onlyRole(ctx, USDY_ROLE_IDS.ORACLE_ROLE);
+      if (increment === 0n) this.revert('ZeroRewardIncrement');
+      this.state.rewardMultiplier = checked(this.state.rewardMultiplier + increment);
+    },
+  };
+}
+
+interface EmulatedCreation {
+  code: Hex;
+  inputs: AbiParameter[];
+  create(world: World, address: Address, deployer: Address, args: readonly any[]): EmulatedContract;
+}
+
+const addressInput = (name: string): AbiParameter => ({ name, type: 'address' });
+
+/**
+ * Stand-in creation code of the emulated contracts, written into the forge
+ * artifacts deploy tests read, with the constructor each one runs
+ */
+export const EMULATED_CREATION = {
+  USDY: {
+    code: toHex('emulated USDY'),
+    inputs: [addressInput('admin')],
+    create: (world, address, _, [admin]) => new Usdy(world, address, admin),
+  },
+  ExitContribution: {
+    code: toHex('emulated ExitContribution'),
+    inputs: [],
+    create: (world, address, deployer) => new ExitContribution(world, address, deployer),
+  },
+  SuccessPool: {
+    code: toHex('emulated SuccessPool'),
+    inputs: ['_exitContribution', '_dividendDistributor', '_usdy'].map(addressInput),
+    create: (world, address, deployer, [exitContribution, distributor, usdy]) =>
+      new SuccessPool(world, address, deployer, exitContribution, distributor, usdy),
+  },
+  DividendDistributor: {
+    code: toHex('emulated DividendDistributor'),
+    inputs: [addressInput('_poolContract')],
+    create: (world, address, deployer, [pool]) =>
+      new DividendDistributor(world, address, deployer, pool),
+  },
+} satisfies Record<string, EmulatedCreation>;
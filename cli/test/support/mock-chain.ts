@@ -0,0 +1,664 @@
+import { createCipheriv, createDecipheriv } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { getEncryption } from 'seismic-viem';
+import {
+  Address,
+  Hash,
+  Hex,
+  concatHex,
+  fromRlp,
+  getAddress,
+  getContractAddress,
+  hexToBigInt,
+  keccak256,
+  parseTransaction,
+  recoverAddress,
+  serializeTransaction,
+  signatureToHex,
+  toHex,
+  toRlp,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CallContext, EMULATED_CODE, EmittedLog, Revert, World } from './contracts.js';
+
+// Key of the emulated TEE, shielded calldata is encrypted to its public key
+const TEE_PRIVATE_KEY: Hex = '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+const SEISMIC_TX_TYPE = '0x4a';
+
+const GENESIS_TIMESTAMP = 1_750_000_000n;
+
+const BLOCK_TIME = 2n;
+
+const GAS_PRICE = 1_000_000_000n;
+
+// Gas reported by eth_estimateGas and used by mined transactions
+const CALL_GAS_ESTIMATE = 100_000n;
+const CALL_GAS_USED = 80_000n;
+const TRANSFER_GAS = 21_000n;
+const CREATION_GAS_USED = 1_500_000n;
+
+// Nodes only accept a replacement that raises the gas price by this much
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+/**
+ * A JSON-RPC error, returned to the client as the response's error
+ */
+export class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: Hex
+  ) {
+    super(message);
+  }
+}
+
+export interface MockTransaction {
+  hash: Hash;
+  type: 'legacy' | 'seismic';
+  from: Address;
+  to: Address | null;
+  nonce: number;
+  gas: bigint;
+  gasPrice: bigint;
+  value: bigint;
+  // Calldata as sent, encrypted for seismic transactions
+  input: Hex;
+  // Decrypted calldata
+  plaintext: Hex;
+  functionName: string;
+  v: bigint;
+  r: Hex;
+  s: Hex;
+}
+
+interface MockReceipt {
+  status: 'success' | 'reverted';
+  gasUsed: bigint;
+  logs: EmittedLog[];
+  // Address of the contract a creation deployed
+  contractAddress?: Address;
+}
+
+interface MockBlock {
+  number: bigint;
+  hash: Hash;
+  parentHash: Hash;
+  timestamp: bigint;
+  transactions: MockTransaction[];
+  receipts: MockReceipt[];
+}
+
+type RpcRequest = { id: number | string | null; method: string; params?: any[] };
+
+type BlockHook = (chain: MockChain) => void;
+
+// AES-GCM nonce of seismic calldata: the transaction nonce as a big-endian u64
+function aesNonce(nonce: number): Buffer {
+  const iv = Buffer.alloc(12);
+  iv.writeBigUInt64BE(BigInt(nonce));
+  return iv;
+}
+
+function aesKey(encryptionPubkey: Hex): Buffer {
+  const { aesKey } = getEncryption(encryptionPubkey.slice(2), TEE_PRIVATE_KEY);
+  return Buffer.from(aesKey.slice(2), 'hex');
+}
+
+function encrypt(key: Buffer, nonce: number, plaintext: Hex): Hex {
+  const cipher = createCipheriv('aes-256-gcm', key, aesNonce(nonce));
+  const body = Buffer.concat([
+    cipher.update(Buffer.from(plaintext.slice(2), 'hex')),
+    cipher.final(),
+  ]);
+  return `0x${Buffer.concat([body, cipher.getAuthTag()]).toString('hex')}`;
+}
+
+function decrypt(key: Buffer, nonce: number, ciphertext: Hex): Hex {
+  const bytes = Buffer.from(ciphertext.slice(2), 'hex');
+  const decipher = createDecipheriv('aes-256-gcm', key, aesNonce(nonce));
+  decipher.setAuthTag(bytes.subarray(bytes.length - 16));
+  try {
+    return `0x${Buffer.concat([decipher.update(bytes.subarray(0, bytes.length - 16)), decipher.final()]).toString('hex')}`;
+  } catch {
+    throw new RpcError(-32000, 'failed to decrypt shielded calldata');
+  }
+}
+
+function quantity(value: Hex): bigint {
+  return value === '0x' ? 0n : hexToBigInt(value);
+}
+
+/**
+ * An in-process Seismic node for tests. It decrypts shielded calldata, runs it
+ * against the emulated contracts and mines a block per transaction unless
+ * automine is turned off.
+ */
+export class MockChain {
+  readonly world = new World();
+  readonly blocks: MockBlock[] = [];
+  readonly pending: MockTransaction[] = [];
+  automine = true;
+
+  private readonly nonces = new Map<string, number>();
+  private readonly interceptors: { functionName: string; hook: BlockHook }[] = [];
+  private timeJump = 0n;
+  private server: Server | null = null;
+
+  constructor(readonly chainId: number) {
+    this.appendBlock([], [], GENESIS_TIMESTAMP);
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error('Mock chain is not listening');
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  get latest(): MockBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  /**
+   * Context of calls made against the latest block
+   */
+  context(sender: Address): CallContext {
+    return { sender, timestamp: this.latest.timestamp };
+  }
+
+  async listen(): Promise<void> {
+    this.server = createServer((request, response) => this.handle(request, response));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+
+  /**
+   * Let time pass, the next block is mined that much later
+   */
+  increaseTime(seconds: bigint | number) {
+    this.timeJump += BigInt(seconds);
+    this.mine();
+  }
+
+  /**
+   * Run a hook right before the next transaction calling the function is
+   * executed, after the CLI simulated it
+   */
+  beforeTransaction(functionName: string, hook: BlockHook) {
+    this.interceptors.push({ functionName, hook });
+  }
+
+  /**
+   * Mine a block with every pending transaction that can be included
+   */
+  mine(): MockBlock {
+    const timestamp = this.latest.timestamp + BLOCK_TIME + this.timeJump;
+    this.timeJump = 0n;
+
+    const included: MockTransaction[] = [];
+    const receipts: MockReceipt[] = [];
+    const queue = [...this.pending].sort((a, b) => a.nonce - b.nonce);
+    for (const transaction of queue) {
+      if (transaction.nonce !== this.nonceOf(transaction.from)) continue;
+      this.pending.splice(this.pending.indexOf(transaction), 1);
+      this.nonces.set(transaction.from.toLowerCase(), transaction.nonce + 1);
+
+      const interceptor = this.interceptors.findIndex(
+        candidate => candidate.functionName === transaction.functionName
+      );
+      if (interceptor >= 0) {
+        this.interceptors.splice(interceptor, 1)[0].hook(this);
+      }
+
+      included.push(transaction);
+      receipts.push(this.apply(transaction, timestamp));
+    }
+    return this.appendBlock(included, receipts, timestamp);
+  }
+
+  nonceOf(address: Address): number {
+    return this.nonces.get(address.toLowerCase()) ?? 0;
+  }
+
+  findTransaction(hash: Hash) {
+    for (const block of this.blocks) {
+      const index = block.transactions.findIndex(transaction => transaction.hash === hash);
+      if (index >= 0) return { block, index, transaction: block.transactions[index] };
+    }
+    return null;
+  }
+
+  private appendBlock(transactions: MockTransaction[], receipts: MockReceipt[], timestamp: bigint) {
+    const number = BigInt(this.blocks.length);
+    const parentHash = this.blocks.length > 0 ? this.latest.hash : zeroHash;
+    const block: MockBlock = {
+      number,
+      hash: keccak256(
+        toRlp([toHex(number), parentHash, toHex(timestamp), ...transactions.map(tx => tx.hash)])
+      ),
+      parentHash,
+      timestamp,
+      transactions,
+      receipts,
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  // Execute a mined transaction, reverting its state changes when it fails
+  private apply(transaction: MockTransaction, timestamp: bigint): MockReceipt {
+    if (!transaction.to && transaction.plaintext !== '0x') {
+      return this.create(transaction, timestamp);
+    }
+    if (!transaction.to || !this.world.get(transaction.to)) {
+      return { status: 'success', gasUsed: TRANSFER_GAS, logs: [] };
+    }
+    const snapshot = this.world.snapshot();
+    this.world.logs = [];
+    try {
+      this.world.execute(
+        { sender: transaction.from, timestamp },
+        transaction.to,
+        transaction.plaintext
+      );
+      return { status: 'success', gasUsed: CALL_GAS_USED, logs: this.world.logs };
+    } catch (error) {
+      if (!(error instanceof Revert)) throw error;
+      this.world.restore(snapshot);
+      return { status: 'reverted', gasUsed: CALL_GAS_USED, logs: [] };
+    } finally {
+      this.world.logs = [];
+    }
+  }
+
+  // Deploy an emulated contract to the address derived from the sender and nonce
+  private create(transaction: MockTransaction, timestamp: bigint): MockReceipt {
+    const address = getContractAddress({
+      from: transaction.from,
+      nonce: BigInt(transaction.nonce),
+    });
+    try {
+      this.world.deploy({ sender: transaction.from, timestamp }, address, transaction.plaintext);
+      return { status: 'success', gasUsed: CREATION_GAS_USED, logs: [], contractAddress: address };
+    } catch (error) {
+      if (!(error instanceof Revert)) throw error;
+      return { status: 'reverted', gasUsed: CREATION_GAS_USED, logs: [] };
+    }
+  }
+
+  // Run calldata against the latest state without keeping any change
+  private simulate(sender: Address, to: Address, data: Hex): Hex {
+    const snapshot = this.world.snapshot();
+    try {
+      return this.world.execute(this.context(sender), to, data).result;
+    } catch (error) {
+      if (error instanceof Revert) {
+        throw new RpcError(3, 'execution reverted', error.data);
+      }
+      throw error;
+    } finally {
+      this.world.restore(snapshot);
+      this.world.logs = [];
+    }
+  }
+
+  private async decodeRawTransaction(raw: Hex): Promise<MockTransaction> {
+    if (raw.startsWith(SEISMIC_TX_TYPE)) return this.decodeSeismic(raw);
+
+    const parsed = parseTransaction(raw);
+    const { v, r, s, ...unsigned } = parsed as any;
+    if (unsigned.chainId !== this.chainId) {
+      throw new RpcError(-32000, 'invalid chain id for signer');
+    }
+    const yParity = v >= 35n ? (v - 35n) % 2n : v - 27n;
+    const from = await recoverSigner(
+      keccak256(serializeTransaction({ ...unsigned, type: 'legacy' })),
+      r,
+      s,
+      yParity
+    );
+    const input: Hex = parsed.data ?? '0x';
+    return {
+      hash: keccak256(raw),
+      type: 'legacy',
+      from,
+      to: parsed.to ?? null,
+      nonce: parsed.nonce ?? 0,
+      gas: parsed.gas ?? 0n,
+      gasPrice: parsed.gasPrice ?? 0n,
+      value: parsed.value ?? 0n,
+      input,
+      plaintext: input,
+      functionName: this.functionName(parsed.to ?? null, input),
+      v,
+      r,
+      s,
+    };
+  }
+
+  private async decodeSeismic(raw: Hex): Promise<MockTransaction> {
+    const fields = fromRlp(`0x${raw.slice(4)}`, 'hex') as Hex[];
+    if (fields.length !== 12) throw new RpcError(-32602, 'malformed seismic transaction');
+    const [chainId, nonce, gasPrice, gas, to, value, encryptionPubkey, , input, yParity, r, s] =
+      fields;
+    if (Number(quantity(chainId)) !== this.chainId) {
+      throw new RpcError(-32000, 'invalid chain id for signer');
+    }
+
+    const unsigned = concatHex([SEISMIC_TX_TYPE, toRlp(fields.slice(0, 9))]);
+    const from = await recoverSigner(keccak256(unsigned), r, s, quantity(yParity));
+    const plaintext = decrypt(aesKey(encryptionPubkey), Number(quantity(nonce)), input);
+    const target = to === '0x' ? null : getAddress(to);
+    return {
+      hash: keccak256(raw),
+      type: 'seismic',
+      from,
+      to: target,
+      nonce: Number(quantity(nonce)),
+      gas: quantity(gas),
+      gasPrice: quantity(gasPrice),
+      value: quantity(value),
+      input,
+      plaintext,
+      functionName: this.functionName(target, plaintext),
+      v: quantity(yParity),
+      r,
+      s,
+    };
+  }
+
+  private functionName(to: Address | null, data: Hex): string {
+    const contract = to ? this.world.get(to) : undefined;
+    return contract?.findFunction(data.slice(0, 10) as Hex)?.name ?? '';
+  }
+
+  private async sendRawTransaction(raw: Hex): Promise<Hash> {
+    const transaction = await this.decodeRawTransaction(raw);
+    if (transaction.nonce < this.nonceOf(transaction.from)) {
+      throw new RpcError(-32000, 'nonce too low');
+    }
+
+    const replaced = this.pending.findIndex(
+      candidate =>
+        candidate.nonce === transaction.nonce &&
+        candidate.from.toLowerCase() === transaction.from.toLowerCase()
+    );
+    if (replaced >= 0) {
+      const minimum =
+        (this.pending[replaced].gasPrice * (100n + MIN_REPLACEMENT_BUMP_PERCENT)) / 100n;
+      if (transaction.gasPrice < minimum) {
+        throw new RpcError(-32000, 'replacement transaction underpriced');
+      }
+      this.pending.splice(replaced, 1);
+    }
+
+    this.pending.push(transaction);
+    if (this.automine) this.mine();
+    return transaction.hash;
+  }
+
+  // eth_call with a signed seismic transaction: calldata and result are encrypted
+  private async signedCall(raw: Hex): Promise<Hex> {
+    const fields = fromRlp(`0x${raw.slice(4)}`, 'hex') as Hex[];
+    const transaction = await this.decodeSeismic(raw);
+    if (!transaction.to) throw new RpcError(-32602, 'signed call without a target');
+    const result = this.simulate(transaction.from, transaction.to, transaction.plaintext);
+    if (result === '0x') return '0x';
+    return encrypt(aesKey(fields[6]), transaction.nonce, result);
+  }
+
+  private resolveBlock(tag: string | undefined): MockBlock | null {
+    if (tag === undefined || ['latest', 'pending', 'safe', 'finalized'].includes(tag)) {
+      return this.latest;
+    }
+    if (tag === 'earliest') return this.blocks[0];
+    return this.blocks[Number(BigInt(tag))] ?? null;
+  }
+
+  private formatTransaction(transaction: MockTransaction, block: MockBlock | null, index: number) {
+    return {
+      hash: transaction.hash,
+      type: transaction.type === 'legacy' ? '0x0' : SEISMIC_TX_TYPE,
+      nonce: toHex(transaction.nonce),
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? toHex(block.number) : null,
+      transactionIndex: block ? toHex(index) : null,
+      from: transaction.from,
+      to: transaction.to,
+      value: toHex(transaction.value),
+      gas: toHex(transaction.gas),
+      gasPrice: toHex(transaction.gasPrice),
+      input: transaction.input,
+      v: toHex(transaction.v),
+      r: transaction.r,
+      s: transaction.s,
+      chainId: toHex(this.chainId),
+    };
+  }
+
+  private formatBlock(block: MockBlock, full: boolean) {
+    const gasUsed = block.receipts.reduce((total, receipt) => total + receipt.gasUsed, 0n);
+    return {
+      number: toHex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      nonce: '0x0000000000000000',
+      sha3Uncles: zeroHash,
+      logsBloom: `0x${'00'.repeat(256)}`,
+      transactionsRoot: zeroHash,
+      stateRoot: zeroHash,
+      receiptsRoot: zeroHash,
+      miner: zeroAddress,
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      size: '0x200',
+      gasLimit: toHex(BLOCK_GAS_LIMIT),
+      gasUsed: toHex(gasUsed),
+      timestamp: toHex(block.timestamp),
+      transactions: block.transactions.map((transaction, index) =>
+        full ? this.formatTransaction(transaction, block, index) : transaction.hash
+      ),
+      uncles: [],
+    };
+  }
+
+  private formatLogs(block: MockBlock, index: number, firstLogIndex: number) {
+    const transaction = block.transactions[index];
+    return block.receipts[index].logs.map((log, offset) => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      blockNumber: toHex(block.number),
+      blockHash: block.hash,
+      transactionHash: transaction.hash,
+      transactionIndex: toHex(index),
+      logIndex: toHex(firstLogIndex + offset),
+      removed: false,
+    }));
+  }
+
+  // Logs of a block with their position in it
+  private blockLogs(block: MockBlock) {
+    let logIndex = 0;
+    return block.transactions.flatMap((_, index) => {
+      const logs = this.formatLogs(block, index, logIndex);
+      logIndex += logs.length;
+      return logs;
+    });
+  }
+
+  private formatReceipt(hash: Hash) {
+    const found = this.findTransaction(hash);
+    if (!found) return null;
+    const { block, index, transaction } = found;
+    const receipt = block.receipts[index];
+    const logs = this.blockLogs(block).filter(log => log.transactionHash === hash);
+    const cumulativeGasUsed = block.receipts
+      .slice(0, index + 1)
+      .reduce((total, entry) => total + entry.gasUsed, 0n);
+    return {
+      transactionHash: hash,
+      transactionIndex: toHex(index),
+      blockHash: block.hash,
+      blockNumber: toHex(block.number),
+      from: transaction.from,
+      to: transaction.to,
+      cumulativeGasUsed: toHex(cumulativeGasUsed),
+      gasUsed: toHex(receipt.gasUsed),
+      effectiveGasPrice: toHex(transaction.gasPrice),
+      contractAddress: receipt.contractAddress ?? null,
+      logs,
+      logsBloom: `0x${'00'.repeat(256)}`,
+      status: receipt.status === 'success' ? '0x1' : '0x0',
+      type: transaction.type === 'legacy' ? '0x0' : SEISMIC_TX_TYPE,
+    };
+  }
+
+  private getLogs(filter: {
+    fromBlock?: string;
+    toBlock?: string;
+    blockHash?: Hash;
+    address?: Address | Address[];
+    topics?: (Hex | Hex[] | null)[];
+  }) {
+    let blocks: MockBlock[];
+    if (filter.blockHash) {
+      blocks = this.blocks.filter(block => block.hash === filter.blockHash);
+    } else {
+      const from = this.resolveBlock(filter.fromBlock ?? 'latest');
+      const to = this.resolveBlock(filter.toBlock ?? 'latest');
+      if (!from || !to) return [];
+      blocks = this.blocks.slice(Number(from.number), Number(to.number) + 1);
+    }
+
+    const addresses = [filter.address ?? []].flat().map(address => address.toLowerCase());
+    const topics = filter.topics ?? [];
+    return blocks
+      .flatMap(block => this.blockLogs(block))
+      .filter(log => addresses.length === 0 || addresses.includes(log.address.toLowerCase()))
+      .filter(log =>
+        topics.every((expected, position) => {
+          if (expected === null || expected === undefined) return true;
+          const actual = log.topics[position]?.toLowerCase();
+          return [expected].flat().some(topic => topic.toLowerCase() === actual);
+        })
+      );
+  }
+
+  private async dispatch(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return toHex(this.latest.number);
+      case 'eth_gasPrice':
+        return toHex(GAS_PRICE);
+      case 'eth_getBalance':
+        return toHex(10n ** 21n);
+      case 'seismic_getTeePublicKey':
+        return privateKeyToAccount(TEE_PRIVATE_KEY).publicKey;
+      case 'eth_getCode':
+        return this.world.get(params[0]) ? EMULATED_CODE : '0x';
+      case 'eth_getBlockByNumber': {
+        const block = this.resolveBlock(params[0]);
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      case 'eth_getBlockByHash': {
+        const block = this.blocks.find(candidate => candidate.hash === params[0]);
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      case 'eth_getTransactionCount': {
+        const address = params[0] as Address;
+        if (params[1] !== 'pending') return toHex(this.nonceOf(address));
+        const queued = this.pending
+          .filter(transaction => transaction.from.toLowerCase() === address.toLowerCase())
+          .map(transaction => transaction.nonce + 1);
+        return toHex(Math.max(this.nonceOf(address), ...queued));
+      }
+      case 'eth_call': {
+        if (typeof params[0] === 'string') return this.signedCall(params[0] as Hex);
+        const { from = zeroAddress, to, data = '0x', input } = params[0];
+        return this.simulate(from, to, input ?? data);
+      }
+      case 'eth_estimateGas': {
+        const { from = zeroAddress, to, data, input } = params[0];
+        const calldata: Hex = input ?? data ?? '0x';
+        if (!to && calldata !== '0x') return toHex(CREATION_GAS_USED);
+        if (!to || !this.world.get(to)) return toHex(TRANSFER_GAS);
+        this.simulate(from, to, calldata);
+        return toHex(CALL_GAS_ESTIMATE);
+      }
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(params[0]);
+      case 'eth_getTransactionByHash': {
+        const found = this.findTransaction(params[0]);
+        if (found) return this.formatTransaction(found.transaction, found.block, found.index);
+        const pending = this.pending.find(transaction => transaction.hash === params[0]);
+        return pending ? this.formatTransaction(pending, null, 0) : null;
+      }
+      case 'eth_getTransactionReceipt':
+        return this.formatReceipt(params[0]);
+      case 'eth_getLogs':
+        return this.getLogs(params[0] ?? {});
+      default:
+        throw new RpcError(-32601, `Method ${method} is not supported by the mock chain`);
+    }
+  }
+
+  private async respond(request: RpcRequest) {
+    try {
+      const result = await this.dispatch(request.method, request.params ?? []);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      if (!(error instanceof RpcError)) throw error;
+      const { code, message, data } = error;
+      return { jsonrpc: '2.0', id: request.id, error: { code, message, data } };
+    }
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse) {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', async () => {
+      let body;
+      try {
+        const payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        // Batches are answered in order, a transaction may depend on an earlier one
+        if (Array.isArray(payload)) {
+          body = [];
+          for (const entry of payload) body.push(await this.respond(entry));
+        } else {
+          body = await this.respond(payload);
+        }
+      } catch (error: any) {
+        response.writeHead(500).end(error.stack ?? String(error));
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    });
+  }
+}
+
+function recoverSigner(hash: Hash, r: Hex, s: Hex, yParity: bigint): Promise<Address> {
+  const pad = (value: Hex) => `0x${value.slice(2).padStart(64, '0')}` as Hex;
+  return recoverAddress({
+    hash,
+    signature: signatureToHex({ r: pad(r), s: pad(s), v: 27n + yParity }),
+  });
+}
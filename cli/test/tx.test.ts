@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  ADDRESSES,
+  TestNetwork,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+// Gives up on the receipt right away, the mock chain only mines on demand
+const NO_WAIT = ['--receipt-timeout', '1'];
+
+describe('transaction journal', () => {
+  let network: TestNetwork;
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  beforeEach(() => {
+    network.chain.automine = false;
+  });
+  after(() => network.close());
+
+  async function sendUnmined(args: string[]): Promise<string> {
+    const error = expectError(await runCli(network, [...args, ...NO_WAIT]), 'TX_TIMEOUT');
+    assert.equal(network.chain.pending.length, 1);
+    return error.details.hash;
+  }
+
+  it('journals a transaction that is not mined in time', async () => {
+    const hash = await sendUnmined(['join', '5']);
+
+    const list = expectOk(await runCli(network, ['tx', 'list', '--pending']));
+    assert.deepEqual(
+      list.transactions.map((entry: any) => [entry.hash, entry.functionName, entry.status]),
+      [[hash, 'joinPool', 'pending']]
+    );
+  });
+
+  it('resumes waiting once it is mined', async () => {
+    network.chain.mine();
+    const result = expectOk(await runCli(network, ['tx', 'resume']));
+    assert.equal(result.transactions[0].status, 'success');
+    assert.equal(network.pool.state.memberCount, 1n);
+  });
+
+  it('finishes an interrupted contribution without approving twice', async () => {
+    await sendUnmined(['contribute', '10']);
+    const list = expectOk(await runCli(network, ['tx', 'list']));
+    assert.equal(list.openFlows.length, 1);
+
+    network.chain.mine();
+    network.chain.automine = true;
+    const result = expectOk(await runCli(network, ['tx', 'resume', '--yes']));
+    const [approval, contribution] = result.flows[0].results;
+    assert.equal(approval.simulation, null);
+    assert.equal(contribution.transaction.status, 'success');
+    assert.equal(network.call(network.pool, 'getTotalContributed'), usdy('10'));
+  });
+
+  it('speeds up a pending transaction', async () => {
+    const hash = await sendUnmined(['usdy', 'approve', ADDRESSES.bob, '1']);
+
+    network.chain.automine = true;
+    const result = expectOk(await runCli(network, ['tx', 'speedup', hash, '--yes']));
+    assert.equal(result.replaced, hash);
+    assert.equal(result.transaction.status, 'success');
+    // 20% above the 1 gwei of the original
+    assert.equal(result.gasPrice, '1200000000');
+
+    const list = expectOk(await runCli(network, ['tx', 'list']));
+    const original = list.transactions.find((entry: any) => entry.hash === hash);
+    assert.equal(original.status, 'replaced');
+  });
+
+  it('refuses to replace a transaction that is not pending', async () => {
+    const list = expectOk(await runCli(network, ['tx', 'list']));
+    const mined = list.transactions.find((entry: any) => entry.status === 'success');
+    expectError(await runCli(network, ['tx', 'speedup', mined.hash, '--yes']), 'TX_NOT_PENDING');
+  });
+
+  it('validates the hash and the bump', async () => {
+    expectError(await runCli(network, ['tx', 'cancel', '0x1234', '--yes']), 'INVALID_ARGUMENT');
+    expectError(
+      await runCli(network, ['tx', 'cancel', `0x${'ab'.repeat(32)}`, '--yes']),
+      'TX_NOT_FOUND'
+    );
+
+    const hash = await sendUnmined(['usdy', 'approve', ADDRESSES.bob, '2']);
+    expectError(
+      await runCli(network, ['tx', 'speedup', hash, '--bump', '5', '--yes']),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('cancels a pending transaction with a self-transfer', async () => {
+    const [pending] = network.chain.pending;
+
+    network.chain.automine = true;
+    const result = expectOk(await runCli(network, ['tx', 'cancel', pending.hash, '--yes']));
+    assert.equal(result.cancelled, pending.hash);
+    assert.equal(result.transaction.status, 'success');
+    assert.deepEqual(result.transaction.events, []);
+    // The approval of 2 USDY never happened
+    assert.equal(
+      network.call(network.usdy, 'allowance', [ADDRESSES.alice, ADDRESSES.bob]),
+      usdy('1')
+    );
+  });
+});
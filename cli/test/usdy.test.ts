@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import {
+  ADDRESSES,
+  STARTING_BALANCE,
+  TestNetwork,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('usdy', () => {
+  let network: TestNetwork;
+  const balanceOf = (account: keyof typeof ADDRESSES) =>
+    network.call(network.usdy, 'balanceOf', [ADDRESSES[account]], account);
+
+  before(async () => {
+    network = await startNetwork();
+  });
+  after(() => network.close());
+
+  it('shows the balance of the signer', async () => {
+    const result = expectOk(await runCli(network, ['usdy', 'balance']));
+    assert.equal(result.balance.raw, STARTING_BALANCE.toString());
+    assert.equal(result.source, 'owner');
+  });
+
+  it('refuses to read the balance of another account', async () => {
+    expectError(await runCli(network, ['usdy', 'balance', ADDRESSES.bob]), 'UNAUTHORIZED_VIEW');
+  });
+
+  it('shows the total supply', async () => {
+    const result = expectOk(await runCli(network, ['usdy', 'total-supply']));
+    // Both members plus the 1000 USDY minted to the debug address at deployment
+    assert.equal(result.totalSupply.raw, (STARTING_BALANCE * 2n + usdy('1000')).toString());
+    assert.equal(result.paused, false);
+  });
+
+  it('transfers USDY', async () => {
+    expectOk(await runCli(network, ['usdy', 'transfer', ADDRESSES.bob, '12.5']));
+    assert.equal(balanceOf('alice'), STARTING_BALANCE - usdy('12.5'));
+    assert.equal(balanceOf('bob'), STARTING_BALANCE + usdy('12.5'));
+  });
+
+  it('checks the balance before transferring', async () => {
+    expectError(
+      await runCli(network, ['usdy', 'transfer', ADDRESSES.bob, '5000']),
+      'INSUFFICIENT_BALANCE'
+    );
+  });
+
+  it('rejects amounts with more decimals than the token', async () => {
+    expectError(
+      await runCli(network, ['usdy', 'transfer', ADDRESSES.bob, '0.0000000000000000001']),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('sets, raises and reads an allowance', async () => {
+    expectOk(await runCli(network, ['usdy', 'approve', ADDRESSES.bob, '3']));
+    expectOk(await runCli(network, ['usdy', 'increase-allowance', ADDRESSES.bob, '2']));
+
+    const owner = expectOk(await runCli(network, ['usdy', 'allowance', ADDRESSES.bob]));
+    assert.equal(owner.allowance.raw, usdy('5').toString());
+    const spender = expectOk(
+      await runCli(network, ['usdy', 'allowance', ADDRESSES.bob, '--owner', ADDRESSES.alice], {
+        as: 'bob',
+      })
+    );
+    assert.equal(spender.allowance.raw, usdy('5').toString());
+  });
+
+  it('refuses to read an allowance of other accounts', async () => {
+    expectError(
+      await runCli(network, ['usdy', 'allowance', ADDRESSES.bob, '--owner', ADDRESSES.alice], {
+        as: 'admin',
+      }),
+      'UNAUTHORIZED_VIEW'
+    );
+  });
+
+  it('refuses to decrease an allowance below zero', async () => {
+    expectError(
+      await runCli(network, ['usdy', 'decrease-allowance', ADDRESSES.bob, '6']),
+      'INSUFFICIENT_ALLOWANCE'
+    );
+  });
+
+  it('mints with MINTER_ROLE', async () => {
+    expectOk(
+      await runCli(network, ['usdy', 'mint', '100', '--to', ADDRESSES.bob], { as: 'admin' })
+    );
+    assert.equal(balanceOf('bob'), STARTING_BALANCE + usdy('112.5'));
+  });
+
+  it('refuses to mint without MINTER_ROLE', async () => {
+    const error = expectError(await runCli(network, ['usdy', 'mint', '100']), 'MISSING_ROLE');
+    assert.equal(error.details.role, 'MINTER');
+  });
+
+  it('lists and checks roles', async () => {
+    const list = expectOk(await runCli(network, ['usdy', 'roles', 'list'], { as: 'admin' }));
+    const held = list.roles
+      .filter((role: { held: boolean }) => role.held)
+      .map((role: { role: string }) => role.role);
+    assert.deepEqual(held.sort(), ['DEFAULT_ADMIN', 'MINTER']);
+
+    const check = expectOk(
+      await runCli(network, ['usdy', 'roles', 'check', 'minter', ADDRESSES.alice])
+    );
+    assert.equal(check.held, false);
+    expectError(await runCli(network, ['usdy', 'roles', 'check', 'owner']), 'INVALID_ARGUMENT');
+  });
+
+  it('pauses and unpauses transfers once granted PAUSE_ROLE', async () => {
+    expectError(await runCli(network, ['usdy', 'pause'], { as: 'admin' }), 'MISSING_ROLE');
+    const grant = expectOk(
+      await runCli(network, ['usdy', 'roles', 'grant', 'PAUSE', ADDRESSES.admin], { as: 'admin' })
+    );
+    assert.equal(grant.skipped, false);
+
+    expectOk(await runCli(network, ['usdy', 'pause'], { as: 'admin' }));
+    assert.equal(network.usdy.state.paused, true);
+    expectError(await runCli(network, ['usdy', 'transfer', ADDRESSES.bob, '1']), 'TOKEN_PAUSED');
+    const again = expectOk(await runCli(network, ['usdy', 'pause'], { as: 'admin' }));
+    assert.equal(again.skipped, true);
+
+    expectOk(await runCli(network, ['usdy', 'unpause'], { as: 'admin' }));
+    assert.equal(network.usdy.state.paused, false);
+  });
+
+  it('reports a burn the contract would reject', async () => {
+    expectOk(
+      await runCli(network, ['usdy', 'roles', 'grant', 'BURNER', ADDRESSES.admin], { as: 'admin' })
+    );
+    // Other balances are hidden from the admin, so only the simulation catches this
+    const error = expectError(
+      await runCli(network, ['usdy', 'burn', '5000', '--from', ADDRESSES.bob], { as: 'admin' }),
+      'TX_WOULD_REVERT'
+    );
+    assert.equal(error.details.revert.code, 'INSUFFICIENT_BALANCE');
+
+    expectOk(
+      await runCli(network, ['usdy', 'burn', '12.5', '--from', ADDRESSES.bob], { as: 'admin' })
+    );
+    assert.equal(balanceOf('bob'), STARTING_BALANCE + usdy('100'));
+  });
+
+  it('revokes a role', async () => {
+    expectOk(
+      await runCli(network, ['usdy', 'roles', 'revoke', 'BURNER', ADDRESSES.admin], {
+        as: 'admin',
+      })
+    );
+    const check = expectOk(
+      await runCli(network, ['usdy', 'roles', 'check', 'BURNER', ADDRESSES.admin])
+    );
+    assert.equal(check.held, false);
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import {
+  DAY,
+  TestNetwork,
+  expectError,
+  expectOk,
+  runCli,
+  startNetwork,
+  usdy,
+} from './support/cli.js';
+
+describe('watch', () => {
+  let network: TestNetwork;
+  let receiver: Server;
+  let webhook: string;
+  let logFile: string;
+  // Bodies of the requests the receiver accepted
+  const received: any[] = [];
+  let receiverStatus = 200;
+
+  const watch = async () =>
+    expectOk(
+      await runCli(network, ['watch', '--once', '--webhook', webhook, '--log-file', logFile])
+    );
+  const kinds = (result: any) => result.notifications.map((item: any) => item.kind);
+
+  before(async () => {
+    network = await startNetwork();
+    logFile = join(network.home, 'notifications.log');
+    receiver = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        if (receiverStatus === 200) received.push(JSON.parse(Buffer.concat(chunks).toString()));
+        response.writeHead(receiverStatus).end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    webhook = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks/pool`;
+    expectOk(await runCli(network, ['join', '5']));
+  });
+  after(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    await network.close();
+  });
+
+  it('validates its options', async () => {
+    expectError(await runCli(network, ['watch']), 'INVALID_ARGUMENT');
+    expectError(
+      await runCli(network, ['watch', '--once', '--webhook', 'ftp://example.com']),
+      'INVALID_ARGUMENT'
+    );
+  });
+
+  it('reports the open contribution window on the first check', async () => {
+    const result = await watch();
+    assert.deepEqual(kinds(result), ['contribution-window']);
+    assert.deepEqual(
+      received.map(item => item.kind),
+      ['contribution-window']
+    );
+    assert.equal(received[0].details.lastContributionAt, null);
+  });
+
+  it('only reports changes', async () => {
+    const result = await watch();
+    assert.deepEqual(result.notifications, []);
+    assert.equal(received.length, 1);
+  });
+
+  it('reports new pending dividends', async () => {
+    expectOk(await runCli(network, ['contribute', '10']));
+    const result = await watch();
+    assert.deepEqual(kinds(result), ['dividends']);
+    assert.equal(result.notifications[0].details.added.raw, usdy('10').toString());
+  });
+
+  it('reports admin actions on the pool contracts', async () => {
+    expectOk(await runCli(network, ['admin', 'pause', '--all', '--yes'], { as: 'admin' }));
+    const result = await watch();
+    assert.deepEqual(
+      result.notifications.map((item: any) => [item.details.contract, item.details.event]),
+      [
+        ['pool', 'EmergencyPaused'],
+        ['exitContribution', 'EmergencyPaused'],
+        ['distributor', 'EmergencyPaused'],
+      ]
+    );
+  });
+
+  it('keeps webhook notifications until the receiver accepts them', async () => {
+    network.chain.increaseTime(91 * DAY);
+    receiverStatus = 500;
+    const failed = await watch();
+    assert.deepEqual(kinds(failed), ['leave-eligible']);
+    // Paused contracts still block leaving
+    assert.equal(failed.notifications[0].details.canLeave, false);
+    assert.deepEqual(failed.deliveries[1], {
+      sink: 'webhook',
+      delivered: 0,
+      failed: 1,
+      error: 'Webhook answered 500 Internal Server Error',
+    });
+    assert.equal(failed.undelivered, 1);
+
+    receiverStatus = 200;
+    expectOk(
+      await runCli(network, ['admin', 'unpause', '--target', 'pool', '--yes'], { as: 'admin' })
+    );
+    const delivered = await watch();
+    assert.deepEqual(kinds(delivered), ['pool-event']);
+    assert.equal(delivered.undelivered, 0);
+    assert.deepEqual(
+      received.slice(-2).map(item => item.kind),
+      ['leave-eligible', 'pool-event']
+    );
+  });
+
+  it('appends every notification to the log file', () => {
+    const lines = readFileSync(logFile, 'utf8').trim().split('\n');
+    assert.deepEqual(
+      lines.map(line => JSON.parse(line).kind),
+      [
+        'contribution-window',
+        'dividends',
+        'pool-event',
+        'pool-event',
+        'pool-event',
+        'leave-eligible',
+        'pool-event',
+      ]
+    );
+  });
+});